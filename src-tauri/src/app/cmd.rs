@@ -1,6 +1,7 @@
 use log::{error, info};
 use mouse_position::mouse_position::Mouse;
 use serde_json::json;
+use user_idle::UserIdle;
 
 #[tauri::command]
 pub fn get_mouse_position() -> serde_json::Value {
@@ -24,6 +25,21 @@ pub fn get_mouse_position() -> serde_json::Value {
     }
 }
 
+#[tauri::command]
+pub fn get_idle_time() -> serde_json::Value {
+    /*
+     * seconds since the last keyboard or mouse input in any app, the webview only
+     * receives the keys typed in our own windows
+     */
+    match UserIdle::get_time() {
+        Ok(idle) => json!(idle.as_seconds()),
+        Err(err) => {
+            error!("Error getting idle time: {:?}", err);
+            json!(null)
+        }
+    }
+}
+
 #[tauri::command]
 pub fn open_folder(path: &str) {
     match open::that(path) {
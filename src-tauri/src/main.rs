@@ -55,6 +55,7 @@ fn build_app() {
             conf::convert_path,
             conf::combine_config_path,
             cmd::get_mouse_position,
+            cmd::get_idle_time,
             cmd::open_folder,
             utils::reopen_main_window,
         ])
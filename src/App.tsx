@@ -1,5 +1,5 @@
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
-import React, { Suspense, useState, useEffect } from "react";
+import React, { Suspense, useSyncExternalStore } from "react";
 import Loading from "./Loading";
 import { useSettings } from "./hooks/useSettings";
 import { appWindow } from "@tauri-apps/api/window";
@@ -10,7 +10,10 @@ import { PrimaryColor } from "./utils";
 import { ColorSchemeType } from "./types/ISetting";
 import ThoughtBubble from "./ui/components/ThoughtBubble";
 import "./ui/components/ThoughtBubble.css";
-import { AIMessage } from "./services/petAIService";
+import { bubbleQueue } from "./services/bubbleQueueService";
+import { preferenceService } from "./services/preferenceService";
+import { reminderService } from "./services/reminderService";
+import { OverlayEventType } from "./types/IEvents";
 
 const PhaserWrapper = React.lazy(() => import("./PhaserWrapper"));
 const SettingWindow = React.lazy(() => import("./SettingWindow"));
@@ -19,26 +22,9 @@ function App() {
   useSettings();
   useDefaultPets();
   const { isError, error } = usePets();
-  
-  // State for AI thought bubble
-  const [currentThought, setCurrentThought] = useState<string>("");
-  const [isThoughtVisible, setIsThoughtVisible] = useState(false);
 
-  // Listen for AI messages from Phaser scene
-  useEffect(() => {
-    const handleAIMessage = (event: CustomEvent<AIMessage>) => {
-      const message = event.detail;
-      setCurrentThought(message.text);
-      setIsThoughtVisible(true);
-    };
-
-    // Add event listener
-    window.addEventListener('ai-message' as any, handleAIMessage);
-
-    return () => {
-      window.removeEventListener('ai-message' as any, handleAIMessage);
-    };
-  }, []);
+  // AI thought bubbles, one per speaking pet, the rest wait in the queue
+  const bubbles = useSyncExternalStore(bubbleQueue.subscribe, bubbleQueue.getActiveBubbles);
 
   if (isError) {
     confirm(`Error: ${error.message}`, {
@@ -87,16 +73,33 @@ function App() {
         </Routes>
       </Router>
       
-      {/* AI Thought Bubble - Always rendered but conditionally visible */}
-      <ThoughtBubble
-        message={currentThought}
-        isVisible={isThoughtVisible}
-        onAnimationComplete={() => {
-          setIsThoughtVisible(false);
-          setCurrentThought("");
-        }}
-        duration={12000}
-      />
+      {/* AI Thought Bubbles - each one follows the pet that is speaking */}
+      {bubbles.map(({ message, dismissRequested, pinned }) => (
+        <ThoughtBubble
+          key={message.id}
+          message={message.text}
+          petId={message.petId}
+          isVisible={true}
+          dismissRequested={dismissRequested}
+          pinned={pinned}
+          isStreaming={message.isStreaming}
+          onAnimationComplete={() => bubbleQueue.complete(message.id)}
+          onDismiss={() => bubbleQueue.dismiss(message.id)}
+          onTogglePin={() => bubbleQueue.setPinned(message.id, !pinned)}
+          onReply={message.petId ? () => window.dispatchEvent(new CustomEvent(OverlayEventType.PetChatRequest, { detail: message.petId })) : undefined}
+          // only the pets' own messages can be rated, not chat replies or notices
+          onReact={message.ratingId ? (reaction) => preferenceService.react(message.ratingId!, reaction) : undefined}
+          onReminderDone={message.reminderId ? () => {
+            reminderService.complete(message.reminderId!);
+            bubbleQueue.dismiss(message.id);
+          } : undefined}
+          onReminderSnooze={message.reminderId ? () => {
+            reminderService.snooze(message.reminderId!);
+            bubbleQueue.dismiss(message.id);
+          } : undefined}
+          duration={12000}
+        />
+      ))}
     </>
   );
 }
@@ -3,6 +3,10 @@ import Phaser from "phaser";
 import Pets from "./scenes/Pets";
 import { useSettingStore } from "./hooks/useSettingStore";
 import { appWindow } from "@tauri-apps/api/window";
+import PetChat from "./ui/components/PetChat";
+import PetQuickMenu from "./ui/components/PetQuickMenu";
+import CrisisSupportCard from "./ui/components/CrisisSupportCard";
+import BreathingGuide from "./ui/components/BreathingGuide";
 
 function PhaserWrapper() {
     const phaserDom = useRef<HTMLDivElement>(null);
@@ -74,6 +78,10 @@ function PhaserWrapper() {
     return (
         <>
             <div ref={phaserDom} />
+            <PetChat />
+            <PetQuickMenu />
+            <BreathingGuide />
+            <CrisisSupportCard />
         </>
     )
 }
@@ -15,6 +15,9 @@ import {
   IconSettings,
   IconBuildingStore,
   IconPaw,
+  IconBrain,
+  IconMessageHeart,
+  IconHeartbeat,
 } from '@tabler/icons-react';
 import Logo from './ui/components/Logo';
 import SettingTabs from './ui/shell/SettingTabs';
@@ -30,6 +33,9 @@ import { useSettingTabStore } from './hooks/useSettingTabStore';
 import Title from './ui/components/Title';
 import { Notifications } from '@mantine/notifications';
 import About from './ui/setting_tabs/About';
+import Memory from './ui/setting_tabs/Memory';
+import Messages from './ui/setting_tabs/Messages';
+import Wellbeing from './ui/setting_tabs/Wellbeing';
 import useQueryParams from './hooks/useQueryParams';
 import { ModalsProvider } from '@mantine/modals';
 import useInit from './hooks/useInit';
@@ -99,6 +105,30 @@ function SettingWindow() {
       label: t('Settings'),
       tab: ESettingTab.Settings,
     },
+    {
+      Component: Memory,
+      title: t("Memory"),
+      description: t("What your pets remember about you, stored only on this computer"),
+      Icon: <IconBrain size="1rem" />,
+      label: t('Memory'),
+      tab: ESettingTab.Memory,
+    },
+    {
+      Component: Messages,
+      title: t("Messages"),
+      description: t("Rate what your pets say and they will say more of what you like"),
+      Icon: <IconMessageHeart size="1rem" />,
+      label: t('Messages'),
+      tab: ESettingTab.Messages,
+    },
+    {
+      Component: Wellbeing,
+      title: t("Wellbeing"),
+      description: t("How long you work and how often you take a break"),
+      Icon: <IconHeartbeat size="1rem" />,
+      label: t('Wellbeing'),
+      tab: ESettingTab.Wellbeing,
+    },
     {
       Component: About,
       title: t("About"),
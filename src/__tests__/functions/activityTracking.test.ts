@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+    IDLE_THRESHOLD_MS,
+    createActivityState,
+    getBreakMs,
+    getFocusStreakMs,
+    getSessionMs,
+    isUserActive,
+    recordActivity,
+    recordIdleTime,
+    resetSession,
+} from "../../utils/activityTracking";
+
+const MINUTE = 60 * 1000;
+const BREAK = 10 * MINUTE;
+
+// the user does something every 30 seconds from `from` to `to`
+const work = (state: ReturnType<typeof createActivityState>, from: number, to: number) => {
+    let current = state;
+    for (let time = from; time <= to; time += MINUTE / 2) {
+        current = recordActivity(current, time, BREAK);
+    }
+    return current;
+};
+
+describe("activityTracking", () => {
+    it("Should count working time while the user keeps using the computer", () => {
+        const state = work(createActivityState(0), 0, 30 * MINUTE);
+
+        expect(isUserActive(state, 30 * MINUTE)).toBe(true);
+        expect(getSessionMs(state, 30 * MINUTE)).toBe(30 * MINUTE);
+        expect(getFocusStreakMs(state, 30 * MINUTE)).toBe(30 * MINUTE);
+    });
+
+    it("Should pause the session clock while the user is away", () => {
+        const state = work(createActivityState(0), 0, 20 * MINUTE);
+        const away = 20 * MINUTE + IDLE_THRESHOLD_MS;
+
+        expect(isUserActive(state, away)).toBe(false);
+        expect(getSessionMs(state, away + 5 * MINUTE)).toBe(20 * MINUTE);
+        expect(getFocusStreakMs(state, away)).toBe(0);
+    });
+
+    it("Should not count a short break but restart the focus streak", () => {
+        let state = work(createActivityState(0), 0, 20 * MINUTE);
+        state = work(state, 25 * MINUTE, 30 * MINUTE);
+
+        expect(getSessionMs(state, 30 * MINUTE)).toBe(25 * MINUTE);
+        expect(getFocusStreakMs(state, 30 * MINUTE)).toBe(5 * MINUTE);
+    });
+
+    it("Should start a new session after a long enough break", () => {
+        let state = work(createActivityState(0), 0, 40 * MINUTE);
+        state = recordActivity(state, 40 * MINUTE + BREAK, BREAK);
+
+        expect(state.sessionStart).toBe(40 * MINUTE + BREAK);
+        expect(getSessionMs(state, 40 * MINUTE + BREAK + MINUTE)).toBe(MINUTE);
+    });
+
+    it("Should keep the focus streak when the session is reset", () => {
+        let state = work(createActivityState(0), 0, 30 * MINUTE);
+        state = resetSession(state, 30 * MINUTE);
+
+        expect(getSessionMs(state, 31 * MINUTE)).toBe(MINUTE);
+        expect(getFocusStreakMs(state, 31 * MINUTE)).toBe(31 * MINUTE);
+    });
+
+    it("Should only count idle time after a reset that happened while the user was away", () => {
+        let state = work(createActivityState(0), 0, 20 * MINUTE);
+        state = resetSession(state, 23 * MINUTE);
+        state = recordActivity(state, 25 * MINUTE, BREAK);
+
+        expect(getSessionMs(state, 26 * MINUTE)).toBe(MINUTE);
+    });
+
+    it("Should keep the user active while they type in other apps", () => {
+        let state = work(createActivityState(0), 0, 10 * MINUTE);
+        // the mouse stays still, the system says the last key was pressed 10 seconds ago
+        for (let time = 11 * MINUTE; time <= 20 * MINUTE; time += MINUTE) {
+            state = recordIdleTime(state, time, 10 * 1000, BREAK);
+        }
+
+        expect(isUserActive(state, 20 * MINUTE)).toBe(true);
+        expect(getSessionMs(state, 20 * MINUTE)).toBe(20 * MINUTE);
+        expect(state.sessionStart).toBe(0);
+    });
+
+    it("Should ignore a system idle time older than the last activity", () => {
+        const state = work(createActivityState(0), 0, 10 * MINUTE);
+
+        expect(recordIdleTime(state, 12 * MINUTE, 5 * MINUTE, BREAK)).toBe(state);
+    });
+
+    it("Should start a new session when the system says the user came back after a long break", () => {
+        let state = work(createActivityState(0), 0, 10 * MINUTE);
+        state = recordIdleTime(state, 30 * MINUTE, MINUTE, BREAK);
+
+        expect(state.sessionStart).toBe(29 * MINUTE);
+    });
+
+    it("Should not reset the session of a user who only paused for less than the idle threshold", () => {
+        const breakMs = getBreakMs(1);
+        const state = recordActivity(work(createActivityState(0), 0, 10 * MINUTE), 11.5 * MINUTE, breakMs);
+
+        expect(breakMs).toBe(IDLE_THRESHOLD_MS);
+        expect(state.sessionStart).toBe(0);
+        expect(getBreakMs(15)).toBe(15 * MINUTE);
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { BREATHING_PRESETS } from "../../config/breathing";
+import { BreathingStep, IBreathingPattern } from "../../types/IBreathing";
+import { getBreathingDurationMs, getBreathingPresetId, getBreathingProgress, getBreathingSteps } from "../../utils/breathing";
+
+const SECOND = 1000;
+const BOX: IBreathingPattern = { inhaleSeconds: 4, holdSeconds: 4, exhaleSeconds: 4, holdEmptySeconds: 4 };
+const FOUR_SEVEN_EIGHT: IBreathingPattern = { inhaleSeconds: 4, holdSeconds: 7, exhaleSeconds: 8, holdEmptySeconds: 0 };
+
+describe("breathing", () => {
+    it("Should skip the steps that last 0 seconds", () => {
+        expect(getBreathingSteps(FOUR_SEVEN_EIGHT).map(({ step }) => step)).toEqual([
+            BreathingStep.Inhale,
+            BreathingStep.Hold,
+            BreathingStep.Exhale,
+        ]);
+        expect(getBreathingDurationMs(FOUR_SEVEN_EIGHT, 4)).toBe(76 * SECOND);
+    });
+
+    it("Should count down each step of a cycle", () => {
+        expect(getBreathingProgress(BOX, 2, 0)).toEqual({ step: BreathingStep.Inhale, secondsLeft: 4, stepProgress: 0, cycle: 1, isDone: false });
+        expect(getBreathingProgress(BOX, 2, 5.5 * SECOND)).toEqual({ step: BreathingStep.Hold, secondsLeft: 3, stepProgress: 0.375, cycle: 1, isDone: false });
+        expect(getBreathingProgress(FOUR_SEVEN_EIGHT, 2, 15 * SECOND)).toEqual({ step: BreathingStep.Exhale, secondsLeft: 4, stepProgress: 0.5, cycle: 1, isDone: false });
+    });
+
+    it("Should move on to the next cycle", () => {
+        const progress = getBreathingProgress(BOX, 2, 17 * SECOND);
+
+        expect(progress.step).toBe(BreathingStep.Inhale);
+        expect(progress.cycle).toBe(2);
+    });
+
+    it("Should stay on the last step once every cycle is over", () => {
+        expect(getBreathingProgress(FOUR_SEVEN_EIGHT, 1, 60 * SECOND)).toEqual({ step: BreathingStep.Exhale, secondsLeft: 1, stepProgress: 1, cycle: 1, isDone: true });
+    });
+
+    it("Should recognise the presets and treat anything else as custom", () => {
+        BREATHING_PRESETS.forEach(({ id, pattern }) => expect(getBreathingPresetId({ ...pattern })).toBe(id));
+        expect(getBreathingPresetId({ ...BOX, holdEmptySeconds: 2 })).toBeNull();
+    });
+});
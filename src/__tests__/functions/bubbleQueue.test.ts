@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { bubbleQueue } from "../../services/bubbleQueueService";
+import { BubblePriority } from "../../types/IBubble";
+import { useSettingStore } from "../../hooks/useSettingStore";
+
+const activeTexts = () => bubbleQueue.getActiveBubbles().map(({ message }) => message.text);
+
+describe("bubbleQueue", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        bubbleQueue.clear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("Should show one bubble per pet and keep the rest waiting", () => {
+        const first = bubbleQueue.enqueue({ text: "Chào buổi sáng", petId: "a" }) as number;
+        bubbleQueue.enqueue({ text: "Uống nước nhé", petId: "a" });
+        bubbleQueue.enqueue({ text: "Meo~", petId: "b" });
+
+        expect(activeTexts()).toEqual(["Chào buổi sáng", "Meo~"]);
+
+        bubbleQueue.complete(first);
+        expect(activeTexts()).toEqual(["Meo~", "Uống nước nhé"]);
+    });
+
+    it("Should show higher priorities first and ask the current bubble to fade out", () => {
+        const first = bubbleQueue.enqueue({ text: "Một câu đùa", petId: "a" }) as number;
+        bubbleQueue.enqueue({ text: "Một sự thật thú vị", petId: "a" });
+        bubbleQueue.enqueue({ text: "Nghỉ ngơi chút nhé", petId: "a", priority: BubblePriority.Reminder });
+
+        expect(bubbleQueue.getActiveBubbles()[0].dismissRequested).toBe(true);
+
+        bubbleQueue.complete(first);
+        expect(activeTexts()).toEqual(["Nghỉ ngơi chút nhé"]);
+    });
+
+    it("Should drop messages that waited longer than their time to live", () => {
+        const first = bubbleQueue.enqueue({ text: "Xin chào", petId: "a" }) as number;
+        bubbleQueue.enqueue({ text: "Trời đẹp quá", petId: "a", ttlMs: 1000 });
+
+        vi.advanceTimersByTime(2000);
+        bubbleQueue.complete(first);
+
+        expect(activeTexts()).toEqual([]);
+    });
+
+    it("Should ignore a message that is already on screen", () => {
+        bubbleQueue.enqueue({ text: "Xin chào", petId: "a" });
+        expect(bubbleQueue.enqueue({ text: "Xin chào", petId: "a" })).toBeNull();
+    });
+
+    it("Should update a streaming bubble in place", () => {
+        const id = bubbleQueue.enqueue({ text: "Mình", petId: "a", priority: BubblePriority.Chat }) as number;
+
+        expect(bubbleQueue.update(id, "Mình nghe nè")).toBe(true);
+        expect(activeTexts()).toEqual(["Mình nghe nè"]);
+    });
+
+    it("Should not show any bubble in presentation mode", () => {
+        useSettingStore.getState().setPresentationMode(true);
+
+        expect(bubbleQueue.enqueue({ text: "Mình nghe nè", petId: "a", priority: BubblePriority.Chat })).toBeNull();
+        expect(bubbleQueue.enqueue({ text: "Chưa có API key", priority: BubblePriority.System })).toBeNull();
+        expect(activeTexts()).toEqual([]);
+
+        useSettingStore.getState().setPresentationMode(false);
+        bubbleQueue.enqueue({ text: "Mình nghe nè", petId: "a", priority: BubblePriority.Chat });
+        expect(activeTexts()).toEqual(["Mình nghe nè"]);
+    });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { crisisSupportService } from "../../services/crisisSupportService";
+import { petChatService } from "../../services/petChatService";
+import { AIMessage, petAIManager } from "../../services/petAIService";
+import { reminderService } from "../../services/reminderService";
+import { memoryService } from "../../services/memoryService";
+import { timeTracker } from "../../services/timeTrackingService";
+import { generateChatReply, generateThoughtMessage } from "../../services/geminiService";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { OverlayEventType } from "../../types/IEvents";
+import { ICrisisSupport } from "../../types/ICrisisSupport";
+import { ReminderType } from "../../types/IReminder";
+import { createReminder } from "../../utils/reminders";
+
+// no config files, every service starts empty
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async () => undefined,
+    setConfig: async () => undefined,
+}));
+
+vi.mock("../../services/geminiService", () => ({
+    generateChatReply: vi.fn(async () => ({ message: "Chào bạn!", success: true })),
+    generateThoughtMessage: vi.fn(async () => ({ message: "Uống nước nhé!", success: true })),
+    generateReminderMessage: vi.fn(async (text: string) => ({ message: text, success: true })),
+}));
+
+vi.mock("../../services/weatherService", () => ({
+    getCurrentWeather: async () => ({ error: "offline" }),
+    getHourlyForecast: async () => [],
+    getCurrentTimeInfo: () => ({ timeOfDay: "buổi sáng" }),
+}));
+
+const PET_ID = "pet-1";
+const settings = { enabled: true, minIntervalMinutes: 0 };
+
+describe("while the crisis support card is open", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        timeTracker.recordActivity();
+        useSettingStore.getState().setCrisisPhrases([]);
+    });
+
+    afterEach(() => {
+        petAIManager.stopAll();
+        reminderService.stop();
+        crisisSupportService.close();
+        vi.mocked(generateChatReply).mockClear();
+        vi.mocked(generateThoughtMessage).mockClear();
+        vi.useRealTimers();
+    });
+
+    it("Should answer a crisis chat message without the AI and keep it out of history and memory", async () => {
+        const replies: AIMessage[] = [];
+
+        await petChatService.sendMessage(PET_ID, "mình không muốn sống nữa", (message) => replies.push(message));
+
+        expect(generateChatReply).not.toHaveBeenCalled();
+        expect(replies).toHaveLength(1);
+        expect(replies[0].text).toContain("không một mình");
+        expect(petChatService.getHistory(PET_ID)).toEqual([]);
+        expect((await memoryService.getStore()).messages).toEqual([]);
+    });
+
+    it("Should skip scheduled turns", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        crisisSupportService.check("I want to die");
+        const onMessage = vi.fn();
+
+        petAIManager.addPet({ petId: PET_ID, settings, actions: [] }, onMessage);
+        await vi.advanceTimersByTimeAsync(80 * 1000);
+
+        expect(generateThoughtMessage).not.toHaveBeenCalled();
+        expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it("Should close the bubble of a thought that was streaming when the card opened", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        vi.mocked(generateThoughtMessage).mockImplementationOnce(async (_context, _persona, _actions, onChunk) => {
+            onChunk?.("Uống");
+            crisisSupportService.check("mình muốn tự tử");
+            return { message: "Uống nước nhé!", success: true };
+        });
+        const messages: AIMessage[] = [];
+
+        petAIManager.addPet({ petId: PET_ID, settings, actions: [] }, (message) => messages.push({ ...message }));
+        await vi.advanceTimersByTimeAsync(80 * 1000);
+
+        expect(messages.map(({ text, isCancelled }) => [text, !!isCancelled])).toEqual([
+            ["", false],
+            ["Uống", false],
+            ["Uống nước nhé!", true],
+        ]);
+    });
+
+    it("Should hold reminders until the card is closed", async () => {
+        useSettingStore.getState().setReminders([{ ...createReminder(ReminderType.Water, "water"), intervalMinutes: 1, days: [0, 1, 2, 3, 4, 5, 6] }]);
+        const onReminder = vi.fn();
+        const unsubscribe = reminderService.onReminder(onReminder);
+        crisisSupportService.check("tự tử");
+
+        reminderService.start();
+        await vi.advanceTimersByTimeAsync(90 * 1000);
+        expect(onReminder).not.toHaveBeenCalled();
+
+        crisisSupportService.close();
+        timeTracker.recordActivity();
+        await vi.advanceTimersByTimeAsync(30 * 1000);
+        expect(onReminder).toHaveBeenCalledTimes(1);
+        unsubscribe();
+    });
+});
+
+describe("crisis phrases", () => {
+    const listener = vi.fn((event: Event) => (event as CustomEvent<ICrisisSupport>).detail.phrase);
+
+    beforeEach(() => {
+        window.addEventListener(OverlayEventType.CrisisSupportOpen, listener);
+    });
+
+    afterEach(() => {
+        window.removeEventListener(OverlayEventType.CrisisSupportOpen, listener);
+        listener.mockClear();
+        crisisSupportService.close();
+        useSettingStore.getState().setCrisisPhrases([]);
+    });
+
+    it("Should also look for the phrases the user added", () => {
+        expect(crisisSupportService.check("dạo này mình chỉ muốn biến mất")).toBe(false);
+
+        useSettingStore.getState().setCrisisPhrases(["  ", "biến mất"]);
+
+        expect(crisisSupportService.check("dạo này mình chỉ muốn biến mất")).toBe(true);
+        expect(crisisSupportService.check("I want to die")).toBe(true);
+    });
+
+    it("Should show the card once for each phrase found in text written in the settings", () => {
+        crisisSupportService.checkWrittenText(["Uống nước", "mình muốn tự tử"]);
+        crisisSupportService.close();
+        crisisSupportService.checkWrittenText(["Uống nước", "mình muốn tự tử"]);
+        crisisSupportService.checkWrittenText(["I want to die"]);
+
+        expect(listener.mock.results.map((result) => result.value)).toEqual(["tự tử", "want to die"]);
+        expect(crisisSupportService.isActive()).toBe(true);
+    });
+});
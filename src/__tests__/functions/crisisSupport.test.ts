@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { detectCrisis, getCrisisResources } from "../../utils/crisisSupport";
+import { INTERNATIONAL_CRISIS_RESOURCES } from "../../config/crisis_support";
+import { crisisSupportService } from "../../services/crisisSupportService";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { OverlayEventType } from "../../types/IEvents";
+import { ICrisisSupport } from "../../types/ICrisisSupport";
+
+describe("detectCrisis", () => {
+    it("Should not react to everyday messages", () => {
+        expect(detectCrisis("Hôm nay mình mệt quá, làm bài cả ngày", "VN")).toBeNull();
+        expect(detectCrisis("This bug is killing me lol", "US")).toBeNull();
+        expect(detectCrisis("今天好累啊", "CN")).toBeNull();
+    });
+
+    it("Should find crisis phrases in Vietnamese with or without accents", () => {
+        expect(detectCrisis("Mình không muốn sống nữa", "VN")?.phrase).toBe("không muốn sống nữa");
+        expect(detectCrisis("dao nay minh hay nghi toi TU TU", "VN")?.phrase).toBe("tự tử");
+    });
+
+    it("Should find crisis phrases in English, Chinese and Khmer", () => {
+        expect(detectCrisis("Sometimes I want to die.", "US")?.phrase).toBe("want to die");
+        expect(detectCrisis("我真的不想活了", "CN")?.phrase).toBe("不想活了");
+        expect(detectCrisis("ខ្ញុំចង់ស្លាប់", "")?.phrase).toBe("ចង់ស្លាប់");
+    });
+
+    it("Should only match whole words", () => {
+        expect(detectCrisis("I'm cutting myselfie sticks", "US", ["cut myself"])).toBeNull();
+    });
+
+    it("Should use the given phrase set instead of the bundled one", () => {
+        expect(detectCrisis("mình muốn biến mất", "VN", ["biến mất"])?.phrase).toBe("biến mất");
+        expect(detectCrisis("I want to die", "US", ["biến mất"])).toBeNull();
+    });
+
+    it("Should come with the support lines of the user's country", () => {
+        const support = detectCrisis("I want to end my life", "GB");
+
+        expect(support?.resources.country).toBe("GB");
+        expect(support?.resources.hotlines.map((hotline) => hotline.contact)).toContain("116 123");
+    });
+});
+
+describe("getCrisisResources", () => {
+    it("Should find a country whatever the case of its code", () => {
+        expect(getCrisisResources(" vn ").country).toBe("VN");
+    });
+
+    it("Should always include a listening line and an emergency number for bundled countries", () => {
+        ["VN", "US", "GB", "AU", "CN", "TW"].forEach((country) => {
+            const { hotlines } = getCrisisResources(country);
+
+            expect(hotlines.some((hotline) => !hotline.isEmergency)).toBe(true);
+            expect(hotlines.some((hotline) => hotline.isEmergency)).toBe(true);
+        });
+    });
+
+    it("Should fall back to international resources for unknown or missing countries", () => {
+        expect(getCrisisResources("KH")).toBe(INTERNATIONAL_CRISIS_RESOURCES);
+        expect(getCrisisResources("")).toBe(INTERNATIONAL_CRISIS_RESOURCES);
+    });
+});
+
+describe("crisisSupportService", () => {
+    const listener = vi.fn((event: Event) => (event as CustomEvent<ICrisisSupport>).detail);
+
+    afterEach(() => {
+        window.removeEventListener(OverlayEventType.CrisisSupportOpen, listener);
+        listener.mockClear();
+        crisisSupportService.close();
+    });
+
+    it("Should let normal messages through without showing the card", () => {
+        window.addEventListener(OverlayEventType.CrisisSupportOpen, listener);
+
+        expect(crisisSupportService.check("Kể mình nghe chuyện vui đi")).toBe(false);
+        expect(crisisSupportService.isActive()).toBe(false);
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("Should show the card with the support lines of the profile country", () => {
+        useSettingStore.getState().setUserProfile({ ...useSettingStore.getState().userProfile, country: "US" });
+        window.addEventListener(OverlayEventType.CrisisSupportOpen, listener);
+
+        expect(crisisSupportService.check("I think about suicide a lot")).toBe(true);
+        expect(crisisSupportService.isActive()).toBe(true);
+        expect(listener.mock.results[0].value.resources.country).toBe("US");
+    });
+
+    it("Should let the pets talk again once the card is closed", () => {
+        crisisSupportService.check("mình muốn tự tử");
+        crisisSupportService.close();
+
+        expect(crisisSupportService.isActive()).toBe(false);
+    });
+});
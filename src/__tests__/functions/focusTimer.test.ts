@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+    advanceFocusTimer,
+    createFocusTimer,
+    formatRemaining,
+    getInterruptedSession,
+    getRemainingMs,
+    isFocusing,
+    startFocusTimer,
+    stopFocusTimer,
+} from "../../utils/focusTimer";
+import { FocusPhase, IFocusPlan, IFocusSession, IFocusTimerState } from "../../types/IFocusTimer";
+import { focusTimerService } from "../../services/focusTimerService";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { DefaultConfigName } from "../../types/ISetting";
+
+const files = vi.hoisted(() => new Map<string, string>());
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async ({ configName }: { configName: string }) => files.has(configName) ? JSON.parse(files.get(configName)!) : undefined,
+    setConfig: async ({ configName, newConfig }: { configName: string, newConfig: unknown }) => { files.set(configName, JSON.stringify(newConfig)); },
+}));
+
+// the new timer state is sent to the other windows, there are none here
+vi.mock("../../utils/handleSettingChange", () => ({
+    handleSettingChange: vi.fn(),
+}));
+
+const MINUTE = 60 * 1000;
+const plan: IFocusPlan = { focusMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, sessionsBeforeLongBreak: 2 };
+
+// run the timer until the current phase is over
+const finishPhase = (state: IFocusTimerState) => advanceFocusTimer(state, state.phaseEndsAt);
+
+describe("focusTimer", () => {
+    it("Should start with a focus session", () => {
+        const state = startFocusTimer(plan, 0);
+
+        expect(state.phase).toBe(FocusPhase.Focus);
+        expect(state.phaseEndsAt).toBe(25 * MINUTE);
+        expect(isFocusing(state, 10 * MINUTE)).toBe(true);
+        expect(getRemainingMs(state, 10 * MINUTE)).toBe(15 * MINUTE);
+    });
+
+    it("Should not change before the phase is over", () => {
+        const state = startFocusTimer(plan, 0);
+
+        expect(advanceFocusTimer(state, 25 * MINUTE - 1)).toEqual({ state, session: null });
+        expect(advanceFocusTimer(createFocusTimer(plan), 25 * MINUTE).session).toBeNull();
+    });
+
+    it("Should take a short break after a focus session and a long one after enough sessions", () => {
+        let result = finishPhase(startFocusTimer(plan, 0));
+        expect(result.state.phase).toBe(FocusPhase.ShortBreak);
+        expect(result.session).toMatchObject({ phase: FocusPhase.Focus, plannedMinutes: 25, completed: true });
+
+        result = finishPhase(result.state);
+        expect(result.state.phase).toBe(FocusPhase.Focus);
+
+        result = finishPhase(result.state);
+        expect(result.state.phase).toBe(FocusPhase.LongBreak);
+        expect(result.state.completedSessions).toBe(2);
+        expect(result.state.phaseEndsAt - result.state.phaseStartedAt).toBe(15 * MINUTE);
+    });
+
+    it("Should keep the schedule when the phase end is noticed late", () => {
+        const { state } = advanceFocusTimer(startFocusTimer(plan, 0), 26 * MINUTE);
+
+        expect(state.phaseStartedAt).toBe(25 * MINUTE);
+        expect(getRemainingMs(state, 26 * MINUTE)).toBe(4 * MINUTE);
+    });
+
+    it("Should stop instead of making up sessions when nobody followed the timer", () => {
+        const { state, session } = advanceFocusTimer(startFocusTimer(plan, 0), 3 * 60 * MINUTE);
+
+        expect(state.phase).toBe(FocusPhase.Idle);
+        expect(state.plan).toEqual(plan);
+        expect(session?.phase).toBe(FocusPhase.Focus);
+    });
+
+    it("Should log a stopped phase as not completed", () => {
+        const state = startFocusTimer(plan, 0);
+
+        expect(getInterruptedSession(state, 10 * MINUTE)).toMatchObject({ endedAt: 10 * MINUTE, completed: false });
+        expect(getInterruptedSession(stopFocusTimer(state), 10 * MINUTE)).toBeNull();
+    });
+
+    it("Should show the remaining time like a kitchen timer", () => {
+        expect(formatRemaining(25 * MINUTE)).toBe("25:00");
+        expect(formatRemaining(61 * 1000 - 1)).toBe("01:01");
+        expect(formatRemaining(0)).toBe("00:00");
+    });
+});
+
+describe("focusTimerService", () => {
+    afterEach(() => {
+        focusTimerService.stop();
+        useSettingStore.getState().setFocusTimer(createFocusTimer(plan));
+        vi.useRealTimers();
+    });
+
+    it("Should log both sessions when the timer is restarted after its phase was over", async () => {
+        vi.useFakeTimers();
+        const now = Date.now();
+        const earlier: IFocusSession = { phase: FocusPhase.Focus, startedAt: 0, endedAt: 25 * MINUTE, plannedMinutes: 25, completed: true };
+        files.set(DefaultConfigName.FOCUS_SESSIONS, JSON.stringify([earlier]));
+        focusTimerService.invalidate();
+
+        useSettingStore.getState().setFocusTimer(startFocusTimer(plan, now));
+        focusTimerService.start();
+        // started again somewhere else with a focus that is already over: the running one was cut short and the new one completed
+        useSettingStore.getState().setFocusTimer(startFocusTimer(plan, now - 30 * MINUTE));
+        await vi.advanceTimersByTimeAsync(1000);
+
+        const sessions = await focusTimerService.getSessions();
+        expect(sessions.map(({ completed }) => completed)).toEqual([true, false, true]);
+        expect(JSON.parse(files.get(DefaultConfigName.FOCUS_SESSIONS)!)).toEqual(sessions);
+    });
+});
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLLMProvider, getActiveLLMProvider } from "../../services/llm";
+import { GeminiProvider } from "../../services/llm/geminiProvider";
+import { OpenAICompatibleProvider } from "../../services/llm/openAICompatibleProvider";
+import { OllamaProvider } from "../../services/llm/ollamaProvider";
+import { MockProvider } from "../../services/llm/mockProvider";
+import { credentialService } from "../../services/credentialService";
+import { generateChatReply } from "../../services/geminiService";
+import { createPersonaFromPreset } from "../../config/persona_presets";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { ILLMRequest, LLMProviderType, LLMResponseFormat } from "../../types/ILLM";
+import { CredentialProvider } from "../../types/ICredential";
+import { DefaultConfigName } from "../../types/ISetting";
+import { AddressForm } from "../../types/IUserProfile";
+
+const files = vi.hoisted(() => new Map<string, string>());
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async ({ configName }: { configName: string }) => files.has(configName) ? JSON.parse(files.get(configName)!) : undefined,
+    setConfig: async ({ configName, newConfig }: { configName: string, newConfig: unknown }) => { files.set(configName, JSON.stringify(newConfig)); },
+}));
+
+const request: ILLMRequest = { systemInstruction: "Bạn là Mochi", messages: [{ role: "user", content: "Chào" }] };
+
+const setGeminiKeys = (keys: string[]) => {
+    files.set(DefaultConfigName.CREDENTIALS, JSON.stringify({
+        [CredentialProvider.Gemini]: keys.map((key, index) => ({ id: `${index}`, label: `Key ${index + 1}`, key, createdAt: 0 })),
+    }));
+    credentialService.invalidate();
+};
+
+const geminiData = (text: string) => ({ candidates: [{ content: { parts: [{ text }] } }] });
+
+// streams the chunks as Server-Sent Events, then drops the connection if failAtEnd is set
+const sseResponse = (chunks: string[], failAtEnd = false) => {
+    const lines = chunks.map((chunk) => `data: ${JSON.stringify(geminiData(chunk))}\n\n`);
+    return new Response(new ReadableStream({
+        pull(controller) {
+            const line = lines.shift();
+            if (line) controller.enqueue(new TextEncoder().encode(line));
+            else if (failAtEnd) controller.error(new Error("Kết nối bị ngắt"));
+            else controller.close();
+        },
+    }));
+};
+
+// the key each request was sent with
+const fetchMock = vi.fn<[string], Promise<Response>>();
+const usedKeys = () => fetchMock.mock.calls.map(([url]) => new URL(url).searchParams.get("key"));
+
+describe("LLM providers", () => {
+    beforeEach(() => {
+        files.clear();
+        credentialService.invalidate();
+        fetchMock.mockReset();
+        vi.stubGlobal("fetch", fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("Should create the provider of the chosen type", () => {
+        expect(createLLMProvider({ type: LLMProviderType.Gemini, baseUrl: "", model: "" })).toBeInstanceOf(GeminiProvider);
+        expect(createLLMProvider({ type: LLMProviderType.OpenAICompatible, baseUrl: "", model: "" })).toBeInstanceOf(OpenAICompatibleProvider);
+        expect(createLLMProvider({ type: LLMProviderType.Ollama, baseUrl: "", model: "" })).toBeInstanceOf(OllamaProvider);
+        expect(createLLMProvider({ type: LLMProviderType.Mock, baseUrl: "", model: "" })).toBeInstanceOf(MockProvider);
+    });
+
+    it("Should use the default address and model when they are left empty", async () => {
+        setGeminiKeys(["a"]);
+        fetchMock.mockImplementation(async () => Response.json(geminiData("Chào bạn")));
+
+        await createLLMProvider({ type: LLMProviderType.Gemini, baseUrl: " ", model: "" }).generate(request);
+        await createLLMProvider({ type: LLMProviderType.Gemini, baseUrl: "http://localhost:9000/", model: "gemini-pro" }).generate(request);
+
+        expect(fetchMock.mock.calls[0][0]).toMatch(/^https:\/\/generativelanguage\.googleapis\.com\/v1beta\/models\/gemini-1\.5-flash-latest:generateContent/);
+        expect(fetchMock.mock.calls[1][0]).toMatch(/^http:\/\/localhost:9000\/models\/gemini-pro:generateContent/);
+    });
+
+    it("Should follow the provider chosen in the settings and reuse it while the settings stay the same", () => {
+        useSettingStore.getState().setAIProvider(LLMProviderType.Mock);
+        const provider = getActiveLLMProvider();
+
+        expect(provider).toBeInstanceOf(MockProvider);
+        expect(getActiveLLMProvider()).toBe(provider);
+
+        useSettingStore.getState().setAIProvider(LLMProviderType.Ollama);
+        expect(getActiveLLMProvider()).toBeInstanceOf(OllamaProvider);
+    });
+
+    it("Should only ask for a key when the provider needs one", async () => {
+        expect(await createLLMProvider({ type: LLMProviderType.Gemini, baseUrl: "", model: "" }).hasCredentials()).toBe(false);
+        expect(await createLLMProvider({ type: LLMProviderType.OpenAICompatible, baseUrl: "", model: "" }).hasCredentials()).toBe(true);
+        expect(await createLLMProvider({ type: LLMProviderType.Ollama, baseUrl: "", model: "" }).hasCredentials()).toBe(true);
+        expect(await createLLMProvider({ type: LLMProviderType.Mock, baseUrl: "", model: "" }).hasCredentials()).toBe(true);
+
+        setGeminiKeys(["  "]);
+        expect(await createLLMProvider({ type: LLMProviderType.Gemini, baseUrl: "", model: "" }).hasCredentials()).toBe(false);
+        setGeminiKeys(["a"]);
+        expect(await createLLMProvider({ type: LLMProviderType.Gemini, baseUrl: "", model: "" }).hasCredentials()).toBe(true);
+    });
+});
+
+describe("GeminiProvider", () => {
+    beforeEach(() => {
+        files.clear();
+        credentialService.invalidate();
+        fetchMock.mockReset();
+        vi.stubGlobal("fetch", fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("Should try the next key when one fails and start from the working key next time", async () => {
+        setGeminiKeys(["a", "b"]);
+        fetchMock
+            .mockResolvedValueOnce(new Response(null, { status: 429, statusText: "Too Many Requests" }))
+            .mockImplementation(async () => Response.json(geminiData(" Chào bạn ")));
+        const provider = new GeminiProvider();
+
+        expect(await provider.generate(request)).toBe("Chào bạn");
+        expect(await provider.generate(request)).toBe("Chào bạn");
+        expect(usedKeys()).toEqual(["a", "b", "b"]);
+    });
+
+    it("Should report the last error once every key has failed", async () => {
+        setGeminiKeys(["a", "b"]);
+        fetchMock.mockImplementation(async () => new Response(null, { status: 403, statusText: "Forbidden" }));
+
+        await expect(new GeminiProvider().generate(request)).rejects.toThrow("Tất cả API key đều lỗi. Lỗi cuối: HTTP 403: Forbidden");
+        expect(usedKeys()).toEqual(["a", "b"]);
+    });
+
+    it("Should not call the API without a key", async () => {
+        await expect(new GeminiProvider().generate(request)).rejects.toThrow("Chưa có API key Gemini");
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("Should stream with the next key when the first one fails before any text", async () => {
+        setGeminiKeys(["a", "b"]);
+        fetchMock
+            .mockResolvedValueOnce(new Response(null, { status: 500, statusText: "Internal Server Error" }))
+            .mockResolvedValueOnce(sseResponse(["Chào ", "bạn"]));
+        const chunks: string[] = [];
+
+        expect(await new GeminiProvider().stream(request, (chunk) => chunks.push(chunk))).toBe("Chào bạn");
+        expect(chunks).toEqual(["Chào ", "bạn"]);
+        expect(usedKeys()).toEqual(["a", "b"]);
+    });
+
+    it("Should not retry with another key once part of the stream was shown", async () => {
+        setGeminiKeys(["a", "b"]);
+        fetchMock
+            .mockResolvedValueOnce(sseResponse(["Chào "], true))
+            .mockResolvedValueOnce(sseResponse(["Xin chào bạn"]));
+        const chunks: string[] = [];
+        const provider = new GeminiProvider();
+
+        await expect(provider.stream(request, (chunk) => chunks.push(chunk))).rejects.toThrow("Kết nối bị ngắt");
+        expect(chunks).toEqual(["Chào "]);
+        expect(usedKeys()).toEqual(["a"]);
+
+        // the failed key still goes to the back of the line
+        await provider.stream(request, () => undefined);
+        expect(usedKeys()).toEqual(["a", "b"]);
+    });
+
+    it("Should ask the user for a key instead of replying when none is set", async () => {
+        useSettingStore.getState().setAIProvider(LLMProviderType.Gemini);
+
+        const response = await generateChatReply([{ role: "user", content: "Chào" }], createPersonaFromPreset("Mochi"), () => undefined);
+
+        expect(response.success).toBe(false);
+        expect(response.missingApiKey).toBe(true);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("Should ask for a key the way the user wants to be called", async () => {
+        useSettingStore.getState().setAIProvider(LLMProviderType.Gemini);
+        const { userProfile } = useSettingStore.getState();
+        useSettingStore.getState().setUserProfile({ ...userProfile, addressForm: AddressForm.Chi });
+
+        const response = await generateChatReply([{ role: "user", content: "Chào" }], createPersonaFromPreset("Mochi"), () => undefined);
+        useSettingStore.getState().setUserProfile(userProfile);
+
+        expect(response.message).toContain("trò chuyện với chị,");
+    });
+});
+
+describe("MockProvider", () => {
+    it("Should always give the same answer to the same prompt", async () => {
+        const provider = new MockProvider();
+
+        expect(await provider.generate(request)).toBe(await provider.generate(request));
+    });
+
+    it("Should answer in JSON when asked to", async () => {
+        const answer = JSON.parse(await new MockProvider().generate({ ...request, responseFormat: LLMResponseFormat.Json }));
+
+        expect(typeof answer.message).toBe("string");
+        expect(answer.action).toBeNull();
+    });
+
+    it("Should stream the same answer word by word", async () => {
+        vi.useFakeTimers();
+        const provider = new MockProvider();
+        const chunks: string[] = [];
+
+        const streaming = provider.stream(request, (chunk) => chunks.push(chunk));
+        await vi.runAllTimersAsync();
+
+        expect(await streaming).toBe(await provider.generate(request));
+        expect(chunks.join("")).toBe(await provider.generate(request));
+        expect(chunks.length).toBeGreaterThan(1);
+        vi.useRealTimers();
+    });
+});
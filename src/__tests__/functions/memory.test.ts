@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { countLeadingMessages, estimateTokens, extractUserFacts, memoryService } from "../../services/memoryService";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { LLMProviderType } from "../../types/ILLM";
+import { IMemoryMessage, MemoryMessageSource } from "../../types/IMemory";
+
+// config files live in memory instead of the app config folder
+const files = vi.hoisted(() => new Map<string, string>());
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async ({ configName }: { configName: string }) => files.has(configName) ? JSON.parse(files.get(configName)!) : undefined,
+    setConfig: async ({ configName, newConfig }: { configName: string, newConfig: unknown }) => {
+        files.set(configName, JSON.stringify(newConfig));
+    },
+}));
+
+const message = (content: string, timestamp = 0): IMemoryMessage => ({ role: "user", content, timestamp, source: MemoryMessageSource.Chat });
+
+describe("extractUserFacts", () => {
+    it("Should remember what the user tells about themselves", () => {
+        expect(extractUserFacts("Chào bạn! Mình tên là Lan. Tớ sống ở Đà Nẵng")).toEqual(["Mình tên là Lan", "Tớ sống ở Đà Nẵng"]);
+        expect(extractUserFacts("Em là sinh viên năm 3")).toEqual(["Em là sinh viên năm 3"]);
+        expect(extractUserFacts("My name is Quin. I'm allergic to peanuts")).toEqual(["My name is Quin", "I'm allergic to peanuts"]);
+        expect(extractUserFacts("Hãy nhớ mình uống thuốc lúc 9 giờ")).toEqual(["Hãy nhớ mình uống thuốc lúc 9 giờ"]);
+    });
+
+    it("Should not remember everyday sentences", () => {
+        expect(extractUserFacts("Hôm nay mình thấy mệt quá")).toEqual([]);
+        expect(extractUserFacts("Mình là thấy hơi lạ đó")).toEqual([]);
+        expect(extractUserFacts("I'm a bit tired today")).toEqual([]);
+        expect(extractUserFacts("Em nhớ là đã uống nước rồi")).toEqual([]);
+    });
+});
+
+describe("countLeadingMessages", () => {
+    it("Should count summarized messages by position even when they share a timestamp", () => {
+        const journal = [message("a"), message("b"), message("c")];
+
+        expect(countLeadingMessages(journal, journal.slice(0, 2))).toBe(2);
+        expect(countLeadingMessages(journal.slice(1), journal.slice(0, 2))).toBe(0);
+    });
+});
+
+describe("memoryService", () => {
+    beforeEach(async () => {
+        useSettingStore.getState().setAIProvider(LLMProviderType.Mock);
+        await memoryService.clear();
+    });
+
+    it("Should summarize the oldest messages without losing the ones sharing the last timestamp", async () => {
+        vi.spyOn(Date, "now").mockReturnValue(1000);
+        for (let i = 0; i < 61; i++) {
+            await memoryService.recordMessage({ role: "user", content: `tin nhắn ${i}`, source: MemoryMessageSource.Chat });
+        }
+        vi.restoreAllMocks();
+
+        await vi.waitFor(async () => expect((await memoryService.getStore()).summaries).toHaveLength(1));
+        const store = await memoryService.getStore();
+        expect(store.messages).toHaveLength(31);
+        expect(store.messages[0].content).toBe("tin nhắn 30");
+    });
+
+    it("Should not bring back a fact deleted in another window", async () => {
+        await memoryService.addFact("Mình tên là Lan");
+        const [fact] = (await memoryService.getStore()).facts;
+
+        // the Memory tab deletes the fact in the file, the pet window still holds its old copy
+        const saved = JSON.parse(files.get("memory.json")!);
+        files.set("memory.json", JSON.stringify({ ...saved, facts: [] }));
+        await memoryService.recordMessage({ role: "assistant", content: "Chào bạn", source: MemoryMessageSource.Thought });
+
+        const store = await memoryService.getStore();
+        expect(store.facts.map(({ id }) => id)).not.toContain(fact.id);
+        expect(store.messages).toHaveLength(1);
+    });
+
+    it("Should fill the memory context by priority within the token budget", async () => {
+        await memoryService.addFact("Mình tên là Lan");
+        await memoryService.addFact("Mình sống ở Huế");
+        await memoryService.recordMessage({ role: "assistant", content: "Chào bạn", source: MemoryMessageSource.Thought });
+
+        const everything = await memoryService.buildMemoryContext(1000);
+        expect(everything).toBe("Những điều người dùng đã kể:\n- Mình sống ở Huế\n- Mình tên là Lan\n\nNhững tin nhắn gần đây:\nPet: Chào bạn");
+
+        // only the newest fact fits
+        const budget = estimateTokens("- Mình sống ở Huế") + 1;
+        expect(await memoryService.buildMemoryContext(budget)).toBe("Những điều người dùng đã kể:\n- Mình sống ở Huế");
+        expect(await memoryService.buildMemoryContext(1000, false)).not.toContain("Chào bạn");
+        expect(await memoryService.buildMemoryContext(0)).toBe("");
+    });
+});
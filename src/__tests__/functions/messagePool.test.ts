@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { messagePoolService } from "../../services/messagePoolService";
+import { DefaultConfigName } from "../../types/ISetting";
+import { IPooledMessage } from "../../types/IMessagePool";
+import { MessageCategory } from "../../types/IPersona";
+import { WeatherType } from "../../types/IWeather";
+
+const files = vi.hoisted(() => new Map<string, string>());
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async ({ configName }: { configName: string }) => files.has(configName) ? JSON.parse(files.get(configName)!) : undefined,
+    setConfig: async ({ configName, newConfig }: { configName: string, newConfig: unknown }) => { files.set(configName, JSON.stringify(newConfig)); },
+}));
+
+const bucket = { timeOfDay: "buổi sáng", isLongSession: false, weatherType: WeatherType.Clear };
+const createMessage = (text: string, petId = "a"): IPooledMessage => ({
+    ...bucket,
+    text,
+    petId,
+    category: MessageCategory.FunFact,
+    createdAt: Date.now(),
+});
+const savedTexts = () => (JSON.parse(files.get(DefaultConfigName.MESSAGE_POOL) ?? "[]") as IPooledMessage[]).map(({ text }) => text);
+
+describe("messagePoolService", () => {
+    beforeEach(async () => {
+        files.clear();
+        await messagePoolService.removePet("a");
+        await messagePoolService.removePet("b");
+    });
+
+    it("Should take the message written for the weather first", async () => {
+        await messagePoolService.add({ ...createMessage("Trời mưa rồi"), weatherType: WeatherType.Rain });
+        await messagePoolService.add(createMessage("Nắng đẹp quá"));
+
+        expect((await messagePoolService.take("a", bucket))?.text).toBe("Nắng đẹp quá");
+        expect(savedTexts()).toEqual(["Trời mưa rồi"]);
+    });
+
+    it("Should not take a message written for another weather", async () => {
+        await messagePoolService.add({ ...createMessage("Trời mưa rồi"), weatherType: WeatherType.Rain });
+
+        expect(await messagePoolService.take("a", bucket)).toBeNull();
+        expect(savedTexts()).toEqual(["Trời mưa rồi"]);
+    });
+
+    it("Should fall back to a message written without knowing the weather", async () => {
+        await messagePoolService.add({ ...createMessage("Trời mưa rồi"), weatherType: WeatherType.Rain });
+        await messagePoolService.add({ ...createMessage("Uống nước nhé"), weatherType: WeatherType.Unknown });
+
+        expect((await messagePoolService.take("a", bucket))?.text).toBe("Uống nước nhé");
+        expect(await messagePoolService.take("a", { ...bucket, weatherType: WeatherType.Unknown })).toBeNull();
+    });
+
+    it("Should keep a message added while another one is being taken", async () => {
+        await messagePoolService.add(createMessage("Uống nước nhé"));
+
+        const taking = messagePoolService.take("a", bucket);
+        const adding = messagePoolService.add(createMessage("Vươn vai nào", "b"));
+        await Promise.all([taking, adding]);
+
+        expect(await taking).toMatchObject({ text: "Uống nước nhé" });
+        expect(savedTexts()).toEqual(["Vươn vai nào"]);
+    });
+
+    it("Should keep every message added at the same time", async () => {
+        await Promise.all([
+            messagePoolService.add(createMessage("Một")),
+            messagePoolService.add(createMessage("Hai")),
+            messagePoolService.add(createMessage("Ba", "b")),
+        ]);
+
+        expect(savedTexts()).toEqual(["Một", "Hai", "Ba"]);
+    });
+
+    it("Should not keep messages older than a day", async () => {
+        await messagePoolService.add({ ...createMessage("Hôm qua"), createdAt: Date.now() - 25 * 60 * 60 * 1000 });
+
+        expect(await messagePoolService.take("a", bucket)).toBeNull();
+        expect(await messagePoolService.needsRefill("a", bucket)).toBe(true);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { SIMILARITY_THRESHOLD, hashMessage, normalizeMessage, tokenOverlap } from "../../utils/messageSimilarity";
+
+describe("normalizeMessage", () => {
+    it("Should remove accents, punctuation and emoji", () => {
+        expect(normalizeMessage("Đã làm việc lâu rồi, nghỉ ngơi nhé! 💕")).toBe("da lam viec lau roi nghi ngoi nhe");
+    });
+
+    it("Should keep chinese and khmer letters", () => {
+        expect(normalizeMessage("休息一下吧！💕")).toBe("休息一下吧");
+        expect(normalizeMessage("ខ្ញុំសប្បាយ។")).toBe("ខ្ញុំសប្បាយ");
+    });
+});
+
+describe("hashMessage", () => {
+    it("Should give the same hash to messages that only differ in punctuation or case", () => {
+        expect(hashMessage("Hôm nay vất vả rồi, nghỉ ngơi một chút nhé! 💕")).toBe(hashMessage("hôm nay vất vả rồi nghỉ ngơi một chút nhé"));
+    });
+
+    it("Should give different hashes to different messages", () => {
+        expect(hashMessage("Uống nước đi nào")).not.toBe(hashMessage("Ra ngoài đi dạo đi nào"));
+    });
+
+    it("Should give different hashes to different chinese or khmer messages", () => {
+        expect(hashMessage("我今天很开心")).not.toBe(hashMessage("休息一下吧"));
+        expect(hashMessage("ខ្ញុំសប្បាយ")).not.toBe(hashMessage("សម្រាកបន្តិច"));
+        expect(hashMessage("💕")).not.toBe(hashMessage("🌸"));
+    });
+});
+
+describe("tokenOverlap", () => {
+    it("Should treat near-duplicate messages as similar", () => {
+        const overlap = tokenOverlap(
+            "Hôm nay vất vả rồi, nghỉ ngơi một chút nhé! 💕",
+            "Hôm nay bạn vất vả rồi, nghỉ ngơi chút nhé~",
+        );
+
+        expect(overlap).toBeGreaterThanOrEqual(SIMILARITY_THRESHOLD);
+    });
+
+    it("Should not treat unrelated messages as similar", () => {
+        const overlap = tokenOverlap("Mắt mỏi rồi đấy, thử nhắm mắt 20 giây xem sao?", "Nụ cười nhỏ xinh cũng có thể thay đổi cả ngày đấy");
+
+        expect(overlap).toBeLessThan(SIMILARITY_THRESHOLD);
+    });
+
+    it("Should compare chinese and khmer messages by pairs of characters", () => {
+        expect(tokenOverlap("今天辛苦了，休息一下吧！", "今天辛苦了，休息一下吧")).toBe(1);
+        expect(tokenOverlap("今天辛苦了，休息一下吧", "今天真辛苦了，休息一下吧")).toBeGreaterThanOrEqual(SIMILARITY_THRESHOLD);
+        expect(tokenOverlap("我今天很开心", "记得多喝水哦")).toBeLessThan(SIMILARITY_THRESHOLD);
+        expect(tokenOverlap("ខ្ញុំសប្បាយចិត្តណាស់", "សូមផឹកទឹកឱ្យបានច្រើន")).toBeLessThan(SIMILARITY_THRESHOLD);
+    });
+
+    it("Should return 0 when a message has no words", () => {
+        expect(tokenOverlap("💕", "Chào bạn")).toBe(0);
+    });
+});
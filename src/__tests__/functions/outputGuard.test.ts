@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { guardOutput, guardPartialOutput } from "../../utils/outputGuard";
+import { IOutputGuardOptions, OutputFix, OutputRejection } from "../../types/IOutputGuard";
+
+const vietnamese: IOutputGuardOptions = { language: "vi", maxWords: 25, maxEmoji: 2 };
+
+describe("guardOutput", () => {
+    it("Should keep a clean message as it is", () => {
+        expect(guardOutput("Uống một ngụm nước đi nè! 💧", vietnamese)).toEqual({ accepted: true, text: "Uống một ngụm nước đi nè! 💧", fixes: [] });
+    });
+
+    it("Should strip markdown and line breaks", () => {
+        const result = guardOutput("**Nghỉ tay** một chút nhé\n- nhìn ra `cửa sổ` xem nào", vietnamese);
+
+        expect(result).toEqual({ accepted: true, text: "Nghỉ tay một chút nhé nhìn ra cửa sổ xem nào", fixes: [OutputFix.Markdown] });
+    });
+
+    it("Should strip quotes around the message but keep apostrophes", () => {
+        expect(guardOutput("\"Chúc bạn một ngày thật vui!\"", vietnamese)).toMatchObject({ text: "Chúc bạn một ngày thật vui!", fixes: [OutputFix.Quotes] });
+        expect(guardOutput("You're doing great!", { ...vietnamese, language: "en" })).toMatchObject({ text: "You're doing great!", fixes: [] });
+    });
+
+    it("Should drop the emoji over the limit", () => {
+        const result = guardOutput("Cố lên nào 💪✨🌸🔥 mình tin bạn!", vietnamese);
+
+        expect(result).toMatchObject({ text: "Cố lên nào 💪✨ mình tin bạn!", fixes: [OutputFix.Emoji] });
+    });
+
+    it("Should cut a long message at the end of a sentence", () => {
+        const long = "Hôm nay trời đẹp quá, ra ngoài hít thở chút không khí trong lành nhé. Sau đó mình cùng uống trà, nghe nhạc nhẹ, ngắm mây bay và kể cho nhau nghe chuyện vui trong ngày nha!";
+        const result = guardOutput(long, vietnamese);
+
+        expect(result).toMatchObject({ text: "Hôm nay trời đẹp quá, ra ngoài hít thở chút không khí trong lành nhé.", fixes: [OutputFix.Length] });
+    });
+
+    it("Should add an ellipsis when there is no sentence end to cut at", () => {
+        const result = guardOutput("một hai ba bốn năm sáu bảy tám chín mười", { ...vietnamese, maxWords: 4 });
+
+        expect(result).toMatchObject({ text: "một hai ba bốn…" });
+    });
+
+    it("Should reject a message with only emoji", () => {
+        expect(guardOutput("🌸✨", vietnamese)).toEqual({ accepted: false, reason: OutputRejection.Empty, detail: undefined });
+    });
+
+    it("Should reject blocked phrases with or without accents", () => {
+        expect(guardOutput("Tôi là AI nên không có cảm xúc đâu", vietnamese)).toMatchObject({ accepted: false, reason: OutputRejection.BlockedPhrase });
+        expect(guardOutput("toi la AI nen khong biet", vietnamese)).toMatchObject({ accepted: false, reason: OutputRejection.BlockedPhrase });
+        expect(guardOutput("As an AI, I cannot feel tired", { ...vietnamese, language: "en" })).toMatchObject({ accepted: false, reason: OutputRejection.BlockedPhrase });
+    });
+
+    it("Should not block a phrase that only appears inside another word", () => {
+        expect(guardOutput("I'm stupidly happy to see you!", { ...vietnamese, language: "en" })).toMatchObject({ accepted: true });
+    });
+
+    it("Should reject a message in another language than the persona", () => {
+        expect(guardOutput("Take a short break and drink some water", vietnamese)).toMatchObject({ accepted: false, reason: OutputRejection.WrongLanguage });
+        expect(guardOutput("Nghỉ ngơi một chút đi bạn ơi", { ...vietnamese, language: "en" })).toMatchObject({ accepted: false, reason: OutputRejection.WrongLanguage });
+        expect(guardOutput("Take a break", { ...vietnamese, language: "zh-CN" })).toMatchObject({ accepted: false, reason: OutputRejection.WrongLanguage });
+    });
+
+    it("Should accept short messages without accents and count characters for chinese", () => {
+        expect(guardOutput("OK nha!", vietnamese)).toMatchObject({ accepted: true });
+        expect(guardOutput("休息一下吧，喝杯水。然后继续加油！今天也要开开心心的哦，记得按时吃饭。", { ...vietnamese, language: "zh-CN", maxWords: 10 }))
+            .toMatchObject({ accepted: true, text: "休息一下吧，喝杯水。然后继续加油！", fixes: [OutputFix.Length] });
+    });
+});
+
+describe("guardPartialOutput", () => {
+    it("Should clean the part streamed so far without judging its length or language yet", () => {
+        expect(guardPartialOutput("**Nghỉ tay", vietnamese)).toEqual({ accepted: true, text: "Nghỉ tay", fixes: [OutputFix.Markdown] });
+        expect(guardPartialOutput("", vietnamese)).toEqual({ accepted: true, text: "", fixes: [] });
+        expect(guardPartialOutput("Take a", vietnamese)).toEqual({ accepted: true, text: "Take a", fixes: [] });
+    });
+
+    it("Should reject the part streamed so far once it has a blocked phrase", () => {
+        expect(guardPartialOutput("Tôi là AI nên", vietnamese)).toEqual({ accepted: false, reason: OutputRejection.BlockedPhrase, detail: "tôi là AI" });
+    });
+});
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AIMessage, petAIManager } from "../../services/petAIService";
+import { timeTracker } from "../../services/timeTrackingService";
+import { messagePoolService } from "../../services/messagePoolService";
+import { generateThoughtMessage } from "../../services/geminiService";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { bubbleQueue } from "../../services/bubbleQueueService";
+import { AddressForm } from "../../types/IUserProfile";
+
+// no config files, every service starts empty
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async () => undefined,
+    setConfig: async () => undefined,
+}));
+
+// every thought is different so none is dropped as a repeat
+const thoughts = vi.hoisted(() => ({ count: 0 }));
+vi.mock("../../services/geminiService", () => ({
+    generateThoughtMessage: vi.fn(async () => ({ message: `Lời nhắn số ${++thoughts.count}`, success: true })),
+}));
+
+vi.mock("../../services/weatherService", () => ({
+    getCurrentWeather: async () => ({ error: "offline" }),
+    getHourlyForecast: async () => [],
+    getCurrentTimeInfo: () => ({ timeOfDay: "buổi sáng" }),
+}));
+
+const MINUTE = 60 * 1000;
+
+describe("petAIManager scheduler", () => {
+    // time and pet of every message that was shown
+    let shown: { petId: string, at: number }[] = [];
+    const onMessage = (message: AIMessage) => {
+        if (!message.isStreaming && !message.isCancelled) shown.push({ petId: message.petId, at: Date.now() });
+    };
+    const addPet = (petId: string, minIntervalMinutes = 0) => {
+        petAIManager.addPet({ petId, settings: { enabled: true, minIntervalMinutes }, actions: [] }, onMessage);
+    };
+
+    beforeEach(async () => {
+        vi.useFakeTimers();
+        vi.spyOn(timeTracker, "isUserActive").mockReturnValue(true);
+        vi.spyOn(timeTracker, "isLongSession").mockReturnValue(false);
+        shown = [];
+        // messages pre-generated in an earlier test would save the AI calls of this one
+        await Promise.all(["a", "b", "c"].map((petId) => messagePoolService.removePet(petId)));
+    });
+
+    afterEach(() => {
+        petAIManager.stopAll();
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it("Should let the pet that has waited longest speak first", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        addPet("a");
+        addPet("b");
+        addPet("c");
+
+        await vi.advanceTimersByTimeAsync(6 * 1.25 * MINUTE);
+
+        const speakers = shown.map(({ petId }) => petId);
+        expect(speakers.length).toBeGreaterThanOrEqual(6);
+        // every pet speaks once before any of them speaks again
+        expect(new Set(speakers.slice(0, 3)).size).toBe(3);
+        expect(speakers.slice(3, 6)).toEqual(speakers.slice(0, 3));
+    });
+
+    it("Should keep a pet quiet for its minimum interval", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        addPet("a", 10);
+
+        await vi.advanceTimersByTimeAsync(30 * MINUTE);
+
+        expect(shown.length).toBeGreaterThanOrEqual(2);
+        shown.slice(1).forEach(({ at }, index) => {
+            expect(at - shown[index].at).toBeGreaterThanOrEqual(10 * MINUTE);
+        });
+    });
+
+    it("Should give the turn to another pet while one is resting", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        addPet("a", 30);
+        addPet("b");
+
+        await vi.advanceTimersByTimeAsync(10 * MINUTE);
+
+        expect(shown.filter(({ petId }) => petId === "a")).toHaveLength(1);
+        expect(shown.filter(({ petId }) => petId === "b").length).toBeGreaterThanOrEqual(5);
+    });
+
+    it("Should never go over the hourly budget even when every interval is shortened", async () => {
+        // the jitter always takes the shortest interval, 45 instead of 60 minutes between messages
+        vi.spyOn(Math, "random").mockReturnValue(0);
+        useSettingStore.getState().setAIMessagesPerHour(1);
+        addPet("a");
+
+        await vi.advanceTimersByTimeAsync(4 * 60 * MINUTE);
+
+        expect(shown.length).toBeGreaterThanOrEqual(3);
+        shown.slice(1).forEach(({ at }, index) => {
+            expect(at - shown[index].at).toBeGreaterThanOrEqual(60 * MINUTE);
+        });
+    });
+
+    it("Should allow as many messages per hour as the budget", async () => {
+        vi.spyOn(Math, "random").mockReturnValue(0);
+        useSettingStore.getState().setAIMessagesPerHour(4);
+        addPet("a");
+        addPet("b");
+
+        await vi.advanceTimersByTimeAsync(3 * 60 * MINUTE);
+
+        shown.forEach(({ at }) => {
+            expect(shown.filter((message) => message.at > at - 60 * MINUTE && message.at <= at).length).toBeLessThanOrEqual(4);
+        });
+        expect(shown.filter(({ at }) => at < shown[0].at + 60 * MINUTE)).toHaveLength(4);
+    });
+
+    it("Should not schedule anything when the budget is 0", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(0);
+        addPet("a");
+
+        await vi.advanceTimersByTimeAsync(60 * MINUTE);
+
+        expect(shown).toEqual([]);
+    });
+
+    it("Should abort the thought of a destroyed scene and only talk to the pets of the new scene", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        let signal: AbortSignal | undefined;
+        vi.mocked(generateThoughtMessage).mockImplementationOnce((_context, _persona, _actions, _onChunk, abortSignal) => {
+            signal = abortSignal;
+            return new Promise((resolve) => abortSignal?.addEventListener("abort", () => resolve({ message: "", success: false, aborted: true })));
+        });
+        const oldScene = vi.fn();
+        petAIManager.addPet({ petId: "a", settings: { enabled: true, minIntervalMinutes: 0 }, actions: [] }, oldScene);
+        await vi.advanceTimersByTimeAsync(1.25 * MINUTE);
+        expect(oldScene).toHaveBeenCalledTimes(1);
+
+        // what the scene does when Phaser destroys it
+        petAIManager.stopAll();
+        addPet("a");
+        await vi.advanceTimersByTimeAsync(5 * MINUTE);
+
+        expect(signal?.aborted).toBe(true);
+        expect(oldScene).toHaveBeenCalledTimes(1);
+        expect(oldScene.mock.calls[0][0]).toMatchObject({ isStreaming: true, text: "" });
+        expect(shown.length).toBeGreaterThanOrEqual(3);
+    });
+
+    it("Should not show a thought that finishes after its scene was destroyed", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        // a provider that does not listen to the abort signal and answers after the scene is gone
+        vi.mocked(generateThoughtMessage).mockImplementationOnce(() => new Promise((resolve) => {
+            setTimeout(() => resolve({ message: "Lời nhắn muộn", success: true }), 2 * MINUTE);
+        }));
+        const oldScene = vi.fn();
+        petAIManager.addPet({ petId: "a", settings: { enabled: true, minIntervalMinutes: 0 }, actions: [] }, oldScene);
+        await vi.advanceTimersByTimeAsync(1.25 * MINUTE);
+
+        petAIManager.stopAll();
+        addPet("a");
+        await vi.advanceTimersByTimeAsync(5 * MINUTE);
+
+        expect(oldScene).toHaveBeenCalledTimes(1);
+        expect(shown.length).toBeGreaterThanOrEqual(3);
+    });
+
+    it("Should not call the AI to pre-generate messages more often than the hourly budget", async () => {
+        vi.spyOn(Math, "random").mockReturnValue(0);
+        useSettingStore.getState().setAIMessagesPerHour(4);
+        // pre-generated messages are asked for without a bubble to stream into
+        const refills: number[] = [];
+        vi.mocked(generateThoughtMessage).mockImplementation(async (_context, _persona, _actions, onChunk) => {
+            if (!onChunk) refills.push(Date.now());
+            return { message: `Lời nhắn số ${++thoughts.count}`, success: true };
+        });
+        addPet("a");
+        addPet("b");
+
+        await vi.advanceTimersByTimeAsync(3 * 60 * MINUTE);
+
+        expect(refills.length).toBeGreaterThan(0);
+        refills.forEach((at) => {
+            expect(refills.filter((time) => time > at - 60 * MINUTE && time <= at).length).toBeLessThanOrEqual(4);
+        });
+    });
+
+    it("Should ask for an API key the way the user wants to be called", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        const { userProfile } = useSettingStore.getState();
+        useSettingStore.getState().setUserProfile({ ...userProfile, addressForm: AddressForm.Em });
+        vi.mocked(generateThoughtMessage).mockResolvedValueOnce({ message: "", success: false, missingApiKey: true });
+        const enqueue = vi.spyOn(bubbleQueue, "enqueue");
+
+        addPet("a");
+        await vi.advanceTimersByTimeAsync(1.25 * MINUTE);
+        useSettingStore.getState().setUserProfile(userProfile);
+        petAIManager.clearMissingApiKey();
+
+        expect(enqueue).toHaveBeenCalledWith(expect.objectContaining({ text: expect.stringContaining("trò chuyện với em,") }));
+    });
+
+    it("Should abort pre-generating messages when the scene is destroyed", async () => {
+        useSettingStore.getState().setAIMessagesPerHour(60);
+        let signal: AbortSignal | undefined;
+        vi.mocked(generateThoughtMessage)
+            .mockImplementationOnce(async () => ({ message: "Uống nước nhé", success: true }))
+            .mockImplementationOnce((_context, _persona, _actions, _onChunk, abortSignal) => {
+                signal = abortSignal;
+                return new Promise((resolve) => abortSignal?.addEventListener("abort", () => resolve({ message: "", success: false, aborted: true })));
+            });
+        addPet("a");
+        await vi.advanceTimersByTimeAsync(1.25 * MINUTE);
+        expect(signal?.aborted).toBe(false);
+
+        petAIManager.stopAll();
+
+        expect(signal?.aborted).toBe(true);
+    });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { petChatService } from "../../services/petChatService";
+import { AIMessage } from "../../services/petAIService";
+import { generateChatReply } from "../../services/geminiService";
+import { memoryService } from "../../services/memoryService";
+
+// no config files, every service starts empty
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async () => undefined,
+    setConfig: async () => undefined,
+}));
+
+vi.mock("../../services/geminiService", () => ({
+    generateChatReply: vi.fn(async () => ({ message: "Chào bạn!", success: true })),
+}));
+
+const PET_ID = "pet-1";
+
+describe("petChatService", () => {
+    afterEach(() => {
+        petChatService.removePet(PET_ID);
+        vi.mocked(generateChatReply).mockReset();
+        vi.restoreAllMocks();
+    });
+
+    it("Should show a typing bubble right away and finish the stream with the whole reply", async () => {
+        vi.mocked(generateChatReply).mockImplementationOnce(async (_messages, _persona, onChunk) => {
+            onChunk("Chào");
+            return { message: "Chào bạn!", success: true };
+        });
+        const replies: AIMessage[] = [];
+
+        await petChatService.sendMessage(PET_ID, "Chào Mochi", (reply) => replies.push(reply));
+
+        expect(replies.map(({ text, isStreaming }) => [text, isStreaming])).toEqual([
+            ["", true],
+            ["Chào", true],
+            ["Chào bạn!", false],
+        ]);
+        expect(new Set(replies.map(({ streamId }) => streamId)).size).toBe(1);
+        expect(petChatService.getHistory(PET_ID).map(({ content }) => content)).toEqual(["Chào Mochi", "Chào bạn!"]);
+    });
+
+    it("Should close the typing bubble when the reply fails", async () => {
+        vi.mocked(generateChatReply).mockRejectedValueOnce(new Error("Không đọc được tính cách"));
+        const replies: AIMessage[] = [];
+
+        await expect(petChatService.sendMessage(PET_ID, "Chào Mochi", (reply) => replies.push(reply))).rejects.toThrow("Không đọc được tính cách");
+
+        expect(replies.at(-1)).toMatchObject({ isCancelled: true });
+    });
+
+    it("Should close the typing bubble of a reply cut off by a new message", async () => {
+        vi.mocked(generateChatReply)
+            .mockImplementationOnce((_messages, _persona, _onChunk, signal) => new Promise((resolve) => {
+                signal?.addEventListener("abort", () => resolve({ message: "", success: false, aborted: true }));
+            }))
+            .mockResolvedValueOnce({ message: "Mình đây!", success: true });
+        const firstReplies: AIMessage[] = [];
+        const secondReplies: AIMessage[] = [];
+
+        const first = petChatService.sendMessage(PET_ID, "Chào", (reply) => firstReplies.push(reply));
+        await petChatService.sendMessage(PET_ID, "Mochi ơi", (reply) => secondReplies.push(reply));
+        await first;
+
+        expect(firstReplies.map(({ isCancelled }) => !!isCancelled)).toEqual([false, true]);
+        expect(secondReplies.at(-1)).toMatchObject({ text: "Mình đây!", isStreaming: false });
+    });
+
+    it("Should still reply when the memory cannot be written", async () => {
+        vi.mocked(generateChatReply).mockResolvedValueOnce({ message: "Chào bạn!", success: true });
+        vi.spyOn(memoryService, "recordMessage").mockRejectedValue(new Error("Ổ đĩa đầy"));
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        const replies: AIMessage[] = [];
+
+        await petChatService.sendMessage(PET_ID, "Chào Mochi", (reply) => replies.push(reply));
+        // the memory writes finish in the background
+        await new Promise((resolve) => setTimeout(resolve));
+
+        expect(replies.at(-1)).toMatchObject({ text: "Chào bạn!", isStreaming: false });
+        expect(warn).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultWeights, getCategoryDistribution, getEffectiveWeight, pickWeightedCategory, updateWeight } from "../../utils/preferences";
+import { MessageCategory } from "../../types/IPersona";
+import { MessageReaction } from "../../types/IPreference";
+
+describe("updateWeight", () => {
+    it("Should raise the weight on a like and lower it on a dislike", () => {
+        expect(updateWeight(1, undefined, MessageReaction.Like)).toBeCloseTo(1.25);
+        expect(updateWeight(1, undefined, MessageReaction.Dislike)).toBeCloseTo(0.75);
+    });
+
+    it("Should undo the previous reaction before applying the new one", () => {
+        const liked = updateWeight(1, undefined, MessageReaction.Like);
+
+        expect(updateWeight(liked, MessageReaction.Like, undefined)).toBeCloseTo(1);
+        expect(updateWeight(liked, MessageReaction.Like, MessageReaction.Dislike)).toBeCloseTo(0.75);
+    });
+
+    it("Should give back the original weight when a reaction at the limit is undone", () => {
+        const liked = updateWeight(5, undefined, MessageReaction.Like);
+        const disliked = updateWeight(0.2, undefined, MessageReaction.Dislike);
+
+        expect(updateWeight(liked, MessageReaction.Like, undefined)).toBe(5);
+        expect(updateWeight(disliked, MessageReaction.Dislike, undefined)).toBeCloseTo(0.2);
+    });
+});
+
+describe("getEffectiveWeight", () => {
+    it("Should keep the weight within its limits", () => {
+        expect(getEffectiveWeight(updateWeight(0.2, undefined, MessageReaction.Dislike))).toBe(0.2);
+        expect(getEffectiveWeight(updateWeight(5, undefined, MessageReaction.Like))).toBe(5);
+        expect(getEffectiveWeight(undefined)).toBe(1);
+    });
+});
+
+describe("getCategoryDistribution", () => {
+    it("Should only share between the given categories", () => {
+        const weights = { ...createDefaultWeights(), [MessageCategory.Joke]: 3 };
+        const distribution = getCategoryDistribution(weights, [MessageCategory.Joke, MessageCategory.Tip]);
+
+        expect(distribution).toEqual({ [MessageCategory.Joke]: 0.75, [MessageCategory.Tip]: 0.25 });
+    });
+
+    it("Should share by the weights within their limits", () => {
+        const weights = { ...createDefaultWeights(), [MessageCategory.Joke]: 20, [MessageCategory.Tip]: 0.01 };
+        const distribution = getCategoryDistribution(weights, [MessageCategory.Joke, MessageCategory.Tip]);
+
+        expect(distribution[MessageCategory.Joke]).toBeCloseTo(5 / 5.2);
+        expect(distribution[MessageCategory.Tip]).toBeCloseTo(0.2 / 5.2);
+    });
+});
+
+describe("pickWeightedCategory", () => {
+    it("Should pick the category the random number falls into", () => {
+        const distribution = { [MessageCategory.Joke]: 0.75, [MessageCategory.Tip]: 0.25 };
+
+        expect(pickWeightedCategory(distribution, 0)).toBe(MessageCategory.Joke);
+        expect(pickWeightedCategory(distribution, 0.8)).toBe(MessageCategory.Tip);
+        expect(pickWeightedCategory(distribution, 0.9999999)).toBe(MessageCategory.Tip);
+    });
+});
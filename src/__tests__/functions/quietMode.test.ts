@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { getQuietReason, isInQuietHours, parseTimeOfDay } from "../../utils/quietMode";
+import { IQuietHoursRule, QuietReason } from "../../types/IQuietMode";
+import { createFocusTimer, startFocusTimer } from "../../utils/focusTimer";
+import { FOCUS_PRESETS } from "../../config/focus_timer";
+
+// 2024-01-08 is a Monday
+const monday = (hours: number, minutes = 0) => new Date(2024, 0, 8, hours, minutes);
+const tuesday = (hours: number, minutes = 0) => new Date(2024, 0, 9, hours, minutes);
+
+describe("parseTimeOfDay", () => {
+    it("Should parse valid times", () => {
+        expect(parseTimeOfDay("07:30")).toBe(7 * 60 + 30);
+        expect(parseTimeOfDay("0:05")).toBe(5);
+    });
+
+    it("Should reject invalid times", () => {
+        expect(parseTimeOfDay("24:00")).toBeNull();
+        expect(parseTimeOfDay("7h30")).toBeNull();
+        expect(parseTimeOfDay("")).toBeNull();
+    });
+});
+
+describe("isInQuietHours", () => {
+    const workMeetings: IQuietHoursRule = { days: [1], start: "09:00", end: "10:30" };
+    const mondayNight: IQuietHoursRule = { days: [1], start: "22:00", end: "07:00" };
+
+    it("Should match a rule inside the same day", () => {
+        expect(isInQuietHours([workMeetings], monday(9))).toBe(true);
+        expect(isInQuietHours([workMeetings], monday(10, 30))).toBe(false);
+        expect(isInQuietHours([workMeetings], tuesday(9))).toBe(false);
+    });
+
+    it("Should carry an overnight rule into the next morning", () => {
+        expect(isInQuietHours([mondayNight], monday(23))).toBe(true);
+        expect(isInQuietHours([mondayNight], tuesday(6, 59))).toBe(true);
+        expect(isInQuietHours([mondayNight], tuesday(7))).toBe(false);
+        expect(isInQuietHours([mondayNight], monday(6))).toBe(false);
+    });
+
+    it("Should ignore rules with invalid times", () => {
+        expect(isInQuietHours([{ days: [1], start: "", end: "10:00" }], monday(9))).toBe(false);
+    });
+});
+
+describe("getQuietReason", () => {
+    const plan = FOCUS_PRESETS[0].plan;
+    const state = { quietHours: [{ days: [1], start: "09:00", end: "10:00" }], doNotDisturbUntil: 0, presentationMode: false, focusTimer: createFocusTimer(plan) };
+
+    it("Should let the pets talk outside quiet time", () => {
+        expect(getQuietReason(state, monday(12))).toBeNull();
+    });
+
+    it("Should put presentation mode before do not disturb and quiet hours", () => {
+        const now = monday(9, 30);
+        expect(getQuietReason(state, now)).toBe(QuietReason.QuietHours);
+        expect(getQuietReason({ ...state, doNotDisturbUntil: now.getTime() + 1000 }, now)).toBe(QuietReason.DoNotDisturb);
+        expect(getQuietReason({ ...state, doNotDisturbUntil: now.getTime() + 1000, presentationMode: true }, now)).toBe(QuietReason.Presentation);
+    });
+
+    it("Should keep the pets quiet during a focus session but not during its breaks", () => {
+        const now = monday(12);
+        const focusTimer = startFocusTimer(plan, now.getTime());
+
+        expect(getQuietReason({ ...state, focusTimer }, now)).toBe(QuietReason.Focus);
+        expect(getQuietReason({ ...state, focusTimer }, monday(12, plan.focusMinutes))).toBeNull();
+    });
+
+    it("Should ignore an expired snooze", () => {
+        const now = monday(12);
+        expect(getQuietReason({ ...state, doNotDisturbUntil: now.getTime() - 1 }, now)).toBeNull();
+    });
+});
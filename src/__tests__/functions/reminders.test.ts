@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { REMINDER_GRACE_MINUTES, createReminder, getReminderText, isReminderDue } from "../../utils/reminders";
+import { DEFAULT_REMINDER_TEXTS } from "../../config/reminders";
+import { ReminderSchedule, ReminderType } from "../../types/IReminder";
+
+const files = vi.hoisted(() => new Map<string, string>());
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async ({ configName }: { configName: string }) => files.has(configName) ? JSON.parse(files.get(configName)!) : undefined,
+    setConfig: async ({ configName, newConfig }: { configName: string, newConfig: unknown }) => { files.set(configName, JSON.stringify(newConfig)); },
+}));
+
+// the user is always at the computer
+vi.mock("../../services/timeTrackingService", () => ({
+    timeTracker: { isUserActive: () => true, onBreak: () => () => undefined },
+}));
+
+const MINUTE = 60 * 1000;
+// 2024-01-08 is a Monday
+const monday = (hours: number, minutes = 0) => new Date(2024, 0, 8, hours, minutes);
+const water = { ...createReminder(ReminderType.Water, "water"), intervalMinutes: 30 };
+const atNoon = { ...water, schedule: ReminderSchedule.Times, times: ["12:00"] };
+
+describe("reminders", () => {
+    it("Should come back once its interval has passed since it was last shown", () => {
+        const state = { lastShownAt: monday(9).getTime(), snoozedUntil: 0 };
+
+        expect(isReminderDue(water, state, monday(9, 29))).toBe(false);
+        expect(isReminderDue(water, state, monday(9, 30))).toBe(true);
+    });
+
+    it("Should stay quiet when disabled or on other days", () => {
+        const state = { lastShownAt: 0, snoozedUntil: 0 };
+
+        expect(isReminderDue({ ...water, enabled: false }, state, monday(10))).toBe(false);
+        expect(isReminderDue({ ...water, days: [0, 6] }, state, monday(10))).toBe(false);
+    });
+
+    it("Should be shown once at each set time, within the grace period", () => {
+        const notShown = { lastShownAt: monday(8).getTime(), snoozedUntil: 0 };
+
+        expect(isReminderDue(atNoon, notShown, monday(11, 59))).toBe(false);
+        expect(isReminderDue(atNoon, notShown, monday(12, 10))).toBe(true);
+        expect(isReminderDue(atNoon, { ...notShown, lastShownAt: monday(12, 1).getTime() }, monday(12, 10))).toBe(false);
+        expect(isReminderDue(atNoon, notShown, monday(12, REMINDER_GRACE_MINUTES))).toBe(false);
+    });
+
+    it("Should come back when the snooze is over, whatever its schedule", () => {
+        const snoozed = { lastShownAt: monday(12).getTime(), snoozedUntil: monday(12).getTime() + 10 * MINUTE };
+
+        expect(isReminderDue(atNoon, snoozed, monday(12, 5))).toBe(false);
+        expect(isReminderDue(atNoon, snoozed, monday(12, 10))).toBe(true);
+        expect(isReminderDue(water, snoozed, monday(12, 10))).toBe(true);
+    });
+
+    it("Should use the default text of its type unless the user wrote one", () => {
+        expect(getReminderText(water)).toBe(DEFAULT_REMINDER_TEXTS[ReminderType.Water]);
+        expect(getReminderText({ ...water, text: " Uống trà nhé " })).toBe("Uống trà nhé");
+    });
+});
+
+describe("reminderService", () => {
+    // a fresh pet window: the service and the setting store start over, only the config files are kept
+    const openPetWindow = async () => {
+        vi.resetModules();
+        const { reminderService } = await import("../../services/reminderService");
+        const { useSettingStore } = await import("../../hooks/useSettingStore");
+        useSettingStore.getState().setReminders([water]);
+        const onReminder = vi.fn();
+        reminderService.onReminder(onReminder);
+        reminderService.start();
+        return { reminderService, onReminder };
+    };
+
+    beforeEach(() => {
+        files.clear();
+        vi.useFakeTimers();
+        vi.setSystemTime(monday(9));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("Should keep a snooze when the pet window is opened again", async () => {
+        const first = await openPetWindow();
+        await vi.advanceTimersByTimeAsync(30 * MINUTE);
+        expect(first.onReminder).toHaveBeenCalledTimes(1);
+        await first.reminderService.snooze("water");
+        first.reminderService.stop();
+
+        const second = await openPetWindow();
+        await vi.advanceTimersByTimeAsync(9 * MINUTE);
+        expect(second.onReminder).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(MINUTE);
+        expect(second.onReminder).toHaveBeenCalledTimes(1);
+        second.reminderService.stop();
+    });
+
+    it("Should count the next interval from when the reminder was done", async () => {
+        const { reminderService, onReminder } = await openPetWindow();
+        await vi.advanceTimersByTimeAsync(20 * MINUTE);
+        await reminderService.complete("water");
+
+        await vi.advanceTimersByTimeAsync(29 * MINUTE);
+        expect(onReminder).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(MINUTE);
+        expect(onReminder).toHaveBeenCalledTimes(1);
+        reminderService.stop();
+    });
+
+    it("Should not remind again right after a restart when the interval has not passed", async () => {
+        const first = await openPetWindow();
+        await vi.advanceTimersByTimeAsync(30 * MINUTE);
+        expect(first.onReminder).toHaveBeenCalledTimes(1);
+        first.reminderService.stop();
+
+        await vi.advanceTimersByTimeAsync(10 * MINUTE);
+        const second = await openPetWindow();
+        await vi.advanceTimersByTimeAsync(19 * MINUTE);
+        expect(second.onReminder).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(MINUTE);
+        expect(second.onReminder).toHaveBeenCalledTimes(1);
+        second.reminderService.stop();
+    });
+});
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { generateChatReply, generateThoughtMessage } from "../../services/geminiService";
+import { createPersonaFromPreset } from "../../config/persona_presets";
+
+// no config files, every service starts empty
+vi.mock("../../utils/settings", () => ({
+    getAppSettings: async () => undefined,
+    setConfig: async () => undefined,
+}));
+
+// the answers the provider streams, one list of chunks per request
+const llm = vi.hoisted(() => ({ answers: [] as string[][], emitted: [] as string[] }));
+vi.mock("../../services/llm", () => ({
+    getActiveLLMProvider: () => ({
+        type: "mock",
+        hasCredentials: async () => true,
+        generate: async () => (llm.answers.shift() ?? []).join(""),
+        stream: async (_request: unknown, onChunk: (chunk: string) => void, signal?: AbortSignal) => {
+            const chunks = llm.answers.shift() ?? [];
+            for (const chunk of chunks) {
+                if (signal?.aborted) throw new DOMException("Stream đã bị hủy", "AbortError");
+                llm.emitted.push(chunk);
+                onChunk(chunk);
+            }
+            return chunks.join("");
+        },
+    }),
+}));
+
+const persona = createPersonaFromPreset("Mochi");
+
+describe("streamed answers", () => {
+    beforeEach(() => {
+        llm.answers = [];
+        llm.emitted = [];
+    });
+
+    it("Should show the chat reply cleaned up while it streams", async () => {
+        llm.answers = [["**Chào** ", "bạn nhé!"]];
+        const shown: string[] = [];
+
+        const response = await generateChatReply([{ role: "user", content: "Chào" }], persona, (text) => shown.push(text));
+
+        expect(shown).toEqual(["Chào", "Chào bạn nhé!"]);
+        expect(response).toEqual({ message: "Chào bạn nhé!", success: true });
+    });
+
+    it("Should stop the chat reply as soon as the streamed part has a blocked phrase", async () => {
+        llm.answers = [["Chào bạn, ", "tôi là ", "AI nên ", "không biết"]];
+        const shown: string[] = [];
+
+        const response = await generateChatReply([{ role: "user", content: "Bạn là ai?" }], persona, (text) => shown.push(text));
+
+        expect(shown).toEqual(["Chào bạn,", "Chào bạn, tôi là"]);
+        expect(llm.emitted).toEqual(["Chào bạn, ", "tôi là ", "AI nên "]);
+        expect(response.success).toBe(false);
+        expect(response.message).toContain("lỡ lời");
+    });
+
+    it("Should clear the thought bubble and try again when the streamed part has a blocked phrase", async () => {
+        llm.answers = [
+            ['{"message": "Tôi là ', 'AI nè", "emotion": "happy"}'],
+            ['{"message": "Uống nước ', 'đi nè!", "emotion": "caring"}'],
+        ];
+        const shown: string[] = [];
+
+        const response = await generateThoughtMessage({ timeOfDay: "sáng", city: "Huế" }, persona, [], (text) => shown.push(text));
+
+        expect(shown).toEqual(["Tôi là", "", "Uống nước", "Uống nước đi nè!"]);
+        expect(response).toMatchObject({ message: "Uống nước đi nè!", success: true });
+    });
+});
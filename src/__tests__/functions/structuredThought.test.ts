@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { extractPartialMessage, parseStructuredThought, resolveAction } from "../../utils/structuredThought";
+import { PetEmotion } from "../../types/IThought";
+
+const actions = ["greet", "sit", "idle"];
+
+describe("parseStructuredThought", () => {
+    it("Should read a valid answer", () => {
+        const raw = JSON.stringify({ message: "Uống nước nhé! 💧", emotion: "caring", action: "greet" });
+
+        expect(parseStructuredThought(raw, actions)).toEqual({ message: "Uống nước nhé! 💧", emotion: PetEmotion.Caring, action: "greet" });
+    });
+
+    it("Should read JSON wrapped in a code block", () => {
+        const raw = "```json\n{\"message\": \"Chào buổi sáng!\", \"emotion\": \"happy\", \"action\": \"sit\"}\n```";
+
+        expect(parseStructuredThought(raw, actions)?.message).toBe("Chào buổi sáng!");
+    });
+
+    it("Should fall back to a state that fits the emotion when the action is unknown", () => {
+        const raw = JSON.stringify({ message: "Buồn ngủ quá~", emotion: "sleepy", action: "dance" });
+
+        expect(parseStructuredThought(raw, actions)?.action).toBe("sit");
+    });
+
+    it("Should use a calm emotion when the emotion is unknown", () => {
+        const raw = JSON.stringify({ message: "Xin chào", emotion: "angry", action: null });
+
+        expect(parseStructuredThought(raw, actions)?.emotion).toBe(PetEmotion.Calm);
+    });
+
+    it("Should keep a plain text answer as the message", () => {
+        expect(parseStructuredThought("Nghỉ một chút nhé 🌸", actions)).toEqual({ message: "Nghỉ một chút nhé 🌸", emotion: PetEmotion.Calm, action: "sit" });
+    });
+
+    it("Should reject broken JSON and answers without a message", () => {
+        expect(parseStructuredThought("{\"message\": \"Chào", actions)).toBeNull();
+        expect(parseStructuredThought("{\"message\": 42, \"emotion\": \"happy\"}", actions)).toBeNull();
+        expect(parseStructuredThought("{\"emotion\": \"happy\"}", actions)).toBeNull();
+        expect(parseStructuredThought("", actions)).toBeNull();
+    });
+});
+
+describe("resolveAction", () => {
+    it("Should return null when the pet has no fitting state", () => {
+        expect(resolveAction(PetEmotion.Sleepy, "sleep", ["walk"])).toBeNull();
+    });
+});
+
+describe("extractPartialMessage", () => {
+    it("Should return the message written so far", () => {
+        expect(extractPartialMessage("{\"message\": \"Uống nư")).toBe("Uống nư");
+        expect(extractPartialMessage("{\"message\": \"Uống nước nhé!\", \"emo")).toBe("Uống nước nhé!");
+    });
+
+    it("Should decode escapes and wait for unfinished ones", () => {
+        expect(extractPartialMessage("{\"message\": \"Bạn nói \\\"chào\\\"")).toBe("Bạn nói \"chào\"");
+        expect(extractPartialMessage("{\"message\": \"Chào \\u00e0")).toBe("Chào à");
+        expect(extractPartialMessage("{\"message\": \"Chào \\u00")).toBe("Chào ");
+    });
+
+    it("Should return nothing before the message field starts", () => {
+        expect(extractPartialMessage("```json\n")).toBe("");
+        expect(extractPartialMessage("{\"emotion\": \"happy\", ")).toBe("");
+    });
+
+    it("Should return a plain text answer as it is", () => {
+        expect(extractPartialMessage("Nghỉ một chút")).toBe("Nghỉ một chút");
+    });
+});
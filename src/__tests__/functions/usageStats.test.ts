@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+    MAX_USAGE_DAYS,
+    createDailyUsage,
+    exportUsage,
+    getDateKey,
+    getHourlyActiveMinutes,
+    getPeriodDays,
+    summarizeUsage,
+    updateDailyUsage,
+} from "../../utils/usageStats";
+import { UsageExportFormat, UsagePeriod } from "../../types/IUsageStats";
+import { ReminderType } from "../../types/IReminder";
+
+const addMinute = (day: ReturnType<typeof createDailyUsage>) => ({ ...day, activeMinutes: day.activeMinutes + 1 });
+
+describe("usageStats", () => {
+    it("Should use the local date as the day key", () => {
+        expect(getDateKey(new Date(2026, 0, 5, 23, 59))).toBe("2026-01-05");
+    });
+
+    it("Should add a day when it has no record yet and keep records sorted", () => {
+        let records = updateDailyUsage([], "2026-03-02", addMinute);
+        records = updateDailyUsage(records, "2026-03-01", addMinute);
+        records = updateDailyUsage(records, "2026-03-02", addMinute);
+
+        expect(records.map((record) => [record.date, record.activeMinutes])).toEqual([["2026-03-01", 1], ["2026-03-02", 2]]);
+    });
+
+    it("Should drop the oldest days past the limit", () => {
+        let records = Array.from({ length: MAX_USAGE_DAYS }, (_, index) => createDailyUsage(getDateKey(new Date(2024, 0, index + 1))));
+        records = updateDailyUsage(records, "2030-01-01", addMinute);
+
+        expect(records).toHaveLength(MAX_USAGE_DAYS);
+        expect(records[0].date).toBe("2024-01-02");
+    });
+
+    it("Should list the calendar week from Monday up to today, filling empty days", () => {
+        // Thursday
+        const today = new Date(2026, 9, 15, 18);
+        const days = getPeriodDays([{ date: "2026-10-13", activeMinutes: 90, breakCount: 3, longestFocusStreak: 40 }], UsagePeriod.Week, today);
+
+        expect(days.map((day) => day.date)).toEqual(["2026-10-12", "2026-10-13", "2026-10-14", "2026-10-15"]);
+        expect(days[1].activeMinutes).toBe(90);
+        expect(days[2].activeMinutes).toBe(0);
+    });
+
+    it("Should start the week on the Monday before a Sunday", () => {
+        const days = getPeriodDays([], UsagePeriod.Week, new Date(2026, 9, 18));
+
+        expect(days[0].date).toBe("2026-10-12");
+        expect(days).toHaveLength(7);
+    });
+
+    it("Should list the month from the 1st and today alone", () => {
+        const today = new Date(2026, 1, 3);
+
+        expect(getPeriodDays([], UsagePeriod.Month, today).map((day) => day.date)).toEqual(["2026-02-01", "2026-02-02", "2026-02-03"]);
+        expect(getPeriodDays([], UsagePeriod.Today, today).map((day) => day.date)).toEqual(["2026-02-03"]);
+    });
+
+    it("Should add up a period and keep the longest streak of any day", () => {
+        const summary = summarizeUsage([
+            { date: "2026-10-12", activeMinutes: 120, breakCount: 2, longestFocusStreak: 50 },
+            { date: "2026-10-13", activeMinutes: 60, breakCount: 1, longestFocusStreak: 35 },
+        ]);
+
+        expect(summary).toEqual({
+            activeMinutes: 180,
+            breakCount: 3,
+            longestFocusStreak: 50,
+            remindersDone: { water: 0, stretch: 0, eyes: 0, posture: 0, custom: 0 },
+        });
+    });
+
+    it("Should add up the reminders done, also for records saved before reminders existed", () => {
+        const summary = summarizeUsage([
+            { date: "2026-10-12", activeMinutes: 0, breakCount: 0, longestFocusStreak: 0 },
+            { date: "2026-10-13", activeMinutes: 0, breakCount: 0, longestFocusStreak: 0, remindersDone: { [ReminderType.Water]: 3 } },
+            { date: "2026-10-14", activeMinutes: 0, breakCount: 0, longestFocusStreak: 0, remindersDone: { [ReminderType.Water]: 2, [ReminderType.Eyes]: 1 } },
+        ]);
+
+        expect(summary.remindersDone).toMatchObject({ [ReminderType.Water]: 5, [ReminderType.Eyes]: 1, [ReminderType.Stretch]: 0 });
+    });
+
+    it("Should give the active minutes of every hour, also for records saved before hours were counted", () => {
+        const hours = getHourlyActiveMinutes({ activeMinutesByHour: [0, 0, 0, 0, 0, 0, 0, 0, 0, 45, 30] });
+
+        expect(hours).toHaveLength(24);
+        expect(hours[9]).toBe(45);
+        expect(hours[10]).toBe(30);
+        expect(hours[23]).toBe(0);
+        expect(getHourlyActiveMinutes(createDailyUsage("2026-10-12"))).toEqual(new Array(24).fill(0));
+    });
+
+    it("Should export records as CSV and JSON", () => {
+        const records = [{ date: "2026-10-12", activeMinutes: 120, breakCount: 2, longestFocusStreak: 50 }];
+
+        expect(exportUsage(records, UsageExportFormat.Csv)).toBe(
+            "date,activeMinutes,breakCount,longestFocusStreak,waterRemindersDone,stretchRemindersDone,eyesRemindersDone,postureRemindersDone,customRemindersDone\n" +
+            "2026-10-12,120,2,50,0,0,0,0,0"
+        );
+        expect(JSON.parse(exportUsage(records, UsageExportFormat.Json))).toEqual(records);
+    });
+});
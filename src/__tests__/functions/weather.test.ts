@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    describeWeather,
+    getDailyForecastFromHourly,
+    getOpenWeatherMapCondition,
+    getWeatherLocation,
+    getWeatherLocationKey,
+    getWeatherType,
+    getWmoCondition,
+    parseCoordinates,
+} from "../../utils/weather";
+import { MockWeatherProvider } from "../../services/weather/mockProvider";
+import { CachedWeatherProvider } from "../../services/weather/cachedWeatherProvider";
+import { IWeatherFixture, WeatherCondition, WeatherType, WeatherUnits } from "../../types/IWeather";
+
+const HOUR = 60 * 60 * 1000;
+const TTL = { currentMs: 10 * 60 * 1000, forecastMs: 30 * 60 * 1000 };
+
+const FIXTURE: IWeatherFixture = {
+    current: { condition: WeatherCondition.Rain, temperature: 20, feelsLike: 18, humidity: 80, windSpeed: 10, locationName: "Đà Lạt", country: "VN" },
+    hourly: [
+        { condition: WeatherCondition.Rain, temperature: 20, precipitationChance: 80 },
+        { condition: WeatherCondition.Cloudy, temperature: 19, precipitationChance: 20 },
+    ],
+    daily: [{ condition: WeatherCondition.Rain, minTemperature: 15, maxTemperature: 25, precipitationChance: 80 }],
+};
+
+describe("weather conditions", () => {
+    it("Should map OpenWeatherMap ids to conditions", () => {
+        expect(getOpenWeatherMapCondition(211)).toBe(WeatherCondition.Thunderstorm);
+        expect(getOpenWeatherMapCondition(300)).toBe(WeatherCondition.Drizzle);
+        expect(getOpenWeatherMapCondition(501)).toBe(WeatherCondition.Rain);
+        expect(getOpenWeatherMapCondition(503)).toBe(WeatherCondition.HeavyRain);
+        expect(getOpenWeatherMapCondition(511)).toBe(WeatherCondition.FreezingRain);
+        expect(getOpenWeatherMapCondition(601)).toBe(WeatherCondition.Snow);
+        expect(getOpenWeatherMapCondition(741)).toBe(WeatherCondition.Fog);
+        expect(getOpenWeatherMapCondition(800)).toBe(WeatherCondition.Clear);
+        expect(getOpenWeatherMapCondition(802)).toBe(WeatherCondition.PartlyCloudy);
+        expect(getOpenWeatherMapCondition(804)).toBe(WeatherCondition.Cloudy);
+        expect(getOpenWeatherMapCondition(999)).toBe(WeatherCondition.Unknown);
+    });
+
+    it("Should map WMO codes to conditions", () => {
+        expect(getWmoCondition(0)).toBe(WeatherCondition.Clear);
+        expect(getWmoCondition(2)).toBe(WeatherCondition.PartlyCloudy);
+        expect(getWmoCondition(48)).toBe(WeatherCondition.Fog);
+        expect(getWmoCondition(63)).toBe(WeatherCondition.Rain);
+        expect(getWmoCondition(82)).toBe(WeatherCondition.HeavyRain);
+        expect(getWmoCondition(75)).toBe(WeatherCondition.Snow);
+        expect(getWmoCondition(99)).toBe(WeatherCondition.Thunderstorm);
+        expect(getWmoCondition(42)).toBe(WeatherCondition.Unknown);
+    });
+
+    it("Should give every condition a rough weather type", () => {
+        expect(getWeatherType(WeatherCondition.Drizzle)).toBe(WeatherType.Rain);
+        expect(getWeatherType(WeatherCondition.Cloudy)).toBe(WeatherType.Clouds);
+        expect(getWeatherType(WeatherCondition.Thunderstorm)).toBe(WeatherType.Storm);
+        expect(getWeatherType(WeatherCondition.Fog)).toBe(WeatherType.Mist);
+    });
+});
+
+describe("weather location", () => {
+    it("Should read coordinates typed by the user", () => {
+        expect(parseCoordinates(" 10.78 , 106.70 ")).toEqual({ latitude: 10.78, longitude: 106.7 });
+        expect(parseCoordinates("")).toBeNull();
+        expect(parseCoordinates("10.78")).toBeNull();
+        expect(parseCoordinates("abc, 106")).toBeNull();
+        expect(parseCoordinates("95, 106")).toBeNull();
+    });
+
+    it("Should use the coordinates when they are valid, otherwise the city", () => {
+        expect(getWeatherLocation("Hanoi", "21.03, 105.85")).toEqual({ latitude: 21.03, longitude: 105.85 });
+        expect(getWeatherLocation(" Hanoi ", "not coordinates")).toEqual({ city: "Hanoi" });
+    });
+
+    it("Should give the same key to the same place", () => {
+        expect(getWeatherLocationKey({ city: " HaNoi" })).toBe(getWeatherLocationKey({ city: "hanoi" }));
+        expect(getWeatherLocationKey({ latitude: 21.0301, longitude: 105.8499 })).toBe(getWeatherLocationKey({ latitude: 21.03, longitude: 105.85 }));
+    });
+});
+
+describe("weather forecasts", () => {
+    it("Should build daily forecasts from hourly ones with the worst condition of the day", () => {
+        const morning = new Date(2026, 5, 1, 9).getTime();
+        const days = getDailyForecastFromHourly([
+            { time: morning, condition: WeatherCondition.Clear, temperature: 26, precipitationChance: 0 },
+            { time: morning + 3 * HOUR, condition: WeatherCondition.Thunderstorm, temperature: 32, precipitationChance: 70 },
+            { time: morning + 6 * HOUR, condition: WeatherCondition.Rain, temperature: 29, precipitationChance: 40 },
+            { time: morning + 24 * HOUR, condition: WeatherCondition.Cloudy, temperature: 27, precipitationChance: 10 },
+        ]);
+
+        expect(days).toEqual([
+            { date: "2026-06-01", condition: WeatherCondition.Thunderstorm, minTemperature: 26, maxTemperature: 32, precipitationChance: 70 },
+            { date: "2026-06-02", condition: WeatherCondition.Cloudy, minTemperature: 27, maxTemperature: 27, precipitationChance: 10 },
+        ]);
+    });
+
+    it("Should answer from the fixtures in the asked units", async () => {
+        const now = new Date(2026, 5, 1, 9, 30).getTime();
+        const provider = new MockWeatherProvider({ "city:da lat": FIXTURE }, () => now);
+
+        const current = await provider.getCurrent({ city: "Da Lat" }, WeatherUnits.Imperial);
+        expect(current.temperature).toBe(68);
+        expect(current.units).toBe(WeatherUnits.Imperial);
+        expect(describeWeather(current)).toBe("có mưa, 68°F");
+
+        const hours = await provider.getHourlyForecast({ city: "Da Lat" }, WeatherUnits.Metric, 3);
+        expect(hours.map(({ time, condition }) => [time, condition])).toEqual([
+            [new Date(2026, 5, 1, 9).getTime(), WeatherCondition.Rain],
+            [new Date(2026, 5, 1, 10).getTime(), WeatherCondition.Cloudy],
+            [new Date(2026, 5, 1, 11).getTime(), WeatherCondition.Rain],
+        ]);
+
+        const days = await provider.getDailyForecast({ city: "Da Lat" }, WeatherUnits.Metric, 2);
+        expect(days.map(({ date }) => date)).toEqual(["2026-06-01", "2026-06-02"]);
+    });
+
+    it("Should fail for places without a fixture", async () => {
+        const provider = new MockWeatherProvider({ "city:da lat": FIXTURE });
+
+        await expect(provider.getCurrent({ city: "Atlantis" }, WeatherUnits.Metric)).rejects.toThrow("Atlantis");
+    });
+});
+
+describe("CachedWeatherProvider", () => {
+    it("Should only ask the provider again once the result is too old", async () => {
+        let now = 0;
+        const provider = new MockWeatherProvider({ "city:da lat": FIXTURE }, () => now);
+        const getCurrent = vi.spyOn(provider, "getCurrent");
+        const cached = new CachedWeatherProvider(provider, TTL, () => now);
+
+        await Promise.all([
+            cached.getCurrent({ city: "Da Lat" }, WeatherUnits.Metric),
+            cached.getCurrent({ city: " da lat" }, WeatherUnits.Metric),
+        ]);
+        now = TTL.currentMs - 1;
+        await cached.getCurrent({ city: "Da Lat" }, WeatherUnits.Metric);
+        expect(getCurrent).toHaveBeenCalledTimes(1);
+
+        now = TTL.currentMs;
+        await cached.getCurrent({ city: "Da Lat" }, WeatherUnits.Metric);
+        expect(getCurrent).toHaveBeenCalledTimes(2);
+    });
+
+    it("Should keep results apart by units and kind of forecast", async () => {
+        const provider = new MockWeatherProvider({ "city:da lat": FIXTURE });
+        const cached = new CachedWeatherProvider(provider, TTL);
+
+        const metric = await cached.getCurrent({ city: "Da Lat" }, WeatherUnits.Metric);
+        const imperial = await cached.getCurrent({ city: "Da Lat" }, WeatherUnits.Imperial);
+        expect(metric.temperature).toBe(20);
+        expect(imperial.temperature).toBe(68);
+
+        expect(await cached.getHourlyForecast({ city: "Da Lat" }, WeatherUnits.Metric, 2)).toHaveLength(2);
+        expect(await cached.getHourlyForecast({ city: "Da Lat" }, WeatherUnits.Metric, 4)).toHaveLength(4);
+    });
+
+    it("Should not keep errors, so the next call tries again", async () => {
+        const provider = new MockWeatherProvider({ "city:da lat": FIXTURE });
+        const getCurrent = vi.spyOn(provider, "getCurrent").mockRejectedValueOnce(new Error("offline"));
+        const cached = new CachedWeatherProvider(provider, TTL);
+
+        await expect(cached.getCurrent({ city: "Da Lat" }, WeatherUnits.Metric)).rejects.toThrow("offline");
+        expect((await cached.getCurrent({ city: "Da Lat" }, WeatherUnits.Metric)).locationName).toBe("Đà Lạt");
+        expect(getCurrent).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,28 @@
+// phrases the pet must never say, matched without accents or case so "Tôi là AI" also matches "toi la ai"
+export const BLOCKED_PHRASES: string[] = [
+    // breaking character
+    "tôi là một AI",
+    "tôi là AI",
+    "mô hình ngôn ngữ",
+    "trợ lý ảo",
+    "as an AI",
+    "I am an AI",
+    "language model",
+    "AI assistant",
+    "作为一个AI",
+    "语言模型",
+    // hurtful words
+    "đồ ngu",
+    "ngu ngốc",
+    "im đi",
+    "stupid",
+    "idiot",
+    "shut up",
+    // self harm
+    "tự tử",
+    "tự sát",
+    "kết liễu",
+    "suicide",
+    "kill yourself",
+    "自杀",
+];
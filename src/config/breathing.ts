@@ -0,0 +1,6 @@
+import { IBreathingPreset } from "../types/IBreathing";
+
+export const BREATHING_PRESETS: IBreathingPreset[] = [
+    { id: "box", pattern: { inhaleSeconds: 4, holdSeconds: 4, exhaleSeconds: 4, holdEmptySeconds: 4 } },
+    { id: "4-7-8", pattern: { inhaleSeconds: 4, holdSeconds: 7, exhaleSeconds: 8, holdEmptySeconds: 0 } },
+];
@@ -0,0 +1,104 @@
+import { ICrisisResources } from "../types/ICrisisSupport";
+
+// signs of self harm or a crisis in what the user writes, matched like the blocked phrases
+// (latin ones without accents or case), so "khong muon song nua" also matches
+export const CRISIS_PHRASES: string[] = [
+    // vi
+    "tự tử",
+    "tự sát",
+    "không muốn sống nữa",
+    "chẳng muốn sống nữa",
+    "kết thúc cuộc đời",
+    "kết liễu bản thân",
+    "tự làm hại bản thân",
+    "tự làm đau mình",
+    "rạch tay",
+    "không còn lý do để sống",
+    "sống không còn ý nghĩa",
+    // en
+    "suicide",
+    "suicidal",
+    "kill myself",
+    "end my life",
+    "want to die",
+    "better off dead",
+    "hurt myself",
+    "self harm",
+    "cut myself",
+    "no reason to live",
+    // zh
+    "自杀",
+    "自殺",
+    "想死",
+    "不想活了",
+    "结束生命",
+    "結束生命",
+    "自残",
+    "自殘",
+    "轻生",
+    "輕生",
+    // kh
+    "សម្លាប់ខ្លួន",
+    "ចង់ស្លាប់",
+];
+
+export const CRISIS_RESOURCES: ICrisisResources[] = [
+    {
+        country: "VN",
+        countryName: "Việt Nam",
+        hotlines: [
+            { name: "Đường dây nóng Ngày Mai", contact: "096 306 1414" },
+            { name: "Tổng đài quốc gia bảo vệ trẻ em", contact: "111" },
+            { name: "Cấp cứu", contact: "115", isEmergency: true },
+        ],
+    },
+    {
+        country: "US",
+        countryName: "United States",
+        hotlines: [
+            { name: "988 Suicide & Crisis Lifeline", contact: "988" },
+            { name: "Emergency", contact: "911", isEmergency: true },
+        ],
+    },
+    {
+        country: "GB",
+        countryName: "United Kingdom",
+        hotlines: [
+            { name: "Samaritans", contact: "116 123" },
+            { name: "Emergency", contact: "999", isEmergency: true },
+        ],
+    },
+    {
+        country: "AU",
+        countryName: "Australia",
+        hotlines: [
+            { name: "Lifeline", contact: "13 11 14" },
+            { name: "Emergency", contact: "000", isEmergency: true },
+        ],
+    },
+    {
+        country: "CN",
+        countryName: "中国",
+        hotlines: [
+            { name: "北京心理危机研究与干预中心", contact: "010-82951332" },
+            { name: "急救", contact: "120", isEmergency: true },
+        ],
+    },
+    {
+        country: "TW",
+        countryName: "台灣",
+        hotlines: [
+            { name: "安心專線", contact: "1925" },
+            { name: "緊急救護", contact: "119", isEmergency: true },
+        ],
+    },
+];
+
+// shown when there is nothing bundled for the user's country
+export const INTERNATIONAL_CRISIS_RESOURCES: ICrisisResources = {
+    country: "",
+    countryName: "International",
+    hotlines: [
+        { name: "Find A Helpline", contact: "https://findahelpline.com" },
+    ],
+};
@@ -0,0 +1,16 @@
+import { IFocusPreset } from "../types/IFocusTimer";
+
+export const FOCUS_PRESETS: IFocusPreset[] = [
+    { id: "pomodoro", plan: { focusMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, sessionsBeforeLongBreak: 4 } },
+    { id: "short", plan: { focusMinutes: 15, shortBreakMinutes: 3, longBreakMinutes: 10, sessionsBeforeLongBreak: 4 } },
+    { id: "deep work", plan: { focusMinutes: 50, shortBreakMinutes: 10, longBreakMinutes: 30, sessionsBeforeLongBreak: 2 } },
+];
+
+// what the pets say at each step of the stretch they lead during a long break, in order
+export const STRETCH_STEPS: string[] = [
+    "Đứng dậy vươn vai cùng mình nào! Hai tay duỗi thẳng lên trời 🙆",
+    "Xoay cổ thật chậm, sang trái rồi sang phải nhé 🔄",
+    "Xoay vai ra sau 5 lần, thả lỏng hai bả vai 💆",
+    "Nhìn ra xa 20 giây cho mắt được nghỉ 👀",
+    "Uống một ngụm nước nữa là xong rồi! 💧",
+];
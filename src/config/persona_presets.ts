@@ -0,0 +1,103 @@
+import { IPersona, IPersonaPreset, MessageCategory, PersonaTone } from "../types/IPersona"
+import { IPetAISettings, ISpriteConfig } from "../types/ISpriteConfig"
+
+export const DEFAULT_PERSONA_PRESET_ID = "gentle-friend";
+
+// spontaneous message settings of pets that were never edited
+export const DEFAULT_PET_AI_SETTINGS: IPetAISettings = {
+    enabled: true,
+    minIntervalMinutes: 3,
+};
+
+// categories a persona can choose from, rest reminders are sent by the app when the user works too long
+export const PERSONA_MESSAGE_CATEGORIES = Object.values(MessageCategory).filter((category) => category !== MessageCategory.RestReminder);
+
+export const PERSONA_PRESETS: IPersonaPreset[] = [
+    {
+        id: DEFAULT_PERSONA_PRESET_ID,
+        label: "Gentle friend",
+        persona: {
+            tone: PersonaTone.Gentle,
+            speakingStyle: "Một chuyên gia tâm lý tinh tế và thấu cảm, nói chuyện nhẹ nhàng, tích cực và một chút dễ thương",
+            categories: [MessageCategory.Encouragement, MessageCategory.CheckIn, MessageCategory.FunFact, MessageCategory.Inspiration],
+            language: "vi",
+        },
+    },
+    {
+        id: "mischievous",
+        label: "Mischievous prankster",
+        persona: {
+            tone: PersonaTone.Playful,
+            speakingStyle: "Tinh nghịch, hay trêu chọc, thích đùa dí dỏm và thỉnh thoảng cười khúc khích",
+            categories: [MessageCategory.Joke, MessageCategory.FunFact, MessageCategory.CheckIn],
+            language: "vi",
+        },
+    },
+    {
+        id: "cozy-cat",
+        label: "Cozy lazy cat",
+        persona: {
+            tone: PersonaTone.Lazy,
+            speakingStyle: "Một chú mèo lười biếng, mê ăn vặt và ngủ trưa, nói câu ngắn, hay kết thúc bằng \"meo~\"",
+            categories: [MessageCategory.CheckIn, MessageCategory.Tip, MessageCategory.Joke],
+            language: "vi",
+        },
+    },
+    {
+        id: "cheerful",
+        label: "Cheerful cheerleader",
+        persona: {
+            tone: PersonaTone.Cheerful,
+            speakingStyle: "Tràn đầy năng lượng, hào hứng, hay dùng dấu chấm than và cổ vũ nhiệt tình",
+            categories: [MessageCategory.Encouragement, MessageCategory.Inspiration, MessageCategory.Tip],
+            language: "vi",
+        },
+    },
+    {
+        id: "wise-mentor",
+        label: "Wise mentor",
+        persona: {
+            tone: PersonaTone.Wise,
+            speakingStyle: "Điềm tĩnh, từng trải, nói chậm rãi như một người thầy, hay dùng hình ảnh ẩn dụ",
+            categories: [MessageCategory.Inspiration, MessageCategory.Tip, MessageCategory.FunFact],
+            language: "vi",
+        },
+    },
+];
+
+// built-in pets with a personality of their own, every other pet uses the default preset
+const PET_PERSONA_PRESET: Record<string, string> = {
+    "Hu Tao": "mischievous",
+    "Klee": "cheerful",
+    "Yoimiya-ys": "cheerful",
+    "Pusheen": "cozy-cat",
+    "XiaoCat": "cozy-cat",
+    "Shimeji Nekojapan": "cozy-cat",
+    "Shimeji KoreaCat": "cozy-cat",
+    "Zhongli-1": "wise-mentor",
+    "Zhongli-ys": "wise-mentor",
+    "Albedo": "wise-mentor",
+    "Spongebob": "cheerful",
+    "Gengar Shimeji": "mischievous",
+};
+
+export const getPersonaPreset = (presetId?: string): IPersonaPreset => {
+    return PERSONA_PRESETS.find((preset) => preset.id === presetId) ?? PERSONA_PRESETS[0];
+}
+
+export const createPersonaFromPreset = (name: string, presetId?: string): IPersona => {
+    const preset = getPersonaPreset(presetId);
+    return {
+        ...preset.persona,
+        categories: [...preset.persona.categories],
+        name,
+        presetId: preset.id,
+    };
+}
+
+/**
+ * persona saved in pets.json, or the built-in one for pets that were never edited
+ */
+export const getPetPersona = (pet: ISpriteConfig): IPersona => {
+    return pet.persona ?? createPersonaFromPreset(pet.name, PET_PERSONA_PRESET[pet.name]);
+}
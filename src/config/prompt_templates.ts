@@ -0,0 +1,17 @@
+import { IPromptContext, IPromptTemplates, PromptTemplateName } from "../types/IPromptTemplate"
+
+export const DEFAULT_PROMPT_TEMPLATES: IPromptTemplates = {
+    [PromptTemplateName.Thought]: "Bối cảnh: Bây giờ là {{timeOfDay}}{{#weather}}, thời tiết ở {{city}} đang {{weather}}{{/weather}}. {{userName}} đang làm việc trên máy tính. Hãy tạo một thông điệp bất ngờ để an ủi và làm {{userName}} vui.",
+    [PromptTemplateName.LongSession]: "Bối cảnh: Bây giờ là {{timeOfDay}}, {{userName}} đã làm việc liên tục {{minutesSinceBreak}} phút rồi{{#weather}}, thời tiết ở {{city}} đang {{weather}}{{/weather}}. Hãy tạo một lời nhắc nhở nghỉ ngơi thật nhẹ nhàng và quan tâm.",
+}
+
+// used by the live preview in settings
+export const SAMPLE_PROMPT_CONTEXT: IPromptContext = {
+    timeOfDay: "buổi chiều",
+    weather: "mưa nhẹ",
+    city: "Ho Chi Minh City",
+    minutesSinceBreak: 45,
+    focusStreakMinutes: 30,
+    petName: "Airi",
+    userName: "Quin",
+}
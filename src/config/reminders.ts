@@ -0,0 +1,10 @@
+import { ReminderType } from "../types/IReminder";
+
+// what the pets say when a reminder has no text of its own
+export const DEFAULT_REMINDER_TEXTS: Record<ReminderType, string> = {
+    [ReminderType.Water]: "Uống một ngụm nước đi nào, cơ thể cần nước lắm đó 💧",
+    [ReminderType.Stretch]: "Đứng dậy vươn vai một chút cho đỡ mỏi nhé 🙆",
+    [ReminderType.Eyes]: "Nhìn ra xa 20 giây cho mắt nghỉ ngơi một chút nha 👀",
+    [ReminderType.Posture]: "Ngồi thẳng lưng lên nào, thả lỏng hai vai nhé 🪑",
+    [ReminderType.Custom]: "Đến giờ rồi nè! ⏰",
+};
@@ -0,0 +1,31 @@
+import { WeatherCondition } from "../types/IWeather";
+
+// how the pets talk about the weather in their prompt
+export const WEATHER_CONDITION_DESCRIPTIONS: Record<WeatherCondition, string> = {
+    [WeatherCondition.Clear]: "trời quang",
+    [WeatherCondition.PartlyCloudy]: "có mây rải rác",
+    [WeatherCondition.Cloudy]: "nhiều mây",
+    [WeatherCondition.Fog]: "sương mù",
+    [WeatherCondition.Drizzle]: "mưa phùn",
+    [WeatherCondition.Rain]: "có mưa",
+    [WeatherCondition.HeavyRain]: "mưa to",
+    [WeatherCondition.FreezingRain]: "mưa băng",
+    [WeatherCondition.Snow]: "có tuyết",
+    [WeatherCondition.Thunderstorm]: "giông bão",
+    [WeatherCondition.Unknown]: "không rõ thời tiết",
+};
+
+// from the mildest to the worst, a day gets the worst condition of its hours
+export const WEATHER_CONDITION_SEVERITY: WeatherCondition[] = [
+    WeatherCondition.Unknown,
+    WeatherCondition.Clear,
+    WeatherCondition.PartlyCloudy,
+    WeatherCondition.Cloudy,
+    WeatherCondition.Fog,
+    WeatherCondition.Drizzle,
+    WeatherCondition.Rain,
+    WeatherCondition.Snow,
+    WeatherCondition.HeavyRain,
+    WeatherCondition.FreezingRain,
+    WeatherCondition.Thunderstorm,
+];
@@ -3,6 +3,13 @@ import { ISettingStoreState } from "../types/hooks/type";
 import defaultPetConfig from "../config/pet_config";
 import defaultSettings from "../../src-tauri/src/app/default/settings.json";
 import { ColorScheme } from "../types/ISetting";
+import { LLMProviderType } from "../types/ILLM";
+import { IUserProfile } from "../types/IUserProfile";
+import { IQuietHoursRule, QuietMessagePolicy } from "../types/IQuietMode";
+import { IFocusTimerState } from "../types/IFocusTimer";
+import { IReminder } from "../types/IReminder";
+import { IBreathingSettings } from "../types/IBreathing";
+import { WeatherProviderType, WeatherUnits } from "../types/IWeather";
 
 // initialize settings
 export const useSettingStore = create<ISettingStoreState>()((set) => ({
@@ -42,6 +49,78 @@ export const useSettingStore = create<ISettingStoreState>()((set) => ({
     setCity: (newCity) => {
         set({city: newCity})
     },
+    weatherCoordinates: defaultSettings.weatherCoordinates ?? "",
+    setWeatherCoordinates: (newCoordinates) => {
+        set({weatherCoordinates: newCoordinates})
+    },
+    weatherProvider: defaultSettings.weatherProvider as WeatherProviderType ?? WeatherProviderType.OpenWeatherMap,
+    setWeatherProvider: (newProvider) => {
+        set({weatherProvider: newProvider})
+    },
+    weatherUnits: defaultSettings.weatherUnits as WeatherUnits ?? WeatherUnits.Metric,
+    setWeatherUnits: (newUnits) => {
+        set({weatherUnits: newUnits})
+    },
+    aiProvider: defaultSettings.aiProvider as LLMProviderType ?? LLMProviderType.Gemini,
+    setAIProvider: (newProvider) => {
+        set({aiProvider: newProvider})
+    },
+    aiBaseUrl: defaultSettings.aiBaseUrl ?? "",
+    setAIBaseUrl: (newBaseUrl) => {
+        set({aiBaseUrl: newBaseUrl})
+    },
+    aiModel: defaultSettings.aiModel ?? "",
+    setAIModel: (newModel) => {
+        set({aiModel: newModel})
+    },
+    aiMessagesPerHour: defaultSettings.aiMessagesPerHour ?? 20,
+    setAIMessagesPerHour: (newMessagesPerHour) => {
+        set({aiMessagesPerHour: newMessagesPerHour})
+    },
+    breakResetMinutes: defaultSettings.breakResetMinutes ?? 5,
+    setBreakResetMinutes: (newMinutes) => {
+        set({breakResetMinutes: newMinutes})
+    },
+    quietHours: defaultSettings.quietHours as IQuietHoursRule[] ?? [],
+    setQuietHours: (newQuietHours) => {
+        set({quietHours: [...newQuietHours]})
+    },
+    quietMessagePolicy: defaultSettings.quietMessagePolicy as QuietMessagePolicy ?? QuietMessagePolicy.Defer,
+    setQuietMessagePolicy: (newPolicy) => {
+        set({quietMessagePolicy: newPolicy})
+    },
+    doNotDisturbUntil: defaultSettings.doNotDisturbUntil ?? 0,
+    setDoNotDisturbUntil: (newTimestamp) => {
+        set({doNotDisturbUntil: newTimestamp})
+    },
+    presentationMode: defaultSettings.presentationMode ?? false,
+    setPresentationMode: (newBoolean) => {
+        set({presentationMode: newBoolean})
+    },
+    focusTimer: defaultSettings.focusTimer as IFocusTimerState,
+    setFocusTimer: (newFocusTimer) => {
+        set({focusTimer: {...newFocusTimer, plan: {...newFocusTimer.plan}}})
+    },
+    reminders: defaultSettings.reminders as IReminder[] ?? [],
+    setReminders: (newReminders) => {
+        set({reminders: [...newReminders]})
+    },
+    breathing: defaultSettings.breathing as IBreathingSettings,
+    setBreathing: (newBreathing) => {
+        set({breathing: {...newBreathing, pattern: {...newBreathing.pattern}}})
+    },
+    memoryTokenBudget: defaultSettings.memoryTokenBudget ?? 400,
+    setMemoryTokenBudget: (newBudget) => {
+        set({memoryTokenBudget: newBudget})
+    },
+    userProfile: defaultSettings.userProfile as IUserProfile,
+    setUserProfile: (newProfile) => {
+        set({userProfile: {...newProfile}})
+    },
+    crisisPhrases: defaultSettings.crisisPhrases as string[] ?? [],
+    setCrisisPhrases: (newPhrases) => {
+        set({crisisPhrases: [...newPhrases]})
+    },
     // not actual settings that was saved in the config file
     // this pets will be used to track the pets in user's computer and live update the pet if user add/remove pet
     pets: [],
@@ -6,8 +6,15 @@ import i18next from "i18next";
 import defaultSettings from "../../src-tauri/src/app/default/settings.json";
 import { error } from "tauri-plugin-log-api";
 import { ISettingStoreVariables } from "../types/hooks/type";
+import { LLMProviderType } from "../types/ILLM";
+import { IUserProfile } from "../types/IUserProfile";
+import { QuietMessagePolicy } from "../types/IQuietMode";
+import { IFocusTimerState } from "../types/IFocusTimer";
+import { IReminder } from "../types/IReminder";
+import { IBreathingSettings } from "../types/IBreathing";
+import { WeatherProviderType, WeatherUnits } from "../types/IWeather";
 
-const { setLanguage, setTheme, setAllowAutoStartUp, setAllowPetAboveTaskbar, setAllowPetInteraction, setAllowOverridePetScale, setPetScale, setAllowPetClimbing } = useSettingStore.getState();
+const { setLanguage, setTheme, setAllowAutoStartUp, setAllowPetAboveTaskbar, setAllowPetInteraction, setAllowOverridePetScale, setPetScale, setAllowPetClimbing, setCity, setWeatherCoordinates, setWeatherProvider, setWeatherUnits, setAIProvider, setAIBaseUrl, setAIModel, setAIMessagesPerHour, setBreakResetMinutes, setQuietHours, setQuietMessagePolicy, setDoNotDisturbUntil, setPresentationMode, setFocusTimer, setReminders, setBreathing, setMemoryTokenBudget, setUserProfile, setCrisisPhrases } = useSettingStore.getState();
 
 const getSettings = async () => {
     let setting: ISettingStoreVariables = await getAppSettings({ configName: "settings.json" });
@@ -26,6 +33,26 @@ const getSettings = async () => {
     setAllowPetClimbing(setting.allowPetClimbing ?? defaultSettings.allowPetClimbing);
     setAllowOverridePetScale(setting.allowOverridePetScale ?? defaultSettings.allowOverridePetScale);
     setPetScale(setting.petScale ?? defaultSettings.petScale);
+    setCity(setting.city ?? defaultSettings.city);
+    setWeatherCoordinates(setting.weatherCoordinates ?? defaultSettings.weatherCoordinates);
+    setWeatherProvider(setting.weatherProvider ?? defaultSettings.weatherProvider as WeatherProviderType);
+    setWeatherUnits(setting.weatherUnits ?? defaultSettings.weatherUnits as WeatherUnits);
+    setAIProvider(setting.aiProvider ?? defaultSettings.aiProvider as LLMProviderType);
+    setAIBaseUrl(setting.aiBaseUrl ?? defaultSettings.aiBaseUrl);
+    setAIModel(setting.aiModel ?? defaultSettings.aiModel);
+    setAIMessagesPerHour(setting.aiMessagesPerHour ?? defaultSettings.aiMessagesPerHour);
+    setBreakResetMinutes(setting.breakResetMinutes ?? defaultSettings.breakResetMinutes);
+    setQuietHours(setting.quietHours ?? defaultSettings.quietHours);
+    setQuietMessagePolicy(setting.quietMessagePolicy ?? defaultSettings.quietMessagePolicy as QuietMessagePolicy);
+    setDoNotDisturbUntil(setting.doNotDisturbUntil ?? defaultSettings.doNotDisturbUntil);
+    setPresentationMode(setting.presentationMode ?? defaultSettings.presentationMode);
+    setFocusTimer(setting.focusTimer ?? defaultSettings.focusTimer as IFocusTimerState);
+    setReminders(setting.reminders ?? defaultSettings.reminders as IReminder[]);
+    setBreathing(setting.breathing ?? defaultSettings.breathing as IBreathingSettings);
+    setMemoryTokenBudget(setting.memoryTokenBudget ?? defaultSettings.memoryTokenBudget);
+    // merge with the default so profiles saved by older versions get the new fields
+    setUserProfile({ ...defaultSettings.userProfile as IUserProfile, ...setting.userProfile });
+    setCrisisPhrases(setting.crisisPhrases ?? defaultSettings.crisisPhrases as string[]);
 };
 
 export function useSettings() {
@@ -1,9 +1,12 @@
-import { ISpriteConfig } from "../types/ISpriteConfig";
+import { IPetAISettings, ISpriteConfig } from "../types/ISpriteConfig";
 import { useSettingStore } from "../hooks/useSettingStore";
 import { listen } from "@tauri-apps/api/event";
 import {
     DispatchType,
     EventType,
+    IPetChatOpenDetail,
+    IPetQuickMenuOpenDetail,
+    OverlayEventType,
     TRenderEventListener,
 } from "../types/IEvents";
 import {
@@ -16,6 +19,33 @@ import { info, error } from "tauri-plugin-log-api";
 import defaultSettings from "../../src-tauri/src/app/default/settings.json";
 import { ConfigManager, InputManager } from "./manager";
 import { petAIManager, AIMessage } from "../services/petAIService";
+import { LLMProviderType } from "../types/ILLM";
+import { IUserProfile } from "../types/IUserProfile";
+import { IQuietHoursRule, QuietMessagePolicy } from "../types/IQuietMode";
+import { credentialService } from "../services/credentialService";
+import { petChatService } from "../services/petChatService";
+import { memoryService } from "../services/memoryService";
+import { personaService } from "../services/personaService";
+import { petPositionService } from "../services/petPositionService";
+import { bubbleQueue } from "../services/bubbleQueueService";
+import { BubblePriority } from "../types/IBubble";
+import { promptTemplateService } from "../services/promptTemplateService";
+import { preferenceService } from "../services/preferenceService";
+import { messagePoolService } from "../services/messagePoolService";
+import { usageStatsService } from "../services/usageStatsService";
+import { focusTimerService } from "../services/focusTimerService";
+import { reminderService } from "../services/reminderService";
+import { IReminder } from "../types/IReminder";
+import { getAddressTerm } from "../services/promptBuilder";
+import { FocusPhase, IFocusTimerState } from "../types/IFocusTimer";
+import { isFocusing } from "../utils/focusTimer";
+import { STRETCH_STEPS } from "../config/focus_timer";
+import { DEFAULT_PET_AI_SETTINGS } from "../config/persona_presets";
+import { breathingService } from "../services/breathingService";
+import { timeTracker } from "../services/timeTrackingService";
+import { crisisSupportService } from "../services/crisisSupportService";
+import { IBreathingEndDetail, IBreathingRun, IBreathingSettings } from "../types/IBreathing";
+import { WeatherProviderType, WeatherUnits } from "../types/IWeather";
 
 interface Pet extends Phaser.Types.Physics.Arcade.SpriteWithDynamicBody {
     direction?: Direction;
@@ -31,6 +61,18 @@ export default class Pets extends Phaser.Scene {
     private frameCount: number = 0;
     // use this array to store index of pet that is currently climb and crawl
     private petClimbAndCrawlIndex: number[] = [];
+    // pet that the user is currently chatting with, it stays still until the chat is closed
+    private chattingPetId: string | null = null;
+    // pet that spoke last, the chat shortcut opens the chat with this pet
+    private lastSpeakingPetId: string | null = null;
+    // pets playing the action of the bubble they are showing, by bubble id
+    private actingPets: Map<string, number> = new Map();
+    // pet leading a breathing exercise, it rests slowly until the exercise is over
+    private breathingPetId: string | null = null;
+    // bubble of the message each pet is still streaming
+    private streamingBubbles: Map<string, { streamId: string; bubbleId: number }> = new Map();
+    // used to detect double click on a pet
+    private lastPetClick: { petId: string; time: number } = { petId: "", time: 0 };
 
     private configManager: ConfigManager;
     // input manager to handle mouse, toggle cursor events to ignore cursor events when mouse is over pet
@@ -52,6 +94,8 @@ export default class Pets extends Phaser.Scene {
         "bounce",
         "jump",
     ];
+    // calm states pets play while sitting next to the user during a focus session, in order of preference
+    private readonly RESTING_STATES: string[] = ["sit", "idle", "stand"];
     private readonly FRAME_RATE: number = 9;
     private readonly UPDATE_DELAY: number = 1000 / this.FRAME_RATE;
     private readonly PET_MOVE_VELOCITY: number = this.FRAME_RATE * 6;
@@ -59,6 +103,10 @@ export default class Pets extends Phaser.Scene {
     private readonly TWEEN_ACCELERATION: number = this.FRAME_RATE * 1.1;
     private readonly RAND_STATE_DELAY: number = 3000;
     private readonly FLIP_DELAY: number = 5000;
+    private readonly DOUBLE_CLICK_DELAY: number = 300;
+    // animation speed of the pet leading a breathing exercise
+    private readonly BREATHING_TIME_SCALE: number = 0.5;
+    private readonly BREATHING_WALK_MAX_DURATION: number = 5000;
 
     constructor() {
         super({ key: "Pets" });
@@ -197,6 +245,73 @@ export default class Pets extends Phaser.Scene {
             });
         });
 
+        // double click on a pet to open the chat, right click for the quick menu
+        this.input.on("gameobjectdown", (pointer: any, pet: Pet) => {
+            if (pointer.rightButtonDown()) {
+                this.openQuickMenuForPet(pet);
+                return;
+            }
+
+            const now = Date.now();
+            if (
+                this.lastPetClick.petId === pet.id &&
+                now - this.lastPetClick.time <= this.DOUBLE_CLICK_DELAY
+            ) {
+                this.lastPetClick = { petId: "", time: 0 };
+                this.openChatWithPet(pet);
+                return;
+            }
+            this.lastPetClick = { petId: pet.id, time: now };
+        });
+
+        // the request may name the pet (e.g. replying to its bubble), otherwise chat with the one that spoke last
+        const handleChatRequest = (event: Event) => {
+            const petId = (event as CustomEvent<string | undefined>).detail ?? this.lastSpeakingPetId;
+            const pet =
+                this.pets.find((pet) => pet.id === petId) ??
+                this.pets[0];
+            if (pet) this.openChatWithPet(pet);
+        };
+        // the quick menu holds the pet the same way as the chat
+        const handleChatClose = () => this.releaseChattingPet();
+        window.addEventListener(OverlayEventType.PetChatRequest, handleChatRequest);
+        window.addEventListener(OverlayEventType.PetChatClose, handleChatClose);
+        window.addEventListener(OverlayEventType.PetQuickMenuClose, handleChatClose);
+        // pets act out their message while its bubble is on screen
+        const unsubscribeBubbles = bubbleQueue.subscribe(() => this.syncPetActions());
+        // typing in other apps only reaches us through the system idle time
+        timeTracker.start();
+        // only the pet window writes the usage stats, the setting window reads them
+        usageStatsService.start();
+        // the focus timer also runs here, pets react when a focus session or a break starts
+        const unsubscribeFocus = focusTimerService.onPhaseChange((phase, previous) => this.reactToFocusPhase(phase, previous));
+        focusTimerService.start();
+        const unsubscribeReminders = reminderService.onReminder((reminder) => this.showReminder(reminder));
+        reminderService.start();
+        // the pet leading a breathing exercise walks to the middle of the screen and rests slowly
+        const handleBreathingStart = (event: Event) => this.startBreathing((event as CustomEvent<IBreathingRun>).detail);
+        const handleBreathingEnd = (event: Event) => this.endBreathing((event as CustomEvent<IBreathingEndDetail>).detail);
+        window.addEventListener(OverlayEventType.BreathingStart, handleBreathingStart);
+        window.addEventListener(OverlayEventType.BreathingEnd, handleBreathingEnd);
+        this.events.once(Phaser.Scenes.Events.DESTROY, () => {
+            window.removeEventListener(OverlayEventType.PetChatRequest, handleChatRequest);
+            window.removeEventListener(OverlayEventType.PetChatClose, handleChatClose);
+            window.removeEventListener(OverlayEventType.PetQuickMenuClose, handleChatClose);
+            unsubscribeBubbles();
+            timeTracker.stop();
+            usageStatsService.stop();
+            unsubscribeFocus();
+            focusTimerService.stop();
+            unsubscribeReminders();
+            reminderService.stop();
+            window.removeEventListener(OverlayEventType.BreathingStart, handleBreathingStart);
+            window.removeEventListener(OverlayEventType.BreathingEnd, handleBreathingEnd);
+            breathingService.stop();
+            // in-flight AI streams are aborted, the next scene adds its pets again
+            petAIManager.stopAll();
+            petPositionService.clear();
+        });
+
         this.physics.world.on(
             "worldbounds",
             (
@@ -300,27 +415,173 @@ export default class Pets extends Phaser.Scene {
                         this.petScale = event.payload.value as number;
                         this.scaleAllPets(this.petScale);
                         break;
+                    // AI settings live in the store so the AI services pick them up on the next message
+                    case DispatchType.ChangeCity:
+                        useSettingStore
+                            .getState()
+                            .setCity(event.payload.value as string);
+                        break;
+                    case DispatchType.ChangeWeatherCoordinates:
+                        useSettingStore
+                            .getState()
+                            .setWeatherCoordinates(event.payload.value as string);
+                        break;
+                    case DispatchType.ChangeWeatherProvider:
+                        useSettingStore
+                            .getState()
+                            .setWeatherProvider(event.payload.value as WeatherProviderType);
+                        break;
+                    case DispatchType.ChangeWeatherUnits:
+                        useSettingStore
+                            .getState()
+                            .setWeatherUnits(event.payload.value as WeatherUnits);
+                        break;
+                    case DispatchType.ChangeAIProvider:
+                        useSettingStore
+                            .getState()
+                            .setAIProvider(event.payload.value as LLMProviderType);
+                        // another provider or model may not need the key that was missing
+                        petAIManager.clearMissingApiKey();
+                        break;
+                    case DispatchType.ChangeAIBaseUrl:
+                        useSettingStore
+                            .getState()
+                            .setAIBaseUrl(event.payload.value as string);
+                        petAIManager.clearMissingApiKey();
+                        break;
+                    case DispatchType.ChangeAIModel:
+                        useSettingStore
+                            .getState()
+                            .setAIModel(event.payload.value as string);
+                        petAIManager.clearMissingApiKey();
+                        break;
+                    case DispatchType.UpdateCredentials:
+                        credentialService.invalidate();
+                        petAIManager.clearMissingApiKey();
+                        break;
+                    case DispatchType.ChangeMemoryTokenBudget:
+                        useSettingStore
+                            .getState()
+                            .setMemoryTokenBudget(event.payload.value as number);
+                        break;
+                    case DispatchType.UpdateMemory:
+                        memoryService.invalidate();
+                        memoryService.getStore().then(({ facts }) => {
+                            crisisSupportService.checkWrittenText(facts.map((fact) => fact.text));
+                        });
+                        break;
+                    case DispatchType.ChangeUserProfile: {
+                        const profile = event.payload.value as IUserProfile;
+                        useSettingStore
+                            .getState()
+                            .setUserProfile(profile);
+                        crisisSupportService.checkWrittenText([
+                            profile.displayName,
+                            profile.pronouns,
+                            ...profile.interests,
+                            ...profile.avoidTopics,
+                        ]);
+                        break;
+                    }
+                    case DispatchType.ChangeCrisisPhrases:
+                        useSettingStore
+                            .getState()
+                            .setCrisisPhrases(event.payload.value as string[]);
+                        break;
+                    case DispatchType.UpdatePromptTemplates:
+                        promptTemplateService.invalidate();
+                        break;
+                    case DispatchType.UpdatePreferences:
+                        preferenceService.invalidate();
+                        break;
+                    case DispatchType.ChangeAIMessagesPerHour:
+                        useSettingStore
+                            .getState()
+                            .setAIMessagesPerHour(event.payload.value as number);
+                        petAIManager.reschedule();
+                        break;
+                    case DispatchType.ChangeBreakResetMinutes:
+                        useSettingStore
+                            .getState()
+                            .setBreakResetMinutes(event.payload.value as number);
+                        break;
+                    case DispatchType.ChangeQuietHours:
+                        useSettingStore
+                            .getState()
+                            .setQuietHours(event.payload.value as IQuietHoursRule[]);
+                        break;
+                    case DispatchType.ChangeQuietMessagePolicy:
+                        useSettingStore
+                            .getState()
+                            .setQuietMessagePolicy(event.payload.value as QuietMessagePolicy);
+                        if (event.payload.value === QuietMessagePolicy.Drop) {
+                            petAIManager.clearDeferredMessages();
+                        }
+                        break;
+                    case DispatchType.ChangeDoNotDisturbUntil:
+                        useSettingStore
+                            .getState()
+                            .setDoNotDisturbUntil(event.payload.value as number);
+                        break;
+                    case DispatchType.SwitchPresentationMode:
+                        useSettingStore
+                            .getState()
+                            .setPresentationMode(event.payload.value as boolean);
+                        // presentation mode also hides the bubbles that are already on screen
+                        if (event.payload.value) bubbleQueue.clear();
+                        break;
+                    case DispatchType.ChangeFocusTimer:
+                        // focusTimerService notices the change on its next tick
+                        useSettingStore
+                            .getState()
+                            .setFocusTimer(event.payload.value as IFocusTimerState);
+                        break;
+                    case DispatchType.ChangeReminders: {
+                        const reminders = event.payload.value as IReminder[];
+                        useSettingStore
+                            .getState()
+                            .setReminders(reminders);
+                        crisisSupportService.checkWrittenText(reminders.map((reminder) => reminder.text));
+                        break;
+                    }
+                    case DispatchType.ChangeBreathing:
+                        useSettingStore
+                            .getState()
+                            .setBreathing(event.payload.value as IBreathingSettings);
+                        break;
+                    case DispatchType.StartBreathing: {
+                        const petId = event.payload.value as string;
+                        const pet = this.pets.find((pet) => pet.id === petId) ?? this.getLeadPet();
+                        if (pet) breathingService.start(pet.id);
+                        break;
+                    }
+                    case DispatchType.UpdatePetConfig: {
+                        const sprite = event.payload.value as ISpriteConfig;
+                        personaService.registerPet(sprite);
+                        petAIManager.updatePetSettings(sprite.id as string, sprite.aiSettings ?? DEFAULT_PET_AI_SETTINGS);
+                        // thông điệp tạo sẵn được viết theo tính cách cũ
+                        messagePoolService.removePet(sprite.id as string);
+                        break;
+                    }
                     default:
                         break;
                 }
             }
         );
 
-
-        // Initialize AI for existing pets
-        this.initializeAIForAllPets();
-
         info("Pets scene loaded with AI companions");
     }
 
     update(time: number, delta: number): void {
         this.frameCount += delta;
 
+        // every frame, so bubbles anchored to a pet follow it smoothly while it walks or is dragged
+        this.trackPetPositions();
+
         if (this.frameCount >= this.UPDATE_DELAY) {
             this.frameCount = 0;
-            if (this.allowPetInteraction) {
-                this.inputManager.checkIsMouseInOnPet();
-            }
+            // bubbles stay clickable even when dragging pets is turned off
+            this.inputManager.checkIsMouseInOnPet(this.allowPetInteraction);
 
             this.randomJumpIfPetClimbAndCrawl();
         }
@@ -353,16 +614,28 @@ export default class Pets extends Phaser.Scene {
         this.pets[index].canPlayRandomState = true;
         this.pets[index].canRandomFlip = true;
         this.pets[index].id = sprite.id as string;
+        personaService.registerPet(sprite);
 
         this.petJumpOrPlayRandomState(this.pets[index]);
         
         // Initialize AI for this pet
-        this.initializeAIForPet(this.pets[index]);
+        this.initializeAIForPet(this.pets[index], sprite.aiSettings);
     }
 
     removePet(petId: string): void {
-        // Stop AI timer for this pet
-        petAIManager.stopAITimer(petId);
+        // Remove this pet from the AI schedule
+        petAIManager.removePet(petId);
+        petChatService.removePet(petId);
+        personaService.removePet(petId);
+        petPositionService.removePet(petId);
+        bubbleQueue.removePet(petId);
+        this.streamingBubbles.delete(petId);
+        if (this.breathingPetId === petId) breathingService.stop();
+
+        if (this.chattingPetId === petId) {
+            window.dispatchEvent(new CustomEvent(OverlayEventType.PetChatClose));
+            window.dispatchEvent(new CustomEvent(OverlayEventType.PetQuickMenuClose));
+        }
         
         this.pets = this.pets.filter((pet: Pet, index: number) => {
             if (pet.id === petId) {
@@ -592,6 +865,12 @@ export default class Pets extends Phaser.Scene {
     }
 
     getOneRandomState(pet: Pet): string {
+        // pets sit quietly next to the user during a focus session or a breathing exercise
+        if (pet.id === this.breathingPetId || isFocusing(useSettingStore.getState().focusTimer, Date.now())) {
+            const restingState = this.RESTING_STATES.find((state) => pet.availableStates.includes(state));
+            if (restingState) return restingState;
+        }
+
         let randomStateIndex;
 
         do {
@@ -729,6 +1008,12 @@ export default class Pets extends Phaser.Scene {
             return;
         }
 
+        // the pet is listening to the user, don't let it walk away from the chat input
+        if (pet.id === this.chattingPetId) return;
+        // the pet is acting out its message, keep playing that state until the bubble is gone
+        if (this.actingPets.has(pet.id)) return;
+        if (pet.id === this.breathingPetId) return;
+
         switch (pet.anims.getName()) {
             case this.configManager.getStateName("climb", pet):
                 return;
@@ -954,54 +1239,297 @@ export default class Pets extends Phaser.Scene {
         }
     }
 
+    openChatWithPet(pet: Pet): void {
+        window.dispatchEvent(
+            new CustomEvent(OverlayEventType.PetChatOpen, { detail: this.holdPetForOverlay(pet) })
+        );
+    }
+
+    openQuickMenuForPet(pet: Pet): void {
+        const detail: IPetQuickMenuOpenDetail = this.holdPetForOverlay(pet);
+        window.dispatchEvent(
+            new CustomEvent(OverlayEventType.PetQuickMenuOpen, { detail })
+        );
+    }
+
     /**
-     * Khởi tạo AI cho tất cả pets hiện có
+     * keep the pet still and capture the cursor while a chat or menu is open next to it
      */
-    private initializeAIForAllPets(): void {
-        this.pets.forEach(pet => {
-            this.initializeAIForPet(pet);
-        });
-        console.log(`🚀 AI initialized for ${this.pets.length} pets`);
+    private holdPetForOverlay(pet: Pet): IPetChatOpenDetail {
+        this.releaseChattingPet();
+        this.chattingPetId = pet.id;
+
+        // keep the pet still while chatting if it is standing on the ground
+        if (this.getPetBoundDown(pet) && pet.availableStates.includes("idle")) {
+            this.switchState(pet, "idle");
+        }
+        pet.canPlayRandomState = false;
+
+        this.inputManager.setCursorCaptured(true);
+
+        return {
+            petId: pet.id,
+            x: pet.x,
+            y: pet.y - (pet.height * Math.abs(pet.scaleY)) / 2,
+        };
+    }
+
+    releaseChattingPet(): void {
+        if (!this.chattingPetId) return;
+
+        const pet = this.pets.find((pet) => pet.id === this.chattingPetId);
+        // the quick menu may have started a breathing exercise with this pet
+        if (pet && pet.id !== this.breathingPetId) pet.canPlayRandomState = true;
+
+        this.chattingPetId = null;
+        this.inputManager.setCursorCaptured(false);
+    }
+
+    trackPetPositions(): void {
+        for (const pet of this.pets) {
+            if (!pet || !pet.id) continue;
+            const halfHeight = pet.displayHeight / 2;
+            petPositionService.updatePosition(pet.id, {
+                x: pet.x,
+                top: pet.y - halfHeight,
+                bottom: pet.y + halfHeight,
+            });
+        }
     }
 
     /**
-     * Khởi tạo AI cho một pet cụ thể
+     * Đưa một pet vào lịch lời nhắn AI chung
      */
-    private initializeAIForPet(pet: Pet): void {
+    private initializeAIForPet(pet: Pet, aiSettings: IPetAISettings = DEFAULT_PET_AI_SETTINGS): void {
         if (!pet || !pet.id) return;
 
-        const config = {
-            petId: pet.id,
-            minIntervalMs: 60000,  // 1 phút
-            maxIntervalMs: 180000, // 3 phút
+        petAIManager.addPet({ petId: pet.id, settings: aiSettings, actions: this.getExpressiveStates(pet) }, (message: AIMessage) => {
+            this.handleAIMessage(message);
+        });
+    }
+
+    /**
+     * Xử lý AI message và đưa vào hàng đợi bong bóng, lời nhắc nghỉ ngơi được ưu tiên hơn.
+     * Lời nhắn đang stream cập nhật dần bong bóng của nó thay vì thêm bong bóng mới
+     */
+    private handleAIMessage(message: AIMessage): void {
+        const stream = this.streamingBubbles.get(message.petId);
+        const streamBubbleId = stream && stream.streamId === message.streamId ? stream.bubbleId : null;
+        if (!message.isStreaming) this.streamingBubbles.delete(message.petId);
+
+        if (message.isCancelled) {
+            if (streamBubbleId !== null) bubbleQueue.cancel(streamBubbleId);
+            return;
+        }
+
+        if (!message.isStreaming) {
+            console.log(`💭 AI Message from pet ${message.petId}: ${message.text}`);
+            this.lastSpeakingPetId = message.petId;
+        }
+
+        // instead of only telling the user to take a break, the pet breathes with them
+        if (
+            !message.isStreaming &&
+            message.isLongSessionMessage &&
+            useSettingStore.getState().breathing.onLongSession &&
+            breathingService.start(message.petId, message.text)
+        ) {
+            if (streamBubbleId !== null) bubbleQueue.cancel(streamBubbleId);
+            return;
+        }
+
+        const details = {
+            ratingId: message.ratingId,
+            action: message.action ?? undefined,
+            isStreaming: message.isStreaming,
         };
+        if (streamBubbleId !== null && bubbleQueue.update(streamBubbleId, message.text, details)) return;
 
-        petAIManager.startAITimer(config, (message: AIMessage) => {
-            this.handleAIMessage(message);
+        const bubbleId = bubbleQueue.enqueue({
+            text: message.text,
+            petId: message.petId,
+            priority: message.isLongSessionMessage ? BubblePriority.Reminder : BubblePriority.Chatter,
+            ...details,
         });
+        if (message.isStreaming && message.streamId && bubbleId !== null) {
+            this.streamingBubbles.set(message.petId, { streamId: message.streamId, bubbleId });
+        }
+    }
 
-        console.log(`🤖 AI started for pet ${pet.id}`);
+    /**
+     * states a pet can play while talking without moving around, offered to the AI as actions
+     */
+    private getExpressiveStates(pet: Pet): string[] {
+        return pet.availableStates.filter(
+            (state) => state !== "walk" && !this.FORBIDDEN_RAND_STATE.includes(state)
+        );
     }
 
     /**
-     * Xử lý AI message và emit event để hiển thị ThoughtBubble
+     * start the action of a bubble that just appeared, and give the pet back its random
+     * behaviour once the bubble is gone
      */
-    private handleAIMessage(message: AIMessage): void {
-        console.log(`💭 AI Message from pet ${message.petId}: ${message.text}`);
-        
-        // Emit custom event để App component nhận và hiển thị ThoughtBubble
-        const event = new CustomEvent('ai-message', {
-            detail: message
+    private syncPetActions(): void {
+        const activeBubbles = bubbleQueue.getActiveBubbles();
+
+        for (const [petId, bubbleId] of Array.from(this.actingPets.entries())) {
+            if (activeBubbles.some(({ message }) => message.id === bubbleId)) continue;
+
+            this.actingPets.delete(petId);
+            const pet = this.pets.find((pet) => pet.id === petId);
+            if (!pet || pet.id === this.chattingPetId || pet.id === this.breathingPetId) continue;
+            pet.canPlayRandomState = true;
+            this.switchState(pet, this.getOneRandomState(pet));
+        }
+
+        for (const { message } of activeBubbles) {
+            if (!message.petId || !message.action || this.actingPets.has(message.petId)) continue;
+
+            const pet = this.pets.find((pet) => pet.id === message.petId);
+            // only act when standing on the ground and not busy with the user
+            if (!pet || pet.id === this.chattingPetId || pet.id === this.breathingPetId || !this.getPetBoundDown(pet)) continue;
+
+            this.actingPets.set(pet.id, message.id);
+            pet.canPlayRandomState = false;
+            this.switchState(pet, message.action);
+        }
+    }
+
+    /**
+     * the pet that spoke last, it is the one that talks about the focus timer and reminders
+     */
+    private getLeadPet(): Pet | undefined {
+        return this.pets.find((pet) => pet.id === this.lastSpeakingPetId) ?? this.pets[0];
+    }
+
+    /**
+     * settle the pets for the new phase of the focus timer (sitting during focus, free during breaks)
+     * and let one of them talk about it, a long break comes with a short stretch led by the pet
+     */
+    private reactToFocusPhase(phase: FocusPhase, previous: FocusPhase): void {
+        for (const pet of this.pets) {
+            if (pet.id === this.chattingPetId || pet.id === this.breathingPetId || this.actingPets.has(pet.id) || !this.getPetBoundDown(pet)) continue;
+            this.switchState(pet, this.getOneRandomState(pet));
+        }
+
+        // the pet window was reopened in the middle of a phase, the pets already talked about it
+        if (phase === previous || useSettingStore.getState().presentationMode) return;
+
+        const pet = this.getLeadPet();
+        if (!pet) return;
+
+        const { focusTimer, userProfile } = useSettingStore.getState();
+        const address = getAddressTerm(userProfile);
+        const say = (text: string, actions: string[]) => bubbleQueue.enqueue({
+            text,
+            petId: pet.id,
+            priority: BubblePriority.Reminder,
+            action: actions.find((action) => pet.availableStates.includes(action)),
+        });
+
+        switch (phase) {
+            case FocusPhase.Focus:
+                say(
+                    previous === FocusPhase.Idle
+                        ? `Bắt đầu ${focusTimer.plan.focusMinutes} phút tập trung nào, tụi mình ngồi im bên cạnh ${address} nhé 🤫`
+                        : `Hết giờ nghỉ rồi, mình cùng tập trung tiếp nha ${address}! 💪`,
+                    this.RESTING_STATES,
+                );
+                break;
+            case FocusPhase.ShortBreak:
+                say(`Xong một phiên rồi, giỏi quá! Nghỉ ${focusTimer.plan.shortBreakMinutes} phút đi ${address} ơi 🌸`, ["greet", "stand"]);
+                break;
+            case FocusPhase.LongBreak:
+                say(`Được ${focusTimer.completedSessions} phiên rồi đó! Nghỉ dài ${focusTimer.plan.longBreakMinutes} phút, giãn cơ cùng mình nhé 🧘`, ["greet", "stand"]);
+                STRETCH_STEPS.forEach((step, index) => say(step, index % 2 === 0 ? ["stand", "greet"] : ["greet", "stand"]));
+                break;
+            default:
+                break;
+        }
+    }
+
+    /**
+     * the pet that spoke last says the reminder, with buttons to mark it as done or snooze it
+     */
+    private async showReminder(reminder: IReminder): Promise<void> {
+        const pet = this.getLeadPet();
+        if (!pet) return;
+
+        const text = await reminderService.getMessage(reminder, personaService.getPersona(pet.id));
+        // the pet may have been removed while the AI was phrasing the reminder
+        if (!this.pets.includes(pet)) return;
+
+        bubbleQueue.enqueue({
+            text,
+            petId: pet.id,
+            priority: BubblePriority.Reminder,
+            action: ["greet", "stand"].find((action) => pet.availableStates.includes(action)),
+            reminderId: reminder.id,
         });
-        window.dispatchEvent(event);
     }
 
     /**
-     * Cleanup khi scene bị destroy
+     * hold the pet leading a breathing exercise, it walks to the middle of the screen when the user
+     * wants it to, then plays a resting state slowly
      */
-    shutdown(): void {
-        // Stop all AI timers
-        petAIManager.stopAllTimers();
-        console.log("🛑 All AI timers stopped - Scene shutdown");
+    private startBreathing(run: IBreathingRun): void {
+        const pet = this.pets.find((pet) => pet.id === run.petId);
+        if (!pet) {
+            breathingService.stop();
+            return;
+        }
+
+        this.breathingPetId = pet.id;
+        this.actingPets.delete(pet.id);
+        pet.canPlayRandomState = false;
+        pet.anims.timeScale = this.BREATHING_TIME_SCALE;
+
+        const rest = () => {
+            if (this.breathingPetId !== pet.id) return;
+            this.switchState(pet, this.getOneRandomState(pet));
+        };
+
+        const centerX = this.physics.world.bounds.width / 2;
+        const distance = Math.abs(centerX - pet.x);
+        if (!useSettingStore.getState().breathing.moveToCenter || !this.getPetBoundDown(pet) || distance < pet.displayWidth / 2) {
+            rest();
+            return;
+        }
+
+        this.setPetLookToTheLeft(pet, centerX < pet.x);
+        this.switchState(pet, "walk");
+        // the tween moves the pet, disable the body so its velocity does not fight it
+        if (pet.body!.enable) pet.body!.enable = false;
+        this.tweens.add({
+            targets: pet,
+            x: centerX,
+            duration: Math.min((distance / this.PET_MOVE_VELOCITY) * 1000, this.BREATHING_WALK_MAX_DURATION),
+            ease: Ease.Power0,
+            onComplete: () => {
+                if (!pet.body) return;
+                pet.body.enable = true;
+                rest();
+            },
+        });
+    }
+
+    private endBreathing({ run, completed }: IBreathingEndDetail): void {
+        if (this.breathingPetId !== run.petId) return;
+        this.breathingPetId = null;
+
+        const pet = this.pets.find((pet) => pet.id === run.petId);
+        if (!pet || !pet.anims) return;
+
+        pet.anims.timeScale = 1;
+        if (pet.id !== this.chattingPetId) pet.canPlayRandomState = true;
+
+        if (completed && !useSettingStore.getState().presentationMode) {
+            bubbleQueue.enqueue({
+                text: `Thở xong rồi, thấy nhẹ nhõm hơn chưa ${getAddressTerm(useSettingStore.getState().userProfile)}? 🌿`,
+                petId: pet.id,
+                priority: BubblePriority.Reminder,
+                action: ["greet", "stand"].find((action) => pet.availableStates.includes(action)),
+            });
+        }
     }
 }
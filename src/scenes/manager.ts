@@ -2,6 +2,7 @@ import { convertFileSrc, invoke } from "@tauri-apps/api/tauri";
 import { ISpriteConfig, SpriteType } from "../types/ISpriteConfig";
 import { appWindow } from "@tauri-apps/api/window";
 import { error } from "tauri-plugin-log-api";
+import { timeTracker } from "../services/timeTrackingService";
 
 export class ConfigManager {
     // Config for sprite sheet that's going to be loaded
@@ -265,6 +266,8 @@ export class ConfigManager {
 export class InputManager {
     private input: Phaser.Input.InputPlugin | undefined;
     private isIgnoreCursorEvents: boolean = false;
+    // when true the overlay keeps receiving the cursor everywhere, e.g. while the chat input is open
+    private isCursorCaptured: boolean = false;
 
     private readonly IGNORE_CURSOR_EVENTS_DELAY: number = 50;
 
@@ -272,10 +275,29 @@ export class InputManager {
         this.input = input;
     }
 
-    public checkIsMouseInOnPet(): void {
+    public setCursorCaptured(captured: boolean): void {
+        this.isCursorCaptured = captured;
+
+        if (captured) {
+            this.turnOffIgnoreCursorEvents();
+            return;
+        }
+
+        this.turnOnIgnoreCursorEvents();
+    }
+
+    public checkIsMouseInOnPet(includePets: boolean = true): void {
+        if (this.isCursorCaptured) return;
+
         try {
             invoke("get_mouse_position").then((event: any) => {
-                if (this.detectMouseOverPet(event.clientX, event.clientY)) {
+                // the same polling tells whether the user is at the computer
+                if (event) timeTracker.recordMousePosition(event.clientX, event.clientY);
+
+                if (
+                    (includePets && this.detectMouseOverPet(event.clientX, event.clientY)) ||
+                    this.detectMouseOverOverlayElement(event.clientX, event.clientY)
+                ) {
                     this.turnOffIgnoreCursorEvents();
                     return;
                 }
@@ -307,6 +329,8 @@ export class InputManager {
             if (!this.isIgnoreCursorEvents) {
                 // slight delay to avoid crash when call setIgnoreCursorEvents too fast
                 setTimeout(() => {
+                    // the cursor may have been captured again during the delay
+                    if (this.isCursorCaptured) return;
                     appWindow.setIgnoreCursorEvents(true).then(() => {
                         this.isIgnoreCursorEvents = true;
                     });
@@ -320,6 +344,20 @@ export class InputManager {
         }
     }
 
+    /**
+     * react elements on top of the game (e.g. thought bubbles) mark themselves with data-overlay-hit
+     * to receive the cursor like a pet does
+     */
+    private detectMouseOverOverlayElement(clientX: number, clientY: number): boolean {
+        const x = clientX / window.devicePixelRatio;
+        const y = clientY / window.devicePixelRatio;
+
+        return Array.from(document.querySelectorAll("[data-overlay-hit]")).some((element) => {
+            const rect = element.getBoundingClientRect();
+            return x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom;
+        });
+    }
+
     private detectMouseOverPet(clientX: number, clientY: number): boolean {
         try {
             if (!this.input) {
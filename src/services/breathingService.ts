@@ -0,0 +1,101 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { OverlayEventType } from "../types/IEvents";
+import { IBreathingEndDetail, IBreathingRun, IBreathingSession } from "../types/IBreathing";
+import { useSettingStore } from "../hooks/useSettingStore";
+import { getBreathingDurationMs } from "../utils/breathing";
+import { timeTracker } from "./timeTrackingService";
+
+/**
+ * Bài tập thở do một pet dẫn, chạy trong cửa sổ pet. Scene và bong bóng hướng dẫn nghe sự kiện
+ * BreathingStart/BreathingEnd, các phiên thở xong được ghi vào breathing_sessions.json
+ */
+class BreathingService {
+  private current: IBreathingRun | null = null;
+  private sessions: IBreathingSession[] | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly MAX_SESSIONS = 500;
+
+  public invalidate(): void {
+    this.sessions = null;
+  }
+
+  public async getSessions(): Promise<IBreathingSession[]> {
+    return this.load();
+  }
+
+  public isActive(): boolean {
+    return this.current !== null;
+  }
+
+  public getCurrent(): IBreathingRun | null {
+    return this.current;
+  }
+
+  /**
+   * Bắt đầu bài tập thở theo cài đặt hiện tại với một pet
+   * @param intro Câu pet nói trước khi bắt đầu, ví dụ nhắc người dùng đã làm việc lâu
+   * @returns false nếu đang có một bài tập khác
+   */
+  public start(petId: string, intro?: string): boolean {
+    if (this.current) return false;
+
+    const { pattern, cycles } = useSettingStore.getState().breathing;
+    const run: IBreathingRun = { petId, pattern: { ...pattern }, cycles, startedAt: Date.now(), intro };
+    this.current = run;
+    this.timer = setTimeout(() => this.finish(true), getBreathingDurationMs(pattern, cycles));
+
+    console.log(`🌬️ Pet ${petId} dẫn bài tập thở ${cycles} vòng`);
+    window.dispatchEvent(new CustomEvent(OverlayEventType.BreathingStart, { detail: run }));
+    return true;
+  }
+
+  /**
+   * Người dùng dừng giữa chừng, hoặc pet dẫn bài tập bị xóa
+   */
+  public stop(): void {
+    this.finish(false);
+  }
+
+  private finish(completed: boolean): void {
+    const run = this.current;
+    if (!run) return;
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.current = null;
+
+    if (completed) {
+      console.log("🌬️ Đã thở xong, bắt đầu tính lại thời gian làm việc");
+      // thở xong cũng là một lần nghỉ
+      timeTracker.resetTimer();
+      this.record({ startedAt: run.startedAt, endedAt: Date.now(), pattern: run.pattern, cycles: run.cycles });
+    } else {
+      console.log("🌬️ Bài tập thở đã dừng giữa chừng");
+    }
+
+    const detail: IBreathingEndDetail = { run, completed };
+    window.dispatchEvent(new CustomEvent(OverlayEventType.BreathingEnd, { detail }));
+  }
+
+  private async record(session: IBreathingSession): Promise<void> {
+    const sessions = await this.load();
+    this.save([...sessions, session].slice(-this.MAX_SESSIONS));
+  }
+
+  private async load(): Promise<IBreathingSession[]> {
+    if (!this.sessions) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.BREATHING_SESSIONS, withErrorDialog: false });
+      this.sessions = Array.isArray(saved) ? saved : [];
+    }
+    return this.sessions!;
+  }
+
+  private save(sessions: IBreathingSession[]): void {
+    this.sessions = sessions;
+    setConfig({ configName: DefaultConfigName.BREATHING_SESSIONS, newConfig: sessions });
+  }
+}
+
+// Export singleton instance
+export const breathingService = new BreathingService();
@@ -0,0 +1,201 @@
+import { BubblePriority, IActiveBubble, IBubbleMessage, IBubbleRequest } from '../types/IBubble';
+import { useSettingStore } from '../hooks/useSettingStore';
+
+export const DEFAULT_BUBBLE_TTL_MS: Record<BubblePriority, number> = {
+  [BubblePriority.Chatter]: 2 * 60 * 1000,
+  [BubblePriority.Chat]: 60 * 1000,
+  [BubblePriority.Reminder]: 10 * 60 * 1000,
+  [BubblePriority.System]: 5 * 60 * 1000,
+};
+
+// bubbles without a pet share this slot and are shown in the corner of the screen
+const SYSTEM_SLOT = "system";
+
+/**
+ * Hàng đợi bong bóng của overlay: mỗi pet hiện một bong bóng tại một thời điểm,
+ * các lời nhắn khác chờ theo độ ưu tiên và bị bỏ nếu chờ quá lâu
+ */
+class BubbleQueueService {
+  private queues: Map<string, IBubbleMessage[]> = new Map();
+  private active: Map<string, IActiveBubble> = new Map();
+  private listeners: Set<() => void> = new Set();
+  // danh sách bong bóng đang hiện, giữ nguyên tham chiếu giữa các lần đọc cho useSyncExternalStore
+  private snapshot: IActiveBubble[] = [];
+  private nextId = 0;
+  private readonly MAX_QUEUE_LENGTH = 10;
+
+  /**
+   * Thêm một bong bóng vào hàng đợi, trả về id của nó (null nếu bị bỏ vì trùng hoặc đang ở chế độ thuyết trình)
+   */
+  public enqueue(request: IBubbleRequest): number | null {
+    // đang thuyết trình thì không bong bóng nào được hiện, kể cả câu trả lời chat hay thông báo hệ thống
+    if (useSettingStore.getState().presentationMode) return null;
+
+    const slot = request.petId ?? SYSTEM_SLOT;
+    const priority = request.priority ?? BubblePriority.Chatter;
+    const now = Date.now();
+
+    // cùng nội dung đang hiện hoặc đang chờ thì không thêm nữa
+    const queue = this.pruneExpired(slot, now);
+    if (this.active.get(slot)?.message.text === request.text || queue.some((message) => message.text === request.text)) {
+      return null;
+    }
+
+    const message: IBubbleMessage = {
+      id: this.nextId++,
+      text: request.text,
+      petId: request.petId,
+      priority,
+      createdAt: now,
+      expiresAt: now + (request.ttlMs ?? DEFAULT_BUBBLE_TTL_MS[priority]),
+      ratingId: request.ratingId,
+      action: request.action,
+      isStreaming: request.isStreaming,
+      reminderId: request.reminderId,
+    };
+
+    queue.push(message);
+    // ưu tiên cao trước, cùng ưu tiên thì cũ trước
+    queue.sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt);
+    this.queues.set(slot, queue.slice(0, this.MAX_QUEUE_LENGTH));
+
+    const current = this.active.get(slot);
+    if (!current) {
+      this.showNext(slot);
+    } else if (priority > current.message.priority && !current.dismissRequested && !current.pinned) {
+      // không cắt ngang bong bóng, chỉ yêu cầu nó mờ đi sớm
+      this.active.set(slot, { ...current, dismissRequested: true });
+      this.emitChange();
+    }
+
+    return message.id;
+  }
+
+  /**
+   * Thay nội dung của một bong bóng đang hiện hoặc đang chờ (ví dụ câu trả lời chat đang stream)
+   * @param changes Các thông tin khác chỉ có khi stream xong (id chấm điểm, hành động của pet...)
+   * @returns false nếu bong bóng đã biến mất, khi đó nên thêm bong bóng mới
+   */
+  public update(id: number, text: string, changes: Partial<Pick<IBubbleMessage, "ratingId" | "action" | "isStreaming">> = {}): boolean {
+    for (const [slot, bubble] of Array.from(this.active.entries())) {
+      if (bubble.message.id !== id) continue;
+      this.active.set(slot, { ...bubble, message: { ...bubble.message, ...changes, text } });
+      this.emitChange();
+      return true;
+    }
+
+    for (const queue of Array.from(this.queues.values())) {
+      const message = queue.find((item) => item.id === id);
+      if (message) {
+        Object.assign(message, changes, { text });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Bỏ một bong bóng không còn cần nữa (ví dụ lời nhắn đang stream bị hủy):
+   * bỏ khỏi hàng đợi nếu chưa hiện, mờ đi nếu đang hiện
+   */
+  public cancel(id: number): void {
+    for (const [slot, queue] of Array.from(this.queues.entries())) {
+      if (queue.some((message) => message.id === id)) {
+        this.queues.set(slot, queue.filter((message) => message.id !== id));
+        return;
+      }
+    }
+    this.dismiss(id);
+  }
+
+  /**
+   * Người dùng đóng bong bóng sớm, kể cả khi nó đang được ghim
+   */
+  public dismiss(id: number): void {
+    this.updateActive(id, { dismissRequested: true, pinned: false });
+  }
+
+  /**
+   * Ghim để bong bóng không tự mờ đi, bỏ ghim thì bong bóng hiện tiếp như bình thường
+   */
+  public setPinned(id: number, pinned: boolean): void {
+    const slot = Array.from(this.active.keys()).find((key) => this.active.get(key)?.message.id === id);
+    if (!slot) return;
+
+    // một lời nhắn quan trọng hơn đã chờ trong lúc ghim thì nhường chỗ cho nó ngay
+    const current = this.active.get(slot)!;
+    const hasMoreImportant = this.pruneExpired(slot, Date.now()).some((message) => message.priority > current.message.priority);
+    this.updateActive(id, { pinned, dismissRequested: !pinned && hasMoreImportant });
+  }
+
+  /**
+   * Gọi khi bong bóng đã mờ hẳn, bong bóng tiếp theo của cùng pet sẽ được hiện
+   */
+  public complete(id: number): void {
+    for (const [slot, bubble] of Array.from(this.active.entries())) {
+      if (bubble.message.id !== id) continue;
+      this.active.delete(slot);
+      this.showNext(slot);
+      return;
+    }
+  }
+
+  /**
+   * Bỏ mọi bong bóng của một pet (khi pet bị xóa)
+   */
+  public removePet(petId: string): void {
+    this.queues.delete(petId);
+    if (this.active.delete(petId)) this.emitChange();
+  }
+
+  /**
+   * Bỏ toàn bộ bong bóng đang hiện và đang chờ
+   */
+  public clear(): void {
+    this.queues.clear();
+    this.active.clear();
+    this.emitChange();
+  }
+
+  public getActiveBubbles = (): IActiveBubble[] => {
+    return this.snapshot;
+  };
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private updateActive(id: number, changes: Partial<Omit<IActiveBubble, "message">>): void {
+    for (const [slot, bubble] of Array.from(this.active.entries())) {
+      if (bubble.message.id !== id) continue;
+      this.active.set(slot, { ...bubble, ...changes });
+      this.emitChange();
+      return;
+    }
+  }
+
+  private showNext(slot: string): void {
+    const [next, ...rest] = this.pruneExpired(slot, Date.now());
+    if (next) {
+      this.active.set(slot, { message: next, dismissRequested: false, pinned: false });
+    }
+    this.queues.set(slot, rest);
+    this.emitChange();
+  }
+
+  private pruneExpired(slot: string, now: number): IBubbleMessage[] {
+    return (this.queues.get(slot) ?? []).filter((message) => message.expiresAt > now);
+  }
+
+  private emitChange(): void {
+    this.snapshot = Array.from(this.active.values());
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Export singleton instance
+export const bubbleQueue = new BubbleQueueService();
@@ -0,0 +1,118 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { CredentialProvider, ICredential, ICredentialStore, ICredentialTestResult } from "../types/ICredential";
+
+/**
+ * Service quản lý API key do người dùng nhập, lưu trong thư mục cấu hình của ứng dụng
+ * (credentials.json) thay vì biên dịch sẵn vào bundle
+ */
+class CredentialService {
+  private store: ICredentialStore | null = null;
+
+  /**
+   * Đọc lại file credentials ở lần truy cập tiếp theo (gọi khi cửa sổ khác vừa thay đổi key)
+   */
+  public invalidate(): void {
+    this.store = null;
+  }
+
+  public async getCredentials(provider: CredentialProvider): Promise<ICredential[]> {
+    const store = await this.load();
+    return store[provider] ?? [];
+  }
+
+  /**
+   * Lấy danh sách key theo thứ tự ưu tiên để chạy failover
+   */
+  public async getKeys(provider: CredentialProvider): Promise<string[]> {
+    const credentials = await this.getCredentials(provider);
+    return credentials.map((credential) => credential.key).filter((key) => key.trim() !== "");
+  }
+
+  public async hasKeys(provider: CredentialProvider): Promise<boolean> {
+    return (await this.getKeys(provider)).length > 0;
+  }
+
+  public async addCredential(provider: CredentialProvider, label: string, key: string): Promise<ICredential> {
+    const store = await this.load();
+    const credential: ICredential = {
+      id: crypto.randomUUID(),
+      label: label.trim() || `Key ${(store[provider]?.length ?? 0) + 1}`,
+      key: key.trim(),
+      createdAt: Date.now(),
+    };
+
+    store[provider] = [...(store[provider] ?? []), credential];
+    await this.save(store);
+    return credential;
+  }
+
+  /**
+   * Thay giá trị key nhưng giữ nguyên vị trí và nhãn của nó
+   */
+  public async rotateCredential(provider: CredentialProvider, id: string, newKey: string): Promise<void> {
+    const store = await this.load();
+    store[provider] = (store[provider] ?? []).map((credential) =>
+      credential.id === id ? { ...credential, key: newKey.trim(), rotatedAt: Date.now() } : credential
+    );
+    await this.save(store);
+  }
+
+  public async deleteCredential(provider: CredentialProvider, id: string): Promise<void> {
+    const store = await this.load();
+    store[provider] = (store[provider] ?? []).filter((credential) => credential.id !== id);
+    await this.save(store);
+  }
+
+  /**
+   * Gửi một request nhẹ để kiểm tra key có dùng được không
+   * @param baseUrl Chỉ dùng cho server OpenAI-compatible
+   */
+  public async testCredential(provider: CredentialProvider, key: string, baseUrl?: string): Promise<ICredentialTestResult> {
+    try {
+      let response: Response;
+
+      switch (provider) {
+        case CredentialProvider.Gemini:
+          response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(key)}`);
+          break;
+        case CredentialProvider.OpenAICompatible:
+          response = await fetch(`${(baseUrl ?? "").replace(/\/+$/, "")}/models`, {
+            headers: { 'Authorization': `Bearer ${key}` },
+          });
+          break;
+        case CredentialProvider.OpenWeatherMap:
+          response = await fetch(`https://api.openweathermap.org/data/2.5/weather?q=London&appid=${encodeURIComponent(key)}`);
+          break;
+        default:
+          return { ok: false, error: "Nhà cung cấp không được hỗ trợ" };
+      }
+
+      if (!response.ok) {
+        return { ok: false, error: `HTTP ${response.status}: ${response.statusText}` };
+      }
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : "Lỗi không xác định" };
+    }
+  }
+
+  private async load(): Promise<ICredentialStore> {
+    if (!this.store) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.CREDENTIALS, withErrorDialog: false });
+      this.store = saved ?? {};
+    }
+    return this.store!;
+  }
+
+  /**
+   * Chờ ghi xong file, cửa sổ pet chỉ được báo đọc lại sau đó
+   */
+  private async save(store: ICredentialStore): Promise<void> {
+    this.store = store;
+    await setConfig({ configName: DefaultConfigName.CREDENTIALS, newConfig: store });
+  }
+}
+
+// Export singleton instance
+export const credentialService = new CredentialService();
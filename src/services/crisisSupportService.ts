@@ -0,0 +1,69 @@
+import { useSettingStore } from "../hooks/useSettingStore";
+import { ICrisisSupport } from "../types/ICrisisSupport";
+import { OverlayEventType } from "../types/IEvents";
+import { detectCrisis, getCrisisPhrases } from "../utils/crisisSupport";
+
+/**
+ * Theo dõi những gì người dùng viết, khi có dấu hiệu khủng hoảng thì hiện thẻ đường dây hỗ trợ
+ * và pets ngừng nói chuyện phiếm cho tới khi người dùng đóng thẻ
+ */
+class CrisisSupportService {
+  private current: ICrisisSupport | null = null;
+  // cụm từ đã tìm thấy trong chữ người dùng viết ở cài đặt, thẻ chỉ hiện một lần cho mỗi cụm
+  private writtenPhrases: Set<string> = new Set();
+
+  /**
+   * Kiểm tra tin nhắn của người dùng, hiện thẻ hỗ trợ nếu cần
+   * @returns true nếu tin nhắn có dấu hiệu khủng hoảng
+   */
+  public check(text: string): boolean {
+    const support = this.detect(text);
+    if (!support) return false;
+
+    console.warn(`🆘 Tin nhắn có dấu hiệu khủng hoảng ("${support.phrase}"), hiện thẻ hỗ trợ và tạm dừng lời nhắn tự phát`);
+    this.open(support);
+    return true;
+  }
+
+  /**
+   * Kiểm tra chữ người dùng viết ở cửa sổ cài đặt (lời nhắc, hồ sơ, trí nhớ). Những chữ này được gửi lại
+   * sau mỗi lần gõ phím, nên một cụm từ đã hiện thẻ rồi thì không hiện lại
+   */
+  public checkWrittenText(texts: string[]): void {
+    for (const text of texts) {
+      const support = this.detect(text);
+      if (!support || this.writtenPhrases.has(support.phrase)) continue;
+
+      console.warn(`🆘 Chữ người dùng viết trong cài đặt có dấu hiệu khủng hoảng ("${support.phrase}"), hiện thẻ hỗ trợ`);
+      this.writtenPhrases.add(support.phrase);
+      this.open(support);
+      return;
+    }
+  }
+
+  private detect(text: string): ICrisisSupport | null {
+    const { userProfile, crisisPhrases } = useSettingStore.getState();
+    return detectCrisis(text, userProfile.country, getCrisisPhrases(crisisPhrases));
+  }
+
+  private open(support: ICrisisSupport): void {
+    this.current = support;
+    window.dispatchEvent(new CustomEvent(OverlayEventType.CrisisSupportOpen, { detail: support }));
+  }
+
+  public isActive(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Người dùng đóng thẻ, pets nói chuyện lại như bình thường
+   */
+  public close(): void {
+    if (!this.current) return;
+    this.current = null;
+    console.log("💙 Đã đóng thẻ hỗ trợ, pets nói chuyện lại như bình thường");
+  }
+}
+
+// Export singleton instance
+export const crisisSupportService = new CrisisSupportService();
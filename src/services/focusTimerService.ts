@@ -0,0 +1,111 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { DispatchType } from "../types/IEvents";
+import { FocusPhase, IFocusSession, IFocusTimerState } from "../types/IFocusTimer";
+import { useSettingStore } from "../hooks/useSettingStore";
+import { handleSettingChange } from "../utils/handleSettingChange";
+import { advanceFocusTimer, getInterruptedSession } from "../utils/focusTimer";
+import { timeTracker } from "./timeTrackingService";
+
+type PhaseListener = (phase: FocusPhase, previous: FocusPhase) => void;
+
+/**
+ * Đồng hồ tập trung chạy trong cửa sổ pet: chuyển sang giai đoạn tiếp theo khi hết giờ, báo cho pets
+ * để phản ứng và ghi nhật ký các phiên vào focus_sessions.json. Trạng thái đồng hồ nằm trong settings.json
+ * nên mở lại cửa sổ pet thì đồng hồ vẫn chạy tiếp
+ */
+class FocusTimerService {
+  private sessions: IFocusSession[] | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // trạng thái ở lần kiểm tra trước, để nhận ra đồng hồ được bật/tắt từ menu hoặc cửa sổ cài đặt
+  private lastSeen: IFocusTimerState | null = null;
+  private listeners: Set<PhaseListener> = new Set();
+  private readonly TICK_MS = 1000;
+  private readonly MAX_SESSIONS = 500;
+
+  public invalidate(): void {
+    this.sessions = null;
+  }
+
+  public async getSessions(): Promise<IFocusSession[]> {
+    return this.load();
+  }
+
+  /**
+   * Được gọi mỗi khi đồng hồ sang giai đoạn mới, kể cả khi cửa sổ pet vừa mở lại giữa chừng (khi đó phase === previous)
+   * @returns Hàm hủy đăng ký
+   */
+  public onPhaseChange(listener: PhaseListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.lastSeen = null;
+    this.timer = setInterval(() => this.tick(), this.TICK_MS);
+    this.tick();
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const current = useSettingStore.getState().focusTimer;
+    const previous = this.lastSeen;
+
+    if (!previous) {
+      if (current.phase !== FocusPhase.Idle) {
+        console.log(`🍅 Đồng hồ tập trung đang chạy (${current.phase}), tiếp tục`);
+        this.emit(current.phase, current.phase);
+      }
+    } else if (current.phaseStartedAt !== previous.phaseStartedAt || current.phase !== previous.phase) {
+      // được bật, tắt hoặc bắt đầu lại từ nơi khác
+      const interrupted = getInterruptedSession(previous, now);
+      if (interrupted) this.record(interrupted);
+      console.log(`🍅 Đồng hồ tập trung: ${previous.phase} → ${current.phase}`);
+      this.emit(current.phase, previous.phase);
+    }
+
+    const { state, session } = advanceFocusTimer(current, now);
+    this.lastSeen = state;
+    if (!session) return;
+
+    this.record(session);
+    console.log(`🍅 Hết ${session.phase}, chuyển sang ${state.phase}`);
+    // nghỉ theo đồng hồ rồi thì không cần lời nhắc làm việc quá lâu nữa
+    if (state.phase === FocusPhase.ShortBreak || state.phase === FocusPhase.LongBreak) timeTracker.resetTimer();
+    handleSettingChange(DispatchType.ChangeFocusTimer, state);
+    this.emit(state.phase, current.phase);
+  }
+
+  private emit(phase: FocusPhase, previous: FocusPhase): void {
+    this.listeners.forEach((listener) => listener(phase, previous));
+  }
+
+  private async record(session: IFocusSession): Promise<void> {
+    const loaded = await this.load();
+    // nối vào nhật ký hiện tại, phiên bị ngắt và phiên mới có thể được ghi cùng lúc
+    this.save([...(this.sessions ?? loaded), session].slice(-this.MAX_SESSIONS));
+  }
+
+  private async load(): Promise<IFocusSession[]> {
+    if (!this.sessions) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.FOCUS_SESSIONS, withErrorDialog: false });
+      // một lần gọi khác có thể đã đọc và ghi thêm phiên trong lúc file đang được đọc
+      if (!this.sessions) this.sessions = Array.isArray(saved) ? saved : [];
+    }
+    return this.sessions!;
+  }
+
+  private save(sessions: IFocusSession[]): void {
+    this.sessions = sessions;
+    setConfig({ configName: DefaultConfigName.FOCUS_SESSIONS, newConfig: sessions });
+  }
+}
+
+// Export singleton instance
+export const focusTimerService = new FocusTimerService();
@@ -0,0 +1,159 @@
+import { ILLMRequest, LLMProvider, LLMProviderType, LLMResponseFormat } from "../../types/ILLM";
+import { CredentialProvider } from "../../types/ICredential";
+import { credentialService } from "../credentialService";
+import { parseSSEData, readResponseLines } from "./streamReader";
+
+export const GEMINI_DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+export const GEMINI_DEFAULT_MODEL = "gemini-1.5-flash-latest";
+
+/**
+ * Provider cho Google Gemini (generateContent) với cơ chế failover giữa các API key người dùng đã thêm
+ */
+export class GeminiProvider implements LLMProvider {
+  public readonly type = LLMProviderType.Gemini;
+  private currentApiKeyIndex = 0;
+
+  constructor(
+    private readonly baseUrl: string = GEMINI_DEFAULT_BASE_URL,
+    private readonly model: string = GEMINI_DEFAULT_MODEL,
+  ) {}
+
+  public async hasCredentials(): Promise<boolean> {
+    return credentialService.hasKeys(CredentialProvider.Gemini);
+  }
+
+  public async generate(request: ILLMRequest): Promise<string> {
+    return this.withKeyFailover((apiKey) => this.callGeminiAPI(apiKey, request));
+  }
+
+  public async stream(request: ILLMRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    let hasEmitted = false;
+    const emit = (chunk: string) => {
+      hasEmitted = true;
+      onChunk(chunk);
+    };
+    // người gọi đã hiện một phần câu trả lời, key khác sẽ trả lời lại từ đầu nên không thử nữa
+    return this.withKeyFailover((apiKey) => this.streamGeminiAPI(apiKey, request, emit, signal), () => !hasEmitted);
+  }
+
+  /**
+   * Thử lần lượt từng API key người dùng đã thêm cho tới khi có một key thành công
+   * @param canRetry false khi không được thử key khác sau lần lỗi vừa rồi
+   */
+  private async withKeyFailover(call: (apiKey: string) => Promise<string>, canRetry: () => boolean = () => true): Promise<string> {
+    const apiKeys = await credentialService.getKeys(CredentialProvider.Gemini);
+    if (apiKeys.length === 0) {
+      throw new Error("Chưa có API key Gemini nào được cấu hình");
+    }
+
+    let lastError = "";
+    // danh sách key có thể đã ngắn lại sau khi người dùng xóa bớt
+    this.currentApiKeyIndex = this.currentApiKeyIndex % apiKeys.length;
+
+    for (let attempt = 0; attempt < apiKeys.length; attempt++) {
+      const apiKey = apiKeys[this.currentApiKeyIndex];
+
+      try {
+        return await call(apiKey);
+      } catch (error) {
+        // người dùng chủ động hủy thì không thử key khác
+        if (error instanceof DOMException && error.name === "AbortError") throw error;
+
+        console.error(`Lỗi với API key ${this.currentApiKeyIndex + 1}:`, error);
+        lastError = error instanceof Error ? error.message : "Lỗi không xác định";
+
+        // Chuyển sang API key tiếp theo
+        this.currentApiKeyIndex = (this.currentApiKeyIndex + 1) % apiKeys.length;
+        if (!canRetry()) throw error;
+      }
+    }
+
+    throw new Error(`Tất cả API key đều lỗi. Lỗi cuối: ${lastError}`);
+  }
+
+  private async callGeminiAPI(apiKey: string, request: ILLMRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/models/${this.model}:generateContent?key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildRequestBody(request)),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!text) {
+      throw new Error("Không nhận được phản hồi hợp lệ từ Gemini");
+    }
+
+    return text.trim();
+  }
+
+  private async streamGeminiAPI(apiKey: string, request: ILLMRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/models/${this.model}:streamGenerateContent?alt=sse&key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildRequestBody(request)),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    let text = "";
+    await readResponseLines(response, (line) => {
+      const data = parseSSEData(line);
+      if (!data) return;
+
+      const chunk = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+      if (chunk) {
+        text += chunk;
+        onChunk(chunk);
+      }
+    });
+
+    if (!text.trim()) {
+      throw new Error("Không nhận được phản hồi hợp lệ từ Gemini");
+    }
+
+    return text.trim();
+  }
+
+  private buildRequestBody(request: ILLMRequest) {
+    return {
+      systemInstruction: {
+        parts: [{ text: request.systemInstruction }]
+      },
+      // Gemini gọi vai trò của AI là "model" thay vì "assistant"
+      contents: request.messages.map((message) => ({
+        role: message.role === "assistant" ? "model" : "user",
+        parts: [{ text: message.content }]
+      })),
+      generationConfig: {
+        temperature: request.temperature ?? 0.8,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: request.maxOutputTokens ?? 100,
+        ...(request.responseFormat === LLMResponseFormat.Json ? { responseMimeType: "application/json" } : {}),
+      },
+      safetySettings: [
+        {
+          category: "HARM_CATEGORY_HARASSMENT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_HATE_SPEECH",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        }
+      ]
+    };
+  }
+}
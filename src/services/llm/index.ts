@@ -0,0 +1,53 @@
+import { ILLMProviderConfig, LLMProvider, LLMProviderType } from "../../types/ILLM";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { GeminiProvider, GEMINI_DEFAULT_BASE_URL, GEMINI_DEFAULT_MODEL } from "./geminiProvider";
+import { OpenAICompatibleProvider, OPENAI_COMPATIBLE_DEFAULT_BASE_URL, OPENAI_COMPATIBLE_DEFAULT_MODEL } from "./openAICompatibleProvider";
+import { OllamaProvider, OLLAMA_DEFAULT_BASE_URL, OLLAMA_DEFAULT_MODEL } from "./ollamaProvider";
+import { MockProvider } from "./mockProvider";
+
+export const LLM_PROVIDER_DEFAULTS: Record<LLMProviderType, { baseUrl: string; model: string }> = {
+  [LLMProviderType.Gemini]: { baseUrl: GEMINI_DEFAULT_BASE_URL, model: GEMINI_DEFAULT_MODEL },
+  [LLMProviderType.OpenAICompatible]: { baseUrl: OPENAI_COMPATIBLE_DEFAULT_BASE_URL, model: OPENAI_COMPATIBLE_DEFAULT_MODEL },
+  [LLMProviderType.Ollama]: { baseUrl: OLLAMA_DEFAULT_BASE_URL, model: OLLAMA_DEFAULT_MODEL },
+  [LLMProviderType.Mock]: { baseUrl: "", model: "" },
+};
+
+/**
+ * Tạo provider theo cấu hình, bỏ trống baseUrl/model sẽ dùng giá trị mặc định của provider
+ */
+export function createLLMProvider(config: ILLMProviderConfig): LLMProvider {
+  const defaults = LLM_PROVIDER_DEFAULTS[config.type] ?? LLM_PROVIDER_DEFAULTS[LLMProviderType.Gemini];
+  // bỏ dấu "/" cuối để ghép endpoint không bị "//"
+  const baseUrl = (config.baseUrl.trim() || defaults.baseUrl).replace(/\/+$/, "");
+  const model = config.model.trim() || defaults.model;
+
+  switch (config.type) {
+    case LLMProviderType.OpenAICompatible:
+      return new OpenAICompatibleProvider(baseUrl, model);
+    case LLMProviderType.Ollama:
+      return new OllamaProvider(baseUrl, model);
+    case LLMProviderType.Mock:
+      return new MockProvider();
+    case LLMProviderType.Gemini:
+    default:
+      return new GeminiProvider(baseUrl, model);
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+let cachedConfigKey = "";
+
+/**
+ * Lấy provider đang được chọn trong cài đặt (tái sử dụng instance nếu cấu hình không đổi)
+ */
+export function getActiveLLMProvider(): LLMProvider {
+  const { aiProvider, aiBaseUrl, aiModel } = useSettingStore.getState();
+  const configKey = `${aiProvider}|${aiBaseUrl}|${aiModel}`;
+
+  if (!cachedProvider || configKey !== cachedConfigKey) {
+    cachedProvider = createLLMProvider({ type: aiProvider, baseUrl: aiBaseUrl, model: aiModel });
+    cachedConfigKey = configKey;
+  }
+
+  return cachedProvider;
+}
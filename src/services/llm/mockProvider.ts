@@ -0,0 +1,61 @@
+import { ILLMRequest, LLMProvider, LLMProviderType, LLMResponseFormat } from "../../types/ILLM";
+import { PetEmotion } from "../../types/IThought";
+
+const MOCK_MESSAGES = [
+  "Uống một ngụm nước nhé, cơ thể sẽ cảm ơn bạn đó~ 💧",
+  "Hôm nay bạn đã làm tốt lắm rồi! 🌟",
+  "Bạn có biết rái cá nắm tay nhau khi ngủ không? 🦦",
+  "Thả lỏng vai một chút nào, mình ở đây mà~ 🌸",
+  "Một bước nhỏ mỗi ngày cũng là tiến bộ đó! 💖",
+];
+
+const MOCK_STREAM_DELAY_MS = 60;
+
+/**
+ * Provider giả lập, luôn trả về cùng một câu cho cùng một prompt.
+ * Dùng để chạy pipeline thông điệp mà không cần mạng hay API key.
+ */
+export class MockProvider implements LLMProvider {
+  public readonly type = LLMProviderType.Mock;
+
+  public async hasCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  public async generate(request: ILLMRequest): Promise<string> {
+    const lastMessage = request.messages[request.messages.length - 1]?.content ?? "";
+    const hash = this.hashText(`${request.systemInstruction}${lastMessage}`);
+    const message = MOCK_MESSAGES[hash % MOCK_MESSAGES.length];
+
+    if (request.responseFormat === LLMResponseFormat.Json) {
+      const emotions = Object.values(PetEmotion);
+      return JSON.stringify({ message, emotion: emotions[hash % emotions.length], action: null });
+    }
+    return message;
+  }
+
+  /**
+   * Trả từng từ một để mô phỏng stream của provider thật
+   */
+  public async stream(request: ILLMRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    const text = await this.generate(request);
+
+    for (const word of text.split(/(?<= )/)) {
+      if (signal?.aborted) {
+        throw new DOMException("Stream đã bị hủy", "AbortError");
+      }
+      onChunk(word);
+      await new Promise((resolve) => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+    }
+
+    return text;
+  }
+
+  private hashText(text: string): number {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+      hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+}
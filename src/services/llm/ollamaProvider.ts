@@ -0,0 +1,83 @@
+import { ILLMRequest, LLMProvider, LLMProviderType, LLMResponseFormat } from "../../types/ILLM";
+import { readResponseLines } from "./streamReader";
+
+export const OLLAMA_DEFAULT_BASE_URL = "http://localhost:11434";
+export const OLLAMA_DEFAULT_MODEL = "llama3";
+
+/**
+ * Provider cho server Ollama chạy cục bộ (/api/chat)
+ */
+export class OllamaProvider implements LLMProvider {
+  public readonly type = LLMProviderType.Ollama;
+
+  constructor(
+    private readonly baseUrl: string = OLLAMA_DEFAULT_BASE_URL,
+    private readonly model: string = OLLAMA_DEFAULT_MODEL,
+  ) {}
+
+  public async hasCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  public async generate(request: ILLMRequest): Promise<string> {
+    const response = await this.postChat(request, false);
+
+    const data = await response.json();
+    const text = data.message?.content;
+
+    if (!text) {
+      throw new Error("Không nhận được phản hồi hợp lệ từ Ollama");
+    }
+
+    return text.trim();
+  }
+
+  public async stream(request: ILLMRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    const response = await this.postChat(request, true, signal);
+
+    // Ollama stream dạng NDJSON: mỗi dòng là một object JSON
+    let text = "";
+    await readResponseLines(response, (line) => {
+      const chunk = JSON.parse(line).message?.content;
+      if (chunk) {
+        text += chunk;
+        onChunk(chunk);
+      }
+    });
+
+    if (!text.trim()) {
+      throw new Error("Không nhận được phản hồi hợp lệ từ Ollama");
+    }
+
+    return text.trim();
+  }
+
+  private async postChat(request: ILLMRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: "system", content: request.systemInstruction },
+          ...request.messages,
+        ],
+        stream,
+        ...(request.responseFormat === LLMResponseFormat.Json ? { format: "json" } : {}),
+        options: {
+          temperature: request.temperature ?? 0.8,
+          num_predict: request.maxOutputTokens ?? 100,
+        },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response;
+  }
+}
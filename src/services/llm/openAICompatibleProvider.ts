@@ -0,0 +1,89 @@
+import { ILLMRequest, LLMProvider, LLMProviderType, LLMResponseFormat } from "../../types/ILLM";
+import { CredentialProvider } from "../../types/ICredential";
+import { credentialService } from "../credentialService";
+import { parseSSEData, readResponseLines } from "./streamReader";
+
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = "http://localhost:8080/v1";
+export const OPENAI_COMPATIBLE_DEFAULT_MODEL = "local-model";
+
+/**
+ * Provider cho các server tương thích OpenAI (/chat/completions), ví dụ LM Studio, llama.cpp, vLLM
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly type = LLMProviderType.OpenAICompatible;
+
+  constructor(
+    private readonly baseUrl: string = OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+    private readonly model: string = OPENAI_COMPATIBLE_DEFAULT_MODEL,
+  ) {}
+
+  // server chạy cục bộ thường không cần key nên key là tùy chọn
+  public async hasCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  public async generate(request: ILLMRequest): Promise<string> {
+    const response = await this.postChatCompletions(request, false);
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new Error("Không nhận được phản hồi hợp lệ từ server OpenAI-compatible");
+    }
+
+    return text.trim();
+  }
+
+  public async stream(request: ILLMRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    const response = await this.postChatCompletions(request, true, signal);
+
+    let text = "";
+    await readResponseLines(response, (line) => {
+      const data = parseSSEData(line);
+      // server gửi "[DONE]" khi kết thúc stream
+      if (!data || data === "[DONE]") return;
+
+      const chunk = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (chunk) {
+        text += chunk;
+        onChunk(chunk);
+      }
+    });
+
+    if (!text.trim()) {
+      throw new Error("Không nhận được phản hồi hợp lệ từ server OpenAI-compatible");
+    }
+
+    return text.trim();
+  }
+
+  private async postChatCompletions(request: ILLMRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const [apiKey] = await credentialService.getKeys(CredentialProvider.OpenAICompatible);
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: "system", content: request.systemInstruction },
+          ...request.messages,
+        ],
+        temperature: request.temperature ?? 0.8,
+        max_tokens: request.maxOutputTokens ?? 100,
+        ...(request.responseFormat === LLMResponseFormat.Json ? { response_format: { type: "json_object" } } : {}),
+        stream,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response;
+  }
+}
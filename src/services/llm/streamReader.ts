@@ -0,0 +1,37 @@
+/**
+ * Đọc body của response theo từng dòng khi dữ liệu được stream về
+ * (dùng chung cho Server-Sent Events và NDJSON)
+ */
+export async function readResponseLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response không có body để stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    // dòng cuối có thể chưa đầy đủ, giữ lại cho lần đọc sau
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) onLine(line.trim());
+    }
+  }
+
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+/**
+ * Lấy phần JSON sau tiền tố "data:" của một dòng Server-Sent Events, null nếu không phải dòng dữ liệu
+ */
+export function parseSSEData(line: string): string | null {
+  if (!line.startsWith("data:")) return null;
+  return line.slice("data:".length).trim();
+}
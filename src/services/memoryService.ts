@@ -0,0 +1,275 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { IMemoryFact, IMemoryMessage, IMemoryStore, IMemorySummary } from "../types/IMemory";
+import { getActiveLLMProvider } from "./llm";
+
+// Câu người dùng tự kể về bản thân, được ghi nhớ nguyên câu. Chỉ xét đầu câu, để những câu như
+// "hôm nay mình thấy mệt" hay "I'm a bit tired" không bị ghi nhớ
+const FACT_PATTERNS: RegExp[] = [
+  /^(tôi|mình|em|tớ)\s+(tên là|là (học sinh|sinh viên|người)|thích|không thích|ghét|sống ở|làm nghề|làm việc ở|đang học|sinh năm|bị dị ứng|sợ)\s+\S+/i,
+  /^(nhớ giúp|hãy nhớ|ghi nhớ giúp)\s+\S+/i,
+  /^(my name is|i live in|i work as|i work at|i study|i'm studying|i was born|i'm allergic to|i am allergic to|i like|i love|i hate|i'm afraid of)\s+\S+/i,
+  /^(please\s+)?remember (that|this)\s+\S+/i,
+];
+const MAX_FACT_LENGTH = 200;
+
+/**
+ * Ước lượng số token của một đoạn văn bản (khoảng 4 ký tự một token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tách những câu người dùng tự kể về bản thân trong một tin nhắn
+ */
+export function extractUserFacts(text: string): string[] {
+  return text
+    .split(/[.!?\n]+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0 && sentence.length <= MAX_FACT_LENGTH)
+    .filter((sentence) => FACT_PATTERNS.some((pattern) => pattern.test(sentence)));
+}
+
+/**
+ * Số tin nhắn đầu nhật ký vẫn là những tin nhắn đã được tóm tắt. So từng tin nhắn theo thứ tự
+ * chứ không theo thời gian, vì nhiều tin nhắn có thể cùng một timestamp
+ */
+export function countLeadingMessages(messages: IMemoryMessage[], summarized: IMemoryMessage[]): number {
+  let count = 0;
+  while (
+    count < summarized.length &&
+    count < messages.length &&
+    messages[count].timestamp === summarized[count].timestamp &&
+    messages[count].role === summarized[count].role &&
+    messages[count].content === summarized[count].content
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Service lưu trí nhớ của bạn đồng hành (memory.json trong thư mục cấu hình):
+ * nhật ký tin nhắn, những điều người dùng kể và bản tóm tắt các cuộc trò chuyện cũ
+ */
+class MemoryService {
+  private store: IMemoryStore | null = null;
+  private isSummarizing = false;
+  // Các lần ghi trong cùng cửa sổ chạy lần lượt
+  private writing: Promise<unknown> = Promise.resolve();
+  // Khi nhật ký vượt quá giới hạn, gom các tin nhắn cũ nhất thành một bản tóm tắt
+  private readonly MAX_JOURNAL_MESSAGES = 60;
+  private readonly SUMMARY_CHUNK_SIZE = 30;
+  private readonly MAX_SUMMARIES = 20;
+  private readonly MAX_FACTS = 100;
+
+  /**
+   * Đọc lại file memory ở lần truy cập tiếp theo (gọi khi cửa sổ khác vừa thay đổi trí nhớ)
+   */
+  public invalidate(): void {
+    this.store = null;
+  }
+
+  public async getStore(): Promise<IMemoryStore> {
+    return await this.load();
+  }
+
+  /**
+   * Ghi một tin nhắn vào nhật ký, tự tách những điều người dùng kể về bản thân
+   */
+  public async recordMessage(message: Omit<IMemoryMessage, "timestamp">): Promise<void> {
+    const journalLength = await this.update((store) => {
+      store.messages.push({ ...message, timestamp: Date.now() });
+
+      if (message.role === "user") {
+        extractUserFacts(message.content).forEach((fact) => this.addFactToStore(store, fact));
+      }
+      return store.messages.length;
+    });
+
+    if (journalLength > this.MAX_JOURNAL_MESSAGES) {
+      this.summarizeOldMessages();
+    }
+  }
+
+  public async addFact(text: string): Promise<void> {
+    await this.update((store) => this.addFactToStore(store, text));
+  }
+
+  public async deleteFact(id: string): Promise<void> {
+    await this.update((store) => {
+      store.facts = store.facts.filter((fact) => fact.id !== id);
+    });
+  }
+
+  public async deleteSummary(id: string): Promise<void> {
+    await this.update((store) => {
+      store.summaries = store.summaries.filter((summary) => summary.id !== id);
+    });
+  }
+
+  /**
+   * Xóa toàn bộ trí nhớ
+   */
+  public async clear(): Promise<void> {
+    await this.update((store) => {
+      store.messages = [];
+      store.facts = [];
+      store.summaries = [];
+    });
+  }
+
+  /**
+   * Tạo đoạn ngữ cảnh từ trí nhớ để đưa vào prompt, không vượt quá tokenBudget.
+   * Thứ tự ưu tiên: điều người dùng kể > tóm tắt > tin nhắn gần đây, mục mới hơn được ưu tiên
+   * @param includeRecentMessages Tắt khi prompt đã có sẵn lịch sử hội thoại
+   */
+  public async buildMemoryContext(tokenBudget: number, includeRecentMessages = true): Promise<string> {
+    if (tokenBudget <= 0) return "";
+
+    const store = await this.load();
+    let remainingTokens = tokenBudget;
+
+    const takeWithinBudget = (lines: string[]): string[] => {
+      const taken: string[] = [];
+      for (const line of lines) {
+        const tokens = estimateTokens(line);
+        if (tokens > remainingTokens) break;
+        remainingTokens -= tokens;
+        taken.push(line);
+      }
+      return taken;
+    };
+
+    const facts = takeWithinBudget([...store.facts].reverse().map((fact) => `- ${fact.text}`));
+    const summaries = takeWithinBudget([...store.summaries].reverse().map((summary) => `- ${summary.text}`));
+    const messages = includeRecentMessages
+      ? takeWithinBudget([...store.messages].reverse().map((message) => `${message.role === "user" ? "Người dùng" : "Pet"}: ${message.content}`)).reverse()
+      : [];
+
+    const sections: string[] = [];
+    if (facts.length > 0) sections.push(`Những điều người dùng đã kể:\n${facts.join("\n")}`);
+    if (summaries.length > 0) sections.push(`Tóm tắt các cuộc trò chuyện trước:\n${summaries.join("\n")}`);
+    if (messages.length > 0) sections.push(`Những tin nhắn gần đây:\n${messages.join("\n")}`);
+
+    return sections.join("\n\n");
+  }
+
+  private addFactToStore(store: IMemoryStore, text: string): void {
+    const normalized = text.trim().slice(0, MAX_FACT_LENGTH);
+    if (!normalized) return;
+
+    // Bỏ qua điều đã nhớ rồi
+    if (store.facts.some((fact) => fact.text.toLowerCase() === normalized.toLowerCase())) return;
+
+    const fact: IMemoryFact = {
+      id: crypto.randomUUID(),
+      text: normalized,
+      createdAt: Date.now(),
+    };
+    store.facts = [...store.facts, fact].slice(-this.MAX_FACTS);
+    console.log(`📝 Đã ghi nhớ: "${normalized}"`);
+  }
+
+  /**
+   * Gom các tin nhắn cũ nhất thành một bản tóm tắt để nhật ký không phình to
+   */
+  private async summarizeOldMessages(): Promise<void> {
+    if (this.isSummarizing) return;
+    this.isSummarizing = true;
+
+    try {
+      const store = await this.load();
+      const chunk = store.messages.slice(0, this.SUMMARY_CHUNK_SIZE);
+      if (chunk.length === 0) return;
+
+      const summary: IMemorySummary = {
+        id: crypto.randomUUID(),
+        text: await this.summarize(chunk),
+        createdAt: Date.now(),
+        from: chunk[0].timestamp,
+        to: chunk[chunk.length - 1].timestamp,
+      };
+
+      // Nhật ký có thể đã thay đổi trong lúc chờ AI tóm tắt, update đọc lại file trước khi sửa
+      const summarized = await this.update((latest) => {
+        const count = countLeadingMessages(latest.messages, chunk);
+        // người dùng đã xóa trí nhớ trong lúc chờ, không thêm lại bản tóm tắt
+        if (count === 0) return 0;
+
+        latest.messages = latest.messages.slice(count);
+        latest.summaries = [...latest.summaries, summary].slice(-this.MAX_SUMMARIES);
+        return count;
+      });
+
+      if (summarized > 0) console.log(`🗂️ Đã tóm tắt ${summarized} tin nhắn cũ`);
+    } catch (error) {
+      console.error("Lỗi khi tóm tắt trí nhớ:", error);
+    } finally {
+      this.isSummarizing = false;
+    }
+  }
+
+  /**
+   * Nhờ provider AI tóm tắt, nếu không được thì ghép các tin nhắn của người dùng lại
+   */
+  private async summarize(messages: IMemoryMessage[]): Promise<string> {
+    const transcript = messages
+      .map((message) => `${message.role === "user" ? "Người dùng" : "Pet"}: ${message.content}`)
+      .join("\n");
+
+    const provider = getActiveLLMProvider();
+    if (await provider.hasCredentials()) {
+      try {
+        const summary = await provider.generate({
+          systemInstruction: "Tóm tắt đoạn hội thoại sau giữa người dùng và thú cưng của họ trong tối đa 2 câu Tiếng Việt, giữ lại những gì người dùng đã kể và cảm xúc của họ. Chỉ trả về đoạn tóm tắt.",
+          messages: [{ role: "user", content: transcript }],
+          temperature: 0.3,
+          maxOutputTokens: 120,
+        });
+        if (summary.trim()) return summary.trim();
+      } catch (error) {
+        console.warn("Không thể tóm tắt bằng AI, dùng bản tóm tắt đơn giản:", error);
+      }
+    }
+
+    const date = new Date(messages[0].timestamp).toLocaleDateString("vi-VN");
+    const userMessages = messages.filter((message) => message.role === "user").map((message) => message.content);
+    return userMessages.length > 0
+      ? `Ngày ${date}, người dùng đã nói: ${userMessages.join("; ").slice(0, 300)}`
+      : `Ngày ${date}, thú cưng đã gửi ${messages.length} lời nhắn cho người dùng`;
+  }
+
+  private async load(): Promise<IMemoryStore> {
+    if (!this.store) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.MEMORY, withErrorDialog: false });
+      this.store = {
+        messages: saved?.messages ?? [],
+        facts: saved?.facts ?? [],
+        summaries: saved?.summaries ?? [],
+      };
+    }
+    return this.store!;
+  }
+
+  /**
+   * Đọc lại file rồi mới sửa và ghi, để không ghi đè thay đổi của cửa sổ khác
+   * (ví dụ điều người dùng vừa xóa trong tab Trí nhớ). Chỉ xong khi file đã được ghi
+   */
+  private update<T>(change: (store: IMemoryStore) => T): Promise<T> {
+    const result = this.writing.then(async () => {
+      this.invalidate();
+      const store = await this.load();
+      const value = change(store);
+      await setConfig({ configName: DefaultConfigName.MEMORY, newConfig: store });
+      return value;
+    });
+    // một lần ghi lỗi không chặn các lần sau
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// Export singleton instance
+export const memoryService = new MemoryService();
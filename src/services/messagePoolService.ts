@@ -0,0 +1,106 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { IMessagePoolBucket, IPooledMessage } from "../types/IMessagePool";
+import { WeatherType } from "../types/IWeather";
+import { recentMessageService } from "./recentMessageService";
+
+/**
+ * Kho thông điệp tạo sẵn (message_pool.json), chia theo pet và bối cảnh
+ * (buổi trong ngày, làm việc lâu, loại thời tiết).
+ * Được làm đầy dần khi có mạng, lấy ra ngay khi tới lượt nói hoặc khi mất mạng
+ */
+class MessagePoolService {
+  private pool: IPooledMessage[] | null = null;
+  private readonly MAX_PER_BUCKET = 2;
+  // thông điệp quá cũ có thể không còn hợp với những gì pet biết về người dùng
+  private readonly MAX_AGE_HOURS = 24;
+
+  /**
+   * Lấy ra một thông điệp cho bối cảnh hiện tại, đúng thời tiết trước, không có thì chỉ nhận thông điệp
+   * được viết khi chưa biết thời tiết (không nhắc tới thời tiết nên hợp với mọi trời).
+   * Những câu vừa nói gần đây bị bỏ luôn
+   */
+  public async take(petId: string, bucket: IMessagePoolBucket): Promise<IPooledMessage | null> {
+    const pool = await this.getFreshPool();
+    const candidates = pool.filter((message) => message.petId === petId
+      && message.timeOfDay === bucket.timeOfDay
+      && message.isLongSession === bucket.isLongSession
+      && (message.weatherType === bucket.weatherType || message.weatherType === WeatherType.Unknown));
+    // đúng thời tiết trước, cũ trước
+    candidates.sort((a, b) => Number(b.weatherType === bucket.weatherType) - Number(a.weatherType === bucket.weatherType) || a.createdAt - b.createdAt);
+
+    const repeats: IPooledMessage[] = [];
+    let taken: IPooledMessage | null = null;
+    for (const message of candidates) {
+      if (await recentMessageService.isRepeat(message.text)) {
+        repeats.push(message);
+        continue;
+      }
+      taken = message;
+      break;
+    }
+
+    if (taken || repeats.length > 0) {
+      await this.update((current) => current.filter((message) => message !== taken && !repeats.includes(message)));
+    }
+    return taken;
+  }
+
+  public async add(message: IPooledMessage): Promise<void> {
+    await this.update((pool) => [...pool, message]);
+  }
+
+  /**
+   * Bối cảnh này của pet còn thiếu thông điệp tạo sẵn không
+   */
+  public async needsRefill(petId: string, bucket: IMessagePoolBucket): Promise<boolean> {
+    const pool = await this.getFreshPool();
+    const count = pool.filter((message) => message.petId === petId
+      && message.timeOfDay === bucket.timeOfDay
+      && message.isLongSession === bucket.isLongSession
+      && message.weatherType === bucket.weatherType).length;
+    return count < this.MAX_PER_BUCKET;
+  }
+
+  /**
+   * Bỏ các thông điệp của một pet (gọi khi tính cách của pet thay đổi)
+   */
+  public async removePet(petId: string): Promise<void> {
+    await this.update((pool) => pool.filter((message) => message.petId !== petId));
+  }
+
+  private async getFreshPool(): Promise<IPooledMessage[]> {
+    return this.withoutExpired(await this.load());
+  }
+
+  private withoutExpired(pool: IPooledMessage[]): IPooledMessage[] {
+    const since = Date.now() - this.MAX_AGE_HOURS * 60 * 60 * 1000;
+    return pool.filter((message) => message.createdAt >= since);
+  }
+
+  /**
+   * Sửa kho ngay sau khi đọc xong, trên bản hiện tại chứ không phải bản đã đọc trước một lần await,
+   * để không làm mất thông điệp được thêm trong lúc chờ
+   */
+  private async update(change: (pool: IPooledMessage[]) => IPooledMessage[]): Promise<void> {
+    const loaded = await this.load();
+    this.save(change(this.withoutExpired(this.pool ?? loaded)));
+  }
+
+  private async load(): Promise<IPooledMessage[]> {
+    if (!this.pool) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.MESSAGE_POOL, withErrorDialog: false });
+      // một lần gọi khác có thể đã đọc và sửa kho trong lúc file đang được đọc
+      if (!this.pool) this.pool = Array.isArray(saved) ? saved : [];
+    }
+    return this.pool!;
+  }
+
+  private save(pool: IPooledMessage[]): void {
+    this.pool = pool;
+    setConfig({ configName: DefaultConfigName.MESSAGE_POOL, newConfig: pool });
+  }
+}
+
+// Export singleton instance
+export const messagePoolService = new MessagePoolService();
@@ -0,0 +1,29 @@
+import { getPetPersona, createPersonaFromPreset } from '../config/persona_presets';
+import { IPersona } from '../types/IPersona';
+import { ISpriteConfig } from '../types/ISpriteConfig';
+
+/**
+ * Giữ persona của từng pet đang hiển thị để các service AI biết pet nào đang nói
+ */
+class PersonaService {
+  private personas: Map<string, IPersona> = new Map();
+
+  /**
+   * Ghi nhận (hoặc cập nhật) persona khi pet được thêm hay vừa được chỉnh sửa
+   */
+  public registerPet(pet: ISpriteConfig): void {
+    if (!pet.id) return;
+    this.personas.set(pet.id, getPetPersona(pet));
+  }
+
+  public getPersona(petId: string): IPersona {
+    return this.personas.get(petId) ?? createPersonaFromPreset("Airi");
+  }
+
+  public removePet(petId: string): void {
+    this.personas.delete(petId);
+  }
+}
+
+// Export singleton instance
+export const personaService = new PersonaService();
@@ -1,12 +1,33 @@
-import { getCurrentWeather, getCurrentTimeInfo } from './weatherService';
+import { getCurrentWeather, getCurrentTimeInfo, getHourlyForecast } from './weatherService';
 import { generateThoughtMessage } from './geminiService';
+import { ThoughtContext, getAddressTerm } from './promptBuilder';
 import { timeTracker } from './timeTrackingService';
 import { useSettingStore } from '../hooks/useSettingStore';
+import { memoryService } from './memoryService';
+import { personaService } from './personaService';
+import { preferenceService } from './preferenceService';
+import { recentMessageService } from './recentMessageService';
+import { messagePoolService } from './messagePoolService';
+import { MemoryMessageSource } from '../types/IMemory';
+import { IPetAISettings } from '../types/ISpriteConfig';
+import { QuietMessagePolicy } from '../types/IQuietMode';
+import { getQuietReason } from '../utils/quietMode';
+import { bubbleQueue } from './bubbleQueueService';
+import { crisisSupportService } from './crisisSupportService';
+import { breathingService } from './breathingService';
+import { BubblePriority } from '../types/IBubble';
+import { PERSONA_MESSAGE_CATEGORIES } from '../config/persona_presets';
+import { WeatherType } from '../types/IWeather';
+import { describeWeather, isRainy } from '../utils/weather';
+import { IMessagePoolBucket } from '../types/IMessagePool';
+import { PetEmotion } from '../types/IThought';
+import { IPersona, MessageCategory } from '../types/IPersona';
 
 export interface PetAIManagerConfig {
   petId: string;
-  minIntervalMs: number; // Tối thiểu 1 phút (60000ms)
-  maxIntervalMs: number; // Tối đa 3 phút (180000ms)
+  settings: IPetAISettings;
+  // các trạng thái pet có thể diễn khi nói (greet, sit, sleep...)
+  actions: string[];
 }
 
 export interface AIMessage {
@@ -14,154 +35,501 @@ export interface AIMessage {
   timestamp: number;
   petId: string;
   isLongSessionMessage: boolean;
+  // chat replies have no category and cannot be rated
+  category?: MessageCategory;
+  // id để người dùng chấm điểm lời nhắn, có khi lời nhắn thật sự được hiện
+  ratingId?: string;
+  emotion?: PetEmotion;
+  // trạng thái pet diễn trong lúc bong bóng hiện
+  action?: string | null;
+  // lời nhắn đang stream được gửi nhiều lần với cùng streamId, lần cuối có isStreaming = false
+  streamId?: string;
+  isStreaming?: boolean;
+  // lời nhắn đang stream bị bỏ (AI lỗi hoặc pets vừa chuyển sang im lặng), bong bóng của nó nên đóng lại
+  isCancelled?: boolean;
 }
 
+interface ScheduledPet {
+  config: PetAIManagerConfig;
+  onMessage: (message: AIMessage) => void;
+}
+
+interface DeferredMessage {
+  message: AIMessage;
+  onMessage: (message: AIMessage) => void;
+}
+
+/**
+ * Một bộ lập lịch chung cho tất cả pet: mỗi lượt chỉ một pet được nói,
+ * tổng số lời nhắn bị giới hạn bởi cài đặt aiMessagesPerHour
+ */
 class PetAIManager {
-  private activeTimers: Map<string, NodeJS.Timeout> = new Map();
+  private pets: Map<string, ScheduledPet> = new Map();
   private lastMessageTime: Map<string, number> = new Map();
-  private readonly DEFAULT_MIN_INTERVAL = 60000; // 1 phút
-  private readonly DEFAULT_MAX_INTERVAL = 180000; // 3 phút
+  private schedulerTimer: NodeJS.Timeout | null = null;
+  // lời nhắn đã tạo xong nhưng rơi vào lúc phải im lặng, chờ hiện sau (chính sách Defer)
+  private deferredMessages: DeferredMessage[] = [];
+  private readonly MAX_DEFERRED_MESSAGES = 3;
+  // Lệch ngẫu nhiên ±25% để lời nhắn không đến đều đặn như đồng hồ
+  private readonly INTERVAL_JITTER = 0.25;
+  private readonly HOUR_MS = 60 * 60 * 1000;
+  // thời điểm các lời nhắn tự phát đã hiện trong một giờ qua, để độ lệch ngẫu nhiên không làm vượt ngân sách mỗi giờ
+  private recentMessageTimes: number[] = [];
+  // số giờ nhìn trước để báo trời sắp mưa
+  private readonly RAIN_FORECAST_HOURS = 3;
+  // true khi provider cần API key mà người dùng chưa thêm, lúc này không gọi AI nữa
+  private isMissingApiKey = false;
+  // pet đang được tạo sẵn thông điệp, tránh gọi AI chồng lên nhau, hủy khi pet bị gỡ hoặc scene dừng
+  private refillingPets: Map<string, AbortController> = new Map();
+  // thời điểm các lần gọi AI để tạo sẵn trong một giờ qua, cũng không được vượt aiMessagesPerHour
+  private recentRefillTimes: number[] = [];
+  // lời nhắn đang stream của từng pet, hủy khi pet bị gỡ hoặc scene dừng
+  private activeStreams: Map<string, AbortController> = new Map();
   
   /**
-   * Khởi tạo timer AI cho một pet cụ thể
+   * Đưa một pet vào lịch nói chuyện (gọi lại với cùng petId sẽ cập nhật cấu hình)
    */
-  public startAITimer(config: PetAIManagerConfig, onMessage: (message: AIMessage) => void): void {
-    // Dừng timer cũ nếu có
-    this.stopAITimer(config.petId);
-    
-    // Tạo delay ngẫu nhiên cho lần đầu tiên
-    const initialDelay = this.getRandomInterval(config.minIntervalMs, config.maxIntervalMs);
-    
-    const timer = setTimeout(async () => {
-      await this.generateAndEmitMessage(config, onMessage);
-      // Sau khi gửi message, đặt lại timer cho lần tiếp theo
-      this.scheduleNextMessage(config, onMessage);
-    }, initialDelay);
-    
-    this.activeTimers.set(config.petId, timer);
-    console.log(`🤖 AI Timer started cho pet ${config.petId}, delay đầu tiên: ${Math.round(initialDelay / 1000)}s`);
+  public addPet(config: PetAIManagerConfig, onMessage: (message: AIMessage) => void): void {
+    this.pets.set(config.petId, { config, onMessage });
+    console.log(`🤖 Pet ${config.petId} đã vào lịch AI (${config.settings.enabled ? "bật" : "tắt"}, tối thiểu ${config.settings.minIntervalMinutes} phút)`);
+
+    if (!this.schedulerTimer) this.scheduleNextMessage();
+  }
+
+  /**
+   * Cập nhật cài đặt AI của một pet đang có trong lịch
+   */
+  public updatePetSettings(petId: string, settings: IPetAISettings): void {
+    const pet = this.pets.get(petId);
+    if (!pet) return;
+    pet.config = { ...pet.config, settings };
   }
   
   /**
-   * Dừng timer AI cho một pet cụ thể
+   * Gỡ pet khỏi lịch, dừng bộ lập lịch khi không còn pet nào
    */
-  public stopAITimer(petId: string): void {
-    const timer = this.activeTimers.get(petId);
-    if (timer) {
-      clearTimeout(timer);
-      this.activeTimers.delete(petId);
-      console.log(`🛑 AI Timer stopped cho pet ${petId}`);
-    }
+  public removePet(petId: string): void {
+    this.activeStreams.get(petId)?.abort();
+    this.activeStreams.delete(petId);
+    this.refillingPets.get(petId)?.abort();
+    this.refillingPets.delete(petId);
+    this.pets.delete(petId);
+    this.lastMessageTime.delete(petId);
+    this.deferredMessages = this.deferredMessages.filter(({ message }) => message.petId !== petId);
+
+    if (this.pets.size === 0) this.stopScheduler();
   }
   
   /**
-   * Dừng tất cả timer AI
+   * Dừng bộ lập lịch và gỡ tất cả pet
    */
-  public stopAllTimers(): void {
-    this.activeTimers.forEach((timer, petId) => {
-      clearTimeout(timer);
-      console.log(`🛑 AI Timer stopped cho pet ${petId}`);
-    });
-    this.activeTimers.clear();
+  public stopAll(): void {
+    this.activeStreams.forEach((controller) => controller.abort());
+    this.activeStreams.clear();
+    this.refillingPets.forEach((controller) => controller.abort());
+    this.refillingPets.clear();
+    this.stopScheduler();
+    this.pets.clear();
+    this.lastMessageTime.clear();
+    this.recentMessageTimes = [];
+    this.recentRefillTimes = [];
+    this.deferredMessages = [];
+    console.log("🛑 AI scheduler stopped");
+  }
+
+  /**
+   * Tính lại thời điểm của lời nhắn tiếp theo (gọi khi người dùng đổi số lời nhắn mỗi giờ)
+   */
+  public reschedule(): void {
+    this.stopScheduler();
+    if (this.pets.size > 0) this.scheduleNextMessage();
   }
   
   /**
-   * Lên lịch cho message tiếp theo
+   * Bỏ các lời nhắn đang chờ (gọi khi người dùng chuyển sang chính sách Drop)
    */
-  private scheduleNextMessage(config: PetAIManagerConfig, onMessage: (message: AIMessage) => void): void {
-    const nextDelay = this.getRandomInterval(config.minIntervalMs, config.maxIntervalMs);
-    
+  public clearDeferredMessages(): void {
+    this.deferredMessages = [];
+  }
+
+  /**
+   * Thoát trạng thái "chưa có API key" (gọi khi người dùng vừa cập nhật key, đổi nhà cung cấp, địa chỉ hoặc model AI)
+   */
+  public clearMissingApiKey(): void {
+    this.isMissingApiKey = false;
+  }
+
+  private stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearTimeout(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  /**
+   * Lên lịch cho lượt tiếp theo theo ngân sách lời nhắn mỗi giờ. Ngân sách là giới hạn cứng:
+   * trong bất kỳ một giờ nào cũng không hiện quá aiMessagesPerHour lời nhắn
+   */
+  private scheduleNextMessage(): void {
+    const { aiMessagesPerHour } = useSettingStore.getState();
+    // 0 lời nhắn mỗi giờ nghĩa là tắt lời nhắn tự phát
+    if (aiMessagesPerHour <= 0) {
+      console.log("⏸️ AI messages per hour = 0, không lên lịch lời nhắn");
+      return;
+    }
+
+    const interval = this.HOUR_MS / aiMessagesPerHour;
+    const jitter = (Math.random() * 2 - 1) * this.INTERVAL_JITTER * interval;
+
+    // đã dùng hết ngân sách của một giờ qua thì chờ tới khi đủ lời nhắn cũ ra khỏi khung một giờ
+    const now = Date.now();
+    this.recentMessageTimes = this.recentMessageTimes.filter((time) => now - time < this.HOUR_MS);
+    const overBudget = this.recentMessageTimes.length - aiMessagesPerHour;
+    const budgetDelay = overBudget >= 0 ? this.recentMessageTimes[overBudget] + this.HOUR_MS - now : 0;
+    const nextDelay = Math.max(Math.round(interval + jitter), budgetDelay);
+
     const timer = setTimeout(async () => {
-      await this.generateAndEmitMessage(config, onMessage);
-      this.scheduleNextMessage(config, onMessage); // Tiếp tục lên lịch
+      await this.runScheduledTurn();
+      // trong lúc chờ AI, lịch có thể đã bị dừng hoặc được tính lại với một timer khác
+      if (this.schedulerTimer === timer && this.pets.size > 0) this.scheduleNextMessage();
     }, nextDelay);
-    
-    this.activeTimers.set(config.petId, timer);
-    console.log(`⏰ Scheduled next AI message cho pet ${config.petId} sau ${Math.round(nextDelay / 1000)}s`);
+    this.schedulerTimer = timer;
+
+    console.log(`⏰ Scheduled next AI message sau ${Math.round(nextDelay / 1000)}s`);
   }
-  
+
+  /**
+   * Một lượt của bộ lập lịch: im lặng thì không gọi AI, có lời nhắn đang chờ thì hiện nó trước
+   */
+  private async runScheduledTurn(): Promise<void> {
+    if (crisisSupportService.isActive()) {
+      console.log("💙 Thẻ hỗ trợ đang mở, pets không nói chuyện phiếm");
+      return;
+    }
+
+    if (breathingService.isActive()) {
+      console.log("🌬️ Đang tập thở, pets không nói chuyện phiếm");
+      return;
+    }
+
+    const quietReason = getQuietReason(useSettingStore.getState(), new Date());
+    if (quietReason) {
+      console.log(`🤫 Pets đang im lặng (${quietReason}), bỏ qua lượt này`);
+      return;
+    }
+
+    // không ai ở máy để đọc, lời nhắn sẽ trôi mất
+    if (!timeTracker.isUserActive()) {
+      console.log("💤 Người dùng đang rời máy, bỏ qua lượt này");
+      return;
+    }
+
+    const deferred = this.deferredMessages.shift();
+    if (deferred) {
+      if (this.pets.has(deferred.message.petId)) {
+        this.deliverMessage({ ...deferred.message, timestamp: Date.now() }, deferred.onMessage);
+      }
+      return;
+    }
+
+    const pet = this.pickNextPet(Date.now());
+    if (pet) {
+      await this.generateAndEmitMessage(pet.config, pet.onMessage);
+    }
+  }
+
+  /**
+   * Hiện lời nhắn, hoặc xử lý theo chính sách nếu pets vừa chuyển sang im lặng trong lúc chờ AI
+   */
+  private deliverMessage(message: AIMessage, onMessage: (message: AIMessage) => void): void {
+    // pet đã bị gỡ hoặc scene cũ đã bị hủy trong lúc chờ AI, callback cũ không còn bong bóng nào để hiện
+    if (this.pets.get(message.petId)?.onMessage !== onMessage) {
+      console.log(`🗑️ Bỏ lời nhắn của pet ${message.petId} (pet không còn trong lịch)`);
+      return;
+    }
+
+    const { quietMessagePolicy } = useSettingStore.getState();
+    const quietReason = getQuietReason(useSettingStore.getState(), new Date());
+
+    // người dùng đang cần được hỗ trợ, lời nhắn vui vẻ bị bỏ hẳn thay vì giữ lại để hiện sau
+    if (crisisSupportService.isActive()) {
+      if (message.streamId) onMessage({ ...message, isCancelled: true });
+      console.log(`🗑️ Bỏ lời nhắn của pet ${message.petId} (thẻ hỗ trợ đang mở)`);
+      return;
+    }
+
+    if (quietReason) {
+      // bong bóng đang gõ của lời nhắn này đóng lại, nếu được giữ thì lời nhắn hiện lại trong bong bóng mới
+      if (message.streamId) onMessage({ ...message, isCancelled: true });
+
+      if (quietMessagePolicy === QuietMessagePolicy.Defer) {
+        this.deferredMessages.push({ message: { ...message, streamId: undefined, isStreaming: false }, onMessage });
+        // chỉ giữ những lời nhắn mới nhất
+        this.deferredMessages = this.deferredMessages.slice(-this.MAX_DEFERRED_MESSAGES);
+        console.log(`📥 Giữ lại lời nhắn của pet ${message.petId} để hiện sau (${quietReason})`);
+      } else {
+        console.log(`🗑️ Bỏ lời nhắn của pet ${message.petId} (${quietReason})`);
+      }
+      return;
+    }
+
+    const ratingId = message.category
+      ? preferenceService.recordShownMessage({ text: message.text, petId: message.petId, category: message.category })
+      : undefined;
+    onMessage({ ...message, ratingId, isStreaming: false });
+    recentMessageService.record(message.text);
+    this.lastMessageTime.set(message.petId, Date.now());
+    this.recentMessageTimes.push(Date.now());
+    memoryService.recordMessage({ role: "assistant", content: message.text, source: MemoryMessageSource.Thought, petId: message.petId })
+      .catch((error) => console.warn("Không thể lưu lời nhắn vào trí nhớ:", error));
+  }
+
+  /**
+   * Chọn pet được nói ở lượt này: trong các pet đang bật và đã qua khoảng nghỉ tối thiểu,
+   * pet lâu chưa nói nhất được ưu tiên, hòa nhau thì chọn ngẫu nhiên
+   */
+  private pickNextPet(now: number): ScheduledPet | null {
+    const candidates = Array.from(this.pets.values()).filter(({ config }) => {
+      if (!config.settings.enabled) return false;
+      const lastMessage = this.lastMessageTime.get(config.petId) ?? 0;
+      return now - lastMessage >= config.settings.minIntervalMinutes * 60 * 1000;
+    });
+    if (candidates.length === 0) return null;
+
+    const oldestTime = Math.min(...candidates.map(({ config }) => this.lastMessageTime.get(config.petId) ?? 0));
+    const fairest = candidates.filter(({ config }) => (this.lastMessageTime.get(config.petId) ?? 0) === oldestTime);
+    return fairest[Math.floor(Math.random() * fairest.length)];
+  }
+
+  /**
+   * Lấy thông tin thời tiết (không chặn nếu lỗi), kèm lời báo nếu vài giờ tới trời sắp mưa
+   */
+  private async getWeather(): Promise<{ description: string | null; type: WeatherType }> {
+    try {
+      const weatherData = await getCurrentWeather();
+      if ('error' in weatherData) {
+        return { description: null, type: WeatherType.Unknown };
+      }
+
+      let description = describeWeather(weatherData);
+      const forecast = await getHourlyForecast(this.RAIN_FORECAST_HOURS);
+      if (!isRainy(weatherData.condition) && Array.isArray(forecast) && forecast.some((hour) => isRainy(hour.condition))) {
+        description += ", vài giờ tới trời sắp mưa";
+      }
+      return { description, type: weatherData.type };
+    } catch (error) {
+      console.warn("Không thể lấy thông tin thời tiết:", error);
+    }
+    return { description: null, type: WeatherType.Unknown };
+  }
+
+  /**
+   * Bối cảnh cho AI và nhóm tương ứng trong kho thông điệp tạo sẵn
+   */
+  private async buildThoughtContext(petId: string, isLongSession: boolean, weather: { description: string | null; type: WeatherType }) {
+    const persona = personaService.getPersona(petId);
+    // lời nhắc nghỉ ngơi không phụ thuộc sở thích, còn lại chọn theo trọng số học được từ phản hồi
+    const category = isLongSession
+      ? MessageCategory.RestReminder
+      : await preferenceService.pickCategory(persona.categories.length > 0 ? persona.categories : PERSONA_MESSAGE_CATEGORIES);
+
+    const context: ThoughtContext = {
+      timeOfDay: getCurrentTimeInfo().timeOfDay,
+      weather: weather.description,
+      city: useSettingStore.getState().city,
+      isLongSession,
+      // lời nhắc tạo sẵn có thể được dùng muộn hơn, ít nhất cũng đã qua ngưỡng làm việc lâu
+      minutesSinceBreak: isLongSession
+        ? Math.max(timeTracker.getTimeSinceLastReset(), timeTracker.getLongSessionMinutes())
+        : timeTracker.getTimeSinceLastReset(),
+      isUserActive: timeTracker.isUserActive(),
+      focusStreakMinutes: timeTracker.getCurrentFocusStreak(),
+      category,
+    };
+    const bucket: IMessagePoolBucket = { timeOfDay: context.timeOfDay, isLongSession, weatherType: weather.type };
+
+    return { persona, category, context, bucket };
+  }
+
   /**
-   * Tạo message AI và gọi callback
+   * Lấy thông điệp tạo sẵn nếu có (hiện ngay, kể cả khi mất mạng), không thì gọi AI,
+   * sau đó làm đầy lại kho ở chế độ nền
    */
   private async generateAndEmitMessage(config: PetAIManagerConfig, onMessage: (message: AIMessage) => void): Promise<void> {
+    // Đang ở trạng thái chưa có API key: không gọi AI cho tới khi người dùng thêm key
+    if (this.isMissingApiKey) return;
+
     try {
-      // Lấy thông tin bối cảnh
-      const timeInfo = getCurrentTimeInfo();
-      const { city } = useSettingStore.getState();
       const isLongSession = timeTracker.isLongSession();
-      
-      // Lấy thông tin thời tiết (không chặn nếu lỗi)
-      let weatherDescription: string | null = null;
-      try {
-        const weatherData = await getCurrentWeather(city);
-        if ('description' in weatherData) {
-          weatherDescription = weatherData.description;
-        }
-      } catch (error) {
-        console.warn("Không thể lấy thông tin thời tiết:", error);
+      const weather = await this.getWeather();
+      const { persona, category, context, bucket } = await this.buildThoughtContext(config.petId, isLongSession, weather);
+
+      const pooled = await messagePoolService.take(config.petId, bucket);
+      if (pooled) {
+        console.log(`📦 Dùng thông điệp tạo sẵn cho pet ${config.petId}: "${pooled.text}"`);
+        this.emitThought({ petId: config.petId, text: pooled.text, isLongSessionMessage: isLongSession, category: pooled.category, emotion: pooled.emotion, action: pooled.action }, onMessage);
+        this.refillPool(config.petId);
+        return;
       }
-      
-      // Tạo context cho AI
-      const context = {
-        timeOfDay: timeInfo.timeOfDay,
-        weather: weatherDescription,
-        city: city,
-        isLongSession: isLongSession,
-      };
-      
+
       console.log(`🧠 Generating AI message cho pet ${config.petId} với context:`, context);
-      
-      // Gọi AI để tạo message
-      const aiResponse = await generateThoughtMessage(context);
-      
+      await this.streamThought(config, context, persona, category, onMessage);
+    } catch (error) {
+      console.error(`❌ Error generating AI message cho pet ${config.petId}:`, error);
+    }
+  }
+
+  /**
+   * Gọi AI và stream lời nhắn vào bong bóng: hiện "…" ngay khi bắt đầu, chữ hiện dần theo từng phần
+   */
+  private async streamThought(
+    config: PetAIManagerConfig,
+    context: ThoughtContext,
+    persona: IPersona,
+    category: MessageCategory,
+    onMessage: (message: AIMessage) => void,
+  ): Promise<void> {
+    const draft: AIMessage = {
+      text: "",
+      timestamp: Date.now(),
+      petId: config.petId,
+      isLongSessionMessage: !!context.isLongSession,
+      category,
+      streamId: `${config.petId}-${Date.now()}`,
+      isStreaming: true,
+    };
+    const controller = new AbortController();
+    this.activeStreams.set(config.petId, controller);
+    onMessage(draft);
+
+    try {
+      const aiResponse = await generateThoughtMessage(
+        context,
+        persona,
+        config.actions,
+        (partialMessage) => onMessage({ ...draft, text: partialMessage }),
+        controller.signal,
+      );
+
+      // pet đã bị gỡ hoặc scene đã dừng, không còn bong bóng nào để cập nhật
+      if (aiResponse.aborted) return;
+
       if (aiResponse.success && aiResponse.message) {
-        const message: AIMessage = {
-          text: aiResponse.message,
-          timestamp: Date.now(),
-          petId: config.petId,
-          isLongSessionMessage: isLongSession,
-        };
-        
-        // Reset timer theo dõi thời gian nếu là message nghỉ ngơi
-        if (isLongSession) {
-          timeTracker.resetTimer();
-        }
-        
-        // Gọi callback
-        onMessage(message);
-        this.lastMessageTime.set(config.petId, Date.now());
-        
+        this.emitThought({ ...draft, text: aiResponse.message, emotion: aiResponse.emotion, action: aiResponse.action }, onMessage);
         console.log(`✨ AI Message generated cho pet ${config.petId}: "${aiResponse.message}"`);
+        this.refillPool(config.petId);
+        return;
+      }
+
+      onMessage({ ...draft, isCancelled: true });
+      if (aiResponse.missingApiKey) {
+        this.enterMissingApiKeyState(config.petId);
       } else {
         console.warn(`⚠️ AI failed cho pet ${config.petId}:`, aiResponse.error);
       }
-      
     } catch (error) {
-      console.error(`❌ Error generating AI message cho pet ${config.petId}:`, error);
+      onMessage({ ...draft, isCancelled: true });
+      throw error;
+    } finally {
+      if (this.activeStreams.get(config.petId) === controller) this.activeStreams.delete(config.petId);
     }
   }
-  
+
+  private emitThought(thought: Omit<AIMessage, "timestamp">, onMessage: (message: AIMessage) => void): void {
+    // Reset timer theo dõi thời gian nếu là message nghỉ ngơi
+    if (thought.isLongSessionMessage) {
+      timeTracker.resetTimer();
+    }
+
+    this.deliverMessage({ ...thought, timestamp: Date.now() }, onMessage);
+  }
+
   /**
-   * Tạo khoảng thời gian ngẫu nhiên
+   * Tạo sẵn thông điệp (thường và nhắc nghỉ ngơi) cho bối cảnh hiện tại của pet khi còn thiếu,
+   * chạy nền sau mỗi lượt nói nên không làm chậm bong bóng
    */
-  private getRandomInterval(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+  private async refillPool(petId: string): Promise<void> {
+    if (this.refillingPets.has(petId) || this.isMissingApiKey || !navigator.onLine) return;
+    const controller = new AbortController();
+    this.refillingPets.set(petId, controller);
+
+    try {
+      const weather = await this.getWeather();
+      for (const isLongSession of [false, true]) {
+        if (controller.signal.aborted || !this.pets.has(petId)) return;
+
+        const { persona, category, context, bucket } = await this.buildThoughtContext(petId, isLongSession, weather);
+        if (!(await messagePoolService.needsRefill(petId, bucket))) continue;
+        if (!this.useRefillBudget()) {
+          console.log(`⏳ Đã dùng hết lượt tạo sẵn của giờ qua, pet ${petId} chờ lượt sau`);
+          return;
+        }
+
+        const aiResponse = await generateThoughtMessage(context, persona, this.pets.get(petId)?.config.actions, undefined, controller.signal);
+        // pet đã bị gỡ hoặc scene đã dừng
+        if (aiResponse.aborted) return;
+        if (aiResponse.missingApiKey) {
+          this.enterMissingApiKeyState(petId);
+          return;
+        }
+        // mất mạng hoặc API lỗi, để lượt sau thử lại
+        if (!aiResponse.success || !aiResponse.message) return;
+
+        await messagePoolService.add({
+          ...bucket,
+          text: aiResponse.message,
+          petId,
+          category,
+          emotion: aiResponse.emotion,
+          action: aiResponse.action,
+          createdAt: Date.now(),
+        });
+        console.log(`📦 Đã tạo sẵn thông điệp cho pet ${petId} (${bucket.timeOfDay}, ${isLongSession ? "nghỉ ngơi" : "thường"}, ${bucket.weatherType})`);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Không thể tạo sẵn thông điệp cho pet ${petId}:`, error);
+    } finally {
+      if (this.refillingPets.get(petId) === controller) this.refillingPets.delete(petId);
+    }
+  }
+
+  /**
+   * Ghi nhận một lần gọi AI để tạo sẵn nếu còn ngân sách: trong một giờ bất kỳ số lần gọi
+   * không vượt aiMessagesPerHour, để việc tạo sẵn không gọi AI nhiều hơn chính các lời nhắn
+   */
+  private useRefillBudget(): boolean {
+    const now = Date.now();
+    this.recentRefillTimes = this.recentRefillTimes.filter((time) => now - time < this.HOUR_MS);
+    if (this.recentRefillTimes.length >= useSettingStore.getState().aiMessagesPerHour) return false;
+
+    this.recentRefillTimes.push(now);
+    return true;
   }
   
   /**
-   * Lấy thông tin về timer đang hoạt động
+   * Chuyển sang trạng thái "chưa có API key" và báo cho người dùng đúng một lần
    */
-  public getActiveTimersInfo(): Array<{ petId: string; lastMessage?: number }> {
-    const result: Array<{ petId: string; lastMessage?: number }> = [];
-    
-    this.activeTimers.forEach((timer, petId) => {
-      result.push({
-        petId,
-        lastMessage: this.lastMessageTime.get(petId),
-      });
+  private enterMissingApiKeyState(petId: string): void {
+    if (this.isMissingApiKey) return;
+    this.isMissingApiKey = true;
+
+    console.warn("🔑 Chưa có API key cho AI, tạm dừng tạo thông điệp");
+    bubbleQueue.enqueue({
+      text: `Mình chưa có API key để trò chuyện với ${getAddressTerm(useSettingStore.getState().userProfile)}, hãy thêm key trong Cài đặt nhé! 🔑`,
+      petId,
+      priority: BubblePriority.System,
     });
-    
-    return result;
+  }
+
+  /**
+   * Lấy thông tin về các pet đang có trong lịch
+   */
+  public getScheduledPetsInfo(): Array<{ petId: string; enabled: boolean; lastMessage?: number }> {
+    return Array.from(this.pets.values()).map(({ config }) => ({
+      petId: config.petId,
+      enabled: config.settings.enabled,
+      lastMessage: this.lastMessageTime.get(config.petId),
+    }));
   }
 }
 
@@ -0,0 +1,110 @@
+import { generateChatReply } from './geminiService';
+import { AIMessage } from './petAIService';
+import { ILLMMessage } from '../types/ILLM';
+import { memoryService } from './memoryService';
+import { personaService } from './personaService';
+import { MemoryMessageSource } from '../types/IMemory';
+import { crisisSupportService } from './crisisSupportService';
+import { getAddressTerm } from './promptBuilder';
+import { useSettingStore } from '../hooks/useSettingStore';
+
+class PetChatService {
+  // lịch sử hội thoại riêng của từng pet
+  private histories: Map<string, ILLMMessage[]> = new Map();
+  private activeRequests: Map<string, AbortController> = new Map();
+  private readonly MAX_HISTORY_MESSAGES = 20;
+
+  public getHistory(petId: string): ILLMMessage[] {
+    return this.histories.get(petId) ?? [];
+  }
+
+  /**
+   * Gửi tin nhắn của người dùng tới pet và stream câu trả lời về onReply
+   * @param onReply Được gọi nhiều lần với câu trả lời ngày càng đầy đủ
+   */
+  public async sendMessage(petId: string, text: string, onReply: (message: AIMessage) => void): Promise<void> {
+    // Hủy câu trả lời đang stream dở nếu người dùng gửi tin mới
+    this.cancel(petId);
+
+    // không trò chuyện như bình thường và không lưu vào lịch sử hay trí nhớ, chỉ đáp lại nhẹ nhàng bên cạnh thẻ hỗ trợ
+    if (crisisSupportService.check(text)) {
+      const address = getAddressTerm(useSettingStore.getState().userProfile);
+      onReply({
+        text: `Cảm ơn ${address} đã nói với mình. ${address.charAt(0).toUpperCase() + address.slice(1)} không một mình đâu, những người ở thẻ bên cạnh luôn sẵn sàng lắng nghe 💙`,
+        timestamp: Date.now(),
+        petId,
+        isLongSessionMessage: false,
+      });
+      return;
+    }
+
+    const history = [...this.getHistory(petId), { role: "user" as const, content: text }];
+    this.histories.set(petId, history);
+
+    const controller = new AbortController();
+    this.activeRequests.set(petId, controller);
+
+    // bong bóng hiện "…" ngay khi gửi, chữ hiện dần theo từng phần, lần cuối có isStreaming = false
+    const draft: AIMessage = {
+      text: "",
+      timestamp: Date.now(),
+      petId,
+      isLongSessionMessage: false,
+      streamId: `${petId}-chat-${Date.now()}`,
+      isStreaming: true,
+    };
+    onReply(draft);
+
+    console.log(`💬 Chat với pet ${petId}: "${text}"`);
+    try {
+      memoryService.recordMessage({ role: "user", content: text, source: MemoryMessageSource.Chat, petId })
+        .catch((error) => console.warn("Không thể lưu tin nhắn vào trí nhớ:", error));
+      const response = await generateChatReply(
+        history.slice(-this.MAX_HISTORY_MESSAGES),
+        personaService.getPersona(petId),
+        (partialReply) => onReply({ ...draft, text: partialReply }),
+        controller.signal,
+      );
+      // người dùng đã gửi tin mới hoặc pet bị gỡ, bong bóng đang gõ đóng lại
+      if (response.aborted) {
+        onReply({ ...draft, isCancelled: true });
+        return;
+      }
+
+      // Chỉ lưu câu trả lời thật vào lịch sử, không lưu thông điệp lỗi
+      if (response.success) {
+        this.histories.set(petId, [...history, { role: "assistant" as const, content: response.message }].slice(-this.MAX_HISTORY_MESSAGES));
+        memoryService.recordMessage({ role: "assistant", content: response.message, source: MemoryMessageSource.Chat, petId })
+          .catch((error) => console.warn("Không thể lưu câu trả lời vào trí nhớ:", error));
+      }
+      onReply({ ...draft, text: response.message, isStreaming: false });
+    } catch (error) {
+      onReply({ ...draft, isCancelled: true });
+      throw error;
+    } finally {
+      // lỗi giữa chừng cũng không được để lại yêu cầu cũ
+      if (this.activeRequests.get(petId) === controller) {
+        this.activeRequests.delete(petId);
+      }
+    }
+  }
+
+  /**
+   * Hủy câu trả lời đang stream của một pet
+   */
+  public cancel(petId: string): void {
+    this.activeRequests.get(petId)?.abort();
+    this.activeRequests.delete(petId);
+  }
+
+  /**
+   * Hủy và xóa lịch sử khi pet bị gỡ khỏi màn hình
+   */
+  public removePet(petId: string): void {
+    this.cancel(petId);
+    this.histories.delete(petId);
+  }
+}
+
+// Export singleton instance
+export const petChatService = new PetChatService();
@@ -0,0 +1,37 @@
+/**
+ * Vị trí trên màn hình của một pet, tính theo pixel của overlay
+ */
+export interface PetScreenPosition {
+  // tâm theo chiều ngang
+  x: number;
+  // đỉnh đầu và chân của sprite
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Giữ vị trí mới nhất của từng pet để các thành phần React (như bong bóng suy nghĩ) bám theo pet.
+ * Scene cập nhật mỗi frame, còn React tự đọc trong requestAnimationFrame nên không gây re-render
+ */
+class PetPositionService {
+  private positions: Map<string, PetScreenPosition> = new Map();
+
+  public updatePosition(petId: string, position: PetScreenPosition): void {
+    this.positions.set(petId, position);
+  }
+
+  public getPosition(petId: string): PetScreenPosition | undefined {
+    return this.positions.get(petId);
+  }
+
+  public removePet(petId: string): void {
+    this.positions.delete(petId);
+  }
+
+  public clear(): void {
+    this.positions.clear();
+  }
+}
+
+// Export singleton instance
+export const petPositionService = new PetPositionService();
@@ -0,0 +1,108 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { MessageCategory } from "../types/IPersona";
+import { IPreferenceStore, IRatedMessage, MessageReaction } from "../types/IPreference";
+import { DEFAULT_WEIGHT, createDefaultWeights, getCategoryDistribution, pickWeightedCategory, updateWeight } from "../utils/preferences";
+
+/**
+ * Mô hình sở thích của người dùng (preferences.json trong thư mục cấu hình):
+ * các thông điệp đã hiện, phản hồi 👍/👎 và trọng số học được cho từng loại thông điệp
+ */
+class PreferenceService {
+  private store: IPreferenceStore | null = null;
+  private readonly MAX_MESSAGES = 100;
+
+  /**
+   * Đọc lại file ở lần truy cập tiếp theo (gọi khi cửa sổ khác vừa thay đổi nó)
+   */
+  public invalidate(): void {
+    this.store = null;
+  }
+
+  public async getStore(): Promise<IPreferenceStore> {
+    return await this.load();
+  }
+
+  /**
+   * Ghi lại một thông điệp vừa hiện, trả về id để người dùng đánh giá sau
+   */
+  public recordShownMessage(message: Omit<IRatedMessage, "id" | "timestamp" | "reaction">): string {
+    const id = crypto.randomUUID();
+
+    this.load().then((store) => {
+      store.messages.push({ ...message, id, timestamp: Date.now() });
+      store.messages = store.messages.slice(-this.MAX_MESSAGES);
+      this.save(store);
+    });
+
+    return id;
+  }
+
+  /**
+   * Ghi phản hồi cho một thông điệp và cập nhật trọng số loại của nó, bấm lại cùng phản hồi để bỏ
+   */
+  public async react(messageId: string, reaction: MessageReaction): Promise<void> {
+    const store = await this.load();
+    const message = store.messages.find((item) => item.id === messageId);
+    if (!message) return;
+
+    const newReaction = message.reaction === reaction ? undefined : reaction;
+    store.weights[message.category] = updateWeight(store.weights[message.category] ?? DEFAULT_WEIGHT, message.reaction, newReaction);
+    message.reaction = newReaction;
+    this.save(store);
+  }
+
+  /**
+   * Chọn loại cho thông điệp tiếp theo theo trọng số đã học
+   */
+  public async pickCategory(categories: MessageCategory[]): Promise<MessageCategory> {
+    const store = await this.load();
+    return pickWeightedCategory(getCategoryDistribution(store.weights, categories), Math.random());
+  }
+
+  public async getCategoryDistribution(categories: MessageCategory[]): Promise<Partial<Record<MessageCategory, number>>> {
+    const store = await this.load();
+    return getCategoryDistribution(store.weights, categories);
+  }
+
+  /**
+   * Những thông điệp người dùng vừa chê, mới nhất trước
+   */
+  public async getRecentDislikes(limit: number): Promise<string[]> {
+    const store = await this.load();
+    return store.messages
+      .filter((message) => message.reaction === MessageReaction.Dislike)
+      .slice(-limit)
+      .reverse()
+      .map((message) => message.text);
+  }
+
+  /**
+   * Quên các trọng số đã học, giữ lại danh sách thông điệp
+   */
+  public async resetWeights(): Promise<void> {
+    const store = await this.load();
+    store.weights = createDefaultWeights();
+    this.save(store);
+  }
+
+  private async load(): Promise<IPreferenceStore> {
+    if (!this.store) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.PREFERENCES, withErrorDialog: false });
+      this.store = {
+        // file cũ có thể thiếu loại thông điệp mới
+        weights: { ...createDefaultWeights(), ...saved?.weights },
+        messages: saved?.messages ?? [],
+      };
+    }
+    return this.store!;
+  }
+
+  private save(store: IPreferenceStore): void {
+    this.store = store;
+    setConfig({ configName: DefaultConfigName.PREFERENCES, newConfig: store });
+  }
+}
+
+// Export singleton instance
+export const preferenceService = new PreferenceService();
@@ -0,0 +1,236 @@
+import { IPersona, MessageCategory, PersonaTone } from "../types/IPersona";
+import { PERSONA_MESSAGE_CATEGORIES } from "../config/persona_presets";
+import { PetEmotion } from "../types/IThought";
+import { AddressForm, IUserProfile } from "../types/IUserProfile";
+import languages from "../locale/languages";
+import { escapeTemplateValue, renderTemplate } from "../utils/promptTemplate";
+
+export interface ThoughtContext {
+  timeOfDay: string;
+  weather?: string | null;
+  city: string;
+  isLongSession?: boolean; // Đã làm việc > 20 phút
+  minutesSinceBreak?: number;
+  // người dùng đang ở máy và đã làm liên tục bao lâu không rời máy
+  isUserActive?: boolean;
+  focusStreakMinutes?: number;
+  // loại thông điệp đã chọn theo sở thích của người dùng
+  category?: MessageCategory;
+}
+
+/**
+ * Sở thích học được từ phản hồi 👍/👎 của người dùng
+ */
+export interface ThoughtPreferences {
+  category: MessageCategory;
+  // tỉ lệ mong muốn của từng loại thông điệp, tổng bằng 1
+  distribution: Partial<Record<MessageCategory, number>>;
+  recentDislikes: string[];
+}
+
+/**
+ * Phần bổ sung cho system instruction của thông điệp tự phát
+ */
+export interface ThoughtInstructionOptions {
+  // sở thích học được, không có thì để AI tự chọn loại thông điệp
+  preferences?: ThoughtPreferences;
+  // những câu đã hiện trong vài ngày gần đây, mới nhất trước
+  recentMessages?: string[];
+  // các trạng thái pet có thể diễn khi nói (greet, sit, sleep...)
+  actions?: string[];
+}
+
+// cách nói chuyện là cả một câu mô tả, được dài hơn các giá trị người dùng nhập khác
+const MAX_SPEAKING_STYLE_LENGTH = 200;
+
+const PERSONA_TONE_DESCRIPTIONS: Record<PersonaTone, string> = {
+  [PersonaTone.Gentle]: "dịu dàng, thấu cảm",
+  [PersonaTone.Cheerful]: "vui vẻ, tràn đầy năng lượng",
+  [PersonaTone.Playful]: "tinh nghịch, hài hước",
+  [PersonaTone.Calm]: "điềm tĩnh, nhẹ nhàng",
+  [PersonaTone.Wise]: "thông thái, sâu sắc",
+  [PersonaTone.Lazy]: "lười biếng, đáng yêu",
+};
+
+const MESSAGE_CATEGORY_DESCRIPTIONS: Record<MessageCategory, string> = {
+  [MessageCategory.Encouragement]: "Một lời động viên tinh tế",
+  [MessageCategory.CheckIn]: "Một lời hỏi thăm bâng quơ",
+  [MessageCategory.FunFact]: "Một sự thật thú vị",
+  [MessageCategory.Inspiration]: "Một câu nói truyền cảm hứng",
+  [MessageCategory.Tip]: "Một mẹo vặt hữu ích",
+  [MessageCategory.Joke]: "Một câu đùa vui vẻ",
+  [MessageCategory.RestReminder]: "Một lời nhắc nghỉ ngơi nhẹ nhàng",
+};
+
+/**
+ * Tên dùng để nhắc tới người dùng trong prompt
+ */
+export function getUserName(profile: IUserProfile): string {
+  return escapeTemplateValue(profile.displayName) || "người dùng";
+}
+
+/**
+ * Cách gọi người dùng, dùng cho cả prompt lẫn thông điệp dự phòng
+ */
+export function getAddressTerm(profile: IUserProfile): string {
+  return profile.addressForm || AddressForm.Ban;
+}
+
+/**
+ * Tên pet trong prompt, người dùng tự đặt nên cũng được escape như các giá trị khác
+ */
+function getPetName(persona: IPersona): string {
+  return escapeTemplateValue(persona.name);
+}
+
+/**
+ * Các giá trị người dùng nhập theo danh sách (sở thích, chủ đề cần tránh), bỏ những giá trị rỗng sau khi escape
+ */
+function escapeList(values: string[]): string[] {
+  return values.map((value) => escapeTemplateValue(value)).filter(Boolean);
+}
+
+/**
+ * Câu giới thiệu pet dựa trên persona, mở đầu cho mọi system instruction
+ */
+function describePersona(persona: IPersona): string {
+  const speakingStyle = escapeTemplateValue(persona.speakingStyle, MAX_SPEAKING_STYLE_LENGTH);
+  const style = speakingStyle ? ` Cách nói chuyện: ${speakingStyle}.` : "";
+  return `Bạn là một người bạn đồng hành AI tên là "${getPetName(persona)}", tính cách ${PERSONA_TONE_DESCRIPTIONS[persona.tone] ?? PERSONA_TONE_DESCRIPTIONS[PersonaTone.Gentle]}.${style}`;
+}
+
+/**
+ * Mô tả người dùng theo hồ sơ trong cài đặt
+ */
+function describeUser(profile: IUserProfile): string {
+  const name = getUserName(profile);
+  const lines = [
+    `Bạn đang trò chuyện với ${name}. Hãy gọi ${name} là "${getAddressTerm(profile)}" và tự xưng hô cho phù hợp.`,
+  ];
+
+  const pronouns = escapeTemplateValue(profile.pronouns);
+  const interests = escapeList(profile.interests);
+  const avoidTopics = escapeList(profile.avoidTopics);
+
+  if (pronouns) lines.push(`Khi nhắc tới ${name}, dùng đại từ "${pronouns}".`);
+  if (interests.length > 0) lines.push(`Sở thích của ${name}: ${interests.join(", ")}.`);
+  if (avoidTopics.length > 0) lines.push(`Tuyệt đối không nhắc tới các chủ đề: ${avoidTopics.join(", ")}.`);
+
+  return lines.join(" ");
+}
+
+function describeCategories(categories: MessageCategory[], distribution?: Partial<Record<MessageCategory, number>>): string {
+  const selected = categories.length > 0 ? categories : PERSONA_MESSAGE_CATEGORIES;
+  return selected.map((category) => {
+    const share = distribution?.[category];
+    return `  * ${MESSAGE_CATEGORY_DESCRIPTIONS[category]}${share !== undefined ? ` (khoảng ${Math.round(share * 100)}%)` : ""}`;
+  }).join("\n");
+}
+
+/**
+ * Phần sở thích: loại thông điệp cần viết lần này và những câu người dùng không thích
+ */
+function describePreferences(preferences: ThoughtPreferences): string {
+  const lines = [`\n- Lần này hãy viết: ${MESSAGE_CATEGORY_DESCRIPTIONS[preferences.category]}.`];
+  if (preferences.recentDislikes.length > 0) {
+    lines.push(`- Người dùng không thích những thông điệp như sau, tránh viết giống vậy:\n${preferences.recentDislikes.map((text) => `  * "${text}"`).join("\n")}`);
+  }
+  return lines.join("\n");
+}
+
+function getLanguageName(languageCode: string): string {
+  return languages.find((language) => language.value === languageCode)?.label ?? "Tiếng Việt";
+}
+
+/**
+ * Những câu vừa nói gần đây, AI không được lặp lại
+ */
+function describeRecentMessages(recentMessages: string[]): string {
+  if (recentMessages.length === 0) return "";
+  return `\n- Không lặp lại hoặc viết gần giống những câu bạn đã nói gần đây:\n${recentMessages.map((text) => `  * "${text}"`).join("\n")}`;
+}
+
+/**
+ * Yêu cầu trả về JSON gồm thông điệp, cảm xúc và hành động của pet
+ */
+function describeThoughtFormat(actions: string[]): string {
+  const action = actions.length > 0 ? `một trong ${actions.map((name) => `"${name}"`).join(", ")} hoặc null` : "null";
+  return `Chỉ trả về một đối tượng JSON duy nhất, không kèm giải thích: {"message": "<thông điệp>", "emotion": "<một trong ${Object.values(PetEmotion).join(", ")}>", "action": <${action}>}. "action" là động tác bạn làm khi nói câu này.`;
+}
+
+/**
+ * System instruction cho thông điệp tự phát trong bong bóng suy nghĩ
+ * @param memoryInstruction Phần trí nhớ đã được định dạng sẵn, có thể rỗng
+ */
+export function buildThoughtSystemInstruction(
+  persona: IPersona,
+  profile: IUserProfile,
+  memoryInstruction = "",
+  { preferences, recentMessages = [], actions = [] }: ThoughtInstructionOptions = {},
+): string {
+  return `${describePersona(persona)} ${describeUser(profile)}
+
+Nhiệm vụ của bạn là: Dựa vào những thông tin bối cảnh được cung cấp, hãy tạo ra một thông điệp CỰC KỲ NGẮN GỌN (dưới 25 từ) để hiển thị trong một bong bóng suy nghĩ. Thông điệp phải mang lại cảm giác ấm áp, được quan tâm và một chút niềm vui bất ngờ.
+
+Tuyệt đối tuân thủ các quy tắc sau:
+- Không bao giờ hỏi trực tiếp về cảm xúc như "Bạn có buồn không?". Hãy tiếp cận gián tiếp.
+- Giọng văn: Luôn đúng với tính cách và cách nói chuyện của ${getPetName(persona)}, quan tâm và tích cực.
+- Đa dạng hóa nội dung: Tùy vào bối cảnh, hãy sáng tạo một trong các loại thông điệp sau:
+${describeCategories(persona.categories, preferences?.distribution)}${preferences ? describePreferences(preferences) : ""}${describeRecentMessages(recentMessages)}
+- Ngôn ngữ: Chỉ sử dụng ${getLanguageName(persona.language)}.
+- Định dạng: ${describeThoughtFormat(actions)}${memoryInstruction}`;
+}
+
+/**
+ * Tin nhắn mô tả bối cảnh hiện tại gửi kèm system instruction của thông điệp tự phát
+ * @param template Template đã được kiểm tra, giá trị người dùng nhập (như thành phố) được escape khi render
+ */
+export function buildThoughtUserQuery(context: ThoughtContext, profile: IUserProfile, persona: IPersona, template: string): string {
+  return renderTemplate(template, {
+    timeOfDay: context.timeOfDay,
+    weather: context.weather ?? "",
+    city: context.city,
+    minutesSinceBreak: context.minutesSinceBreak ?? 0,
+    focusStreakMinutes: context.focusStreakMinutes ?? 0,
+    petName: persona.name,
+    userName: getUserName(profile),
+  });
+}
+
+/**
+ * System instruction cho cuộc trò chuyện hai chiều
+ */
+export function buildChatSystemInstruction(persona: IPersona, profile: IUserProfile, memoryInstruction = ""): string {
+  const name = getUserName(profile);
+  return `${describePersona(persona)} ${describeUser(profile)}
+
+Quy tắc khi trả lời:
+- Trả lời ngắn gọn (dưới 40 từ) để vừa trong một bong bóng suy nghĩ.
+- Lắng nghe, đáp lại đúng điều ${name} vừa nói, có thể hỏi lại nhẹ nhàng để câu chuyện tiếp tục.
+- Giọng văn: Luôn đúng với tính cách và cách nói chuyện của ${getPetName(persona)}, quan tâm và tích cực.
+- Ngôn ngữ: Chỉ sử dụng ${getLanguageName(persona.language)}.
+- Định dạng: Chỉ trả về một chuỗi văn bản thuần túy.${memoryInstruction}`;
+}
+
+/**
+ * System instruction để pet nói lại một lời nhắc sức khỏe theo cách của mình
+ */
+export function buildReminderSystemInstruction(persona: IPersona, profile: IUserProfile): string {
+  const name = getUserName(profile);
+  return `${describePersona(persona)} ${describeUser(profile)}
+
+Nhiệm vụ: Nhắc ${name} làm đúng việc được ghi trong tin nhắn tiếp theo.
+Quy tắc:
+- Chỉ một câu ngắn (dưới 25 từ), giữ nguyên ý của lời nhắc, không thêm việc khác.
+- Giọng văn: Đúng với tính cách và cách nói chuyện của ${getPetName(persona)}, nhẹ nhàng, không ra lệnh.
+- Ngôn ngữ: Chỉ sử dụng ${getLanguageName(persona.language)}.
+- Định dạng: Chỉ trả về một chuỗi văn bản thuần túy.`;
+}
+
+/**
+ * Phần trí nhớ nối vào cuối system instruction, rỗng nếu chưa nhớ gì
+ */
+export function buildMemoryInstruction(memoryContext: string, profile: IUserProfile): string {
+  if (!memoryContext) return "";
+  return `\n\nKý ức của bạn về ${getUserName(profile)} (dùng một cách tự nhiên khi phù hợp, không lặp lại nguyên văn):\n${memoryContext}`;
+}
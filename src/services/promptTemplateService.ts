@@ -0,0 +1,54 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { validateTemplate } from "../utils/promptTemplate";
+import { DefaultConfigName } from "../types/ISetting";
+import { IPromptTemplates, PromptTemplateName } from "../types/IPromptTemplate";
+import { DEFAULT_PROMPT_TEMPLATES } from "../config/prompt_templates";
+
+/**
+ * Service đọc các template prompt người dùng đã chỉnh (prompt_templates.json trong thư mục cấu hình)
+ */
+class PromptTemplateService {
+  private templates: IPromptTemplates | null = null;
+
+  /**
+   * Đọc lại file template ở lần truy cập tiếp theo (gọi khi cửa sổ khác vừa lưu template)
+   */
+  public invalidate(): void {
+    this.templates = null;
+  }
+
+  /**
+   * Lấy template để dùng, template lỗi (do sửa tay trong file) được thay bằng template mặc định
+   */
+  public async getTemplates(): Promise<IPromptTemplates> {
+    if (!this.templates) {
+      const saved: Partial<IPromptTemplates> | undefined = await getAppSettings({ configName: DefaultConfigName.PROMPT_TEMPLATES, withErrorDialog: false });
+      const templates = { ...DEFAULT_PROMPT_TEMPLATES };
+
+      Object.values(PromptTemplateName).forEach((name) => {
+        const template = saved?.[name];
+        if (typeof template !== "string") return;
+
+        if (validateTemplate(template).length === 0) {
+          templates[name] = template;
+        } else {
+          console.warn(`⚠️ Template "${name}" không hợp lệ, dùng template mặc định`);
+        }
+      });
+
+      this.templates = templates;
+    }
+    return this.templates!;
+  }
+
+  /**
+   * Lưu template, chỉ gọi sau khi đã kiểm tra bằng validateTemplate
+   */
+  public saveTemplates(templates: IPromptTemplates): void {
+    this.templates = { ...templates };
+    setConfig({ configName: DefaultConfigName.PROMPT_TEMPLATES, newConfig: templates });
+  }
+}
+
+// Export singleton instance
+export const promptTemplateService = new PromptTemplateService();
@@ -0,0 +1,62 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { IRecentMessage } from "../types/IRecentMessage";
+import { SIMILARITY_THRESHOLD, hashMessage, tokenOverlap } from "../utils/messageSimilarity";
+
+/**
+ * Vòng đệm các thông điệp tự phát đã hiện trong vài ngày gần đây (recent_messages.json),
+ * dùng để không lặp lại câu cũ hoặc câu gần giống
+ */
+class RecentMessageService {
+  private messages: IRecentMessage[] | null = null;
+  private readonly MAX_MESSAGES = 100;
+  private readonly MAX_AGE_DAYS = 3;
+
+  /**
+   * Ghi lại một thông điệp vừa hiện, thông điệp cũ nhất bị đẩy ra khi vòng đệm đầy
+   */
+  public async record(text: string): Promise<void> {
+    const messages = await this.load();
+    messages.push({ text, hash: hashMessage(text), timestamp: Date.now() });
+    this.save(messages.slice(-this.MAX_MESSAGES));
+  }
+
+  /**
+   * Thông điệp có trùng hoặc quá giống một câu đã hiện trong vài ngày gần đây không
+   */
+  public async isRepeat(text: string): Promise<boolean> {
+    const hash = hashMessage(text);
+    const messages = await this.getRecentMessages();
+    return messages.some((message) => message.hash === hash || tokenOverlap(message.text, text) >= SIMILARITY_THRESHOLD);
+  }
+
+  /**
+   * Các thông điệp gần nhất, mới nhất trước, để nhắc AI đừng lặp lại
+   */
+  public async getRecentTexts(limit: number): Promise<string[]> {
+    const messages = await this.getRecentMessages();
+    return messages.slice(-limit).reverse().map((message) => message.text);
+  }
+
+  private async getRecentMessages(): Promise<IRecentMessage[]> {
+    const since = Date.now() - this.MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+    const messages = await this.load();
+    return messages.filter((message) => message.timestamp >= since);
+  }
+
+  private async load(): Promise<IRecentMessage[]> {
+    if (!this.messages) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.RECENT_MESSAGES, withErrorDialog: false });
+      this.messages = Array.isArray(saved) ? saved : [];
+    }
+    return this.messages!;
+  }
+
+  private save(messages: IRecentMessage[]): void {
+    this.messages = messages;
+    setConfig({ configName: DefaultConfigName.RECENT_MESSAGES, newConfig: messages });
+  }
+}
+
+// Export singleton instance
+export const recentMessageService = new RecentMessageService();
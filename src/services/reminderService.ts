@@ -0,0 +1,130 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { useSettingStore } from "../hooks/useSettingStore";
+import { IPersona } from "../types/IPersona";
+import { IReminder, IReminderState } from "../types/IReminder";
+import { getQuietReason } from "../utils/quietMode";
+import { getReminderText, isReminderDue } from "../utils/reminders";
+import { breathingService } from "./breathingService";
+import { crisisSupportService } from "./crisisSupportService";
+import { generateReminderMessage } from "./geminiService";
+import { timeTracker } from "./timeTrackingService";
+import { usageStatsService } from "./usageStatsService";
+
+type ReminderListener = (reminder: IReminder) => void;
+
+/**
+ * Lời nhắc sức khỏe do người dùng đặt (uống nước, vươn vai, nghỉ mắt...), chạy trong cửa sổ pet.
+ * Lời nhắc đến hạn lúc pets phải im lặng hoặc người dùng rời máy sẽ đợi tới khi hết.
+ * Lần hiện cuối và thời gian tạm hoãn được lưu (reminder_states.json) để không mất khi mở lại app
+ */
+class ReminderService {
+  private states: Record<string, IReminderState> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startedAt = Date.now();
+  private listeners: Set<ReminderListener> = new Set();
+  private readonly TICK_MS = 30 * 1000;
+  public readonly SNOOZE_MINUTES = 10;
+
+  /**
+   * Được gọi khi một lời nhắc cần được pet nói ra
+   * @returns Hàm hủy đăng ký
+   */
+  public onReminder(listener: ReminderListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    // lời nhắc chưa hiện lần nào được tính từ lúc mở app, không nhắc ngay khi vừa mở
+    this.startedAt = Date.now();
+    this.timer = setInterval(() => this.tick(), this.TICK_MS);
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Câu pet sẽ nói: lời nhắc của người dùng, hoặc do AI nói lại theo tính cách pet nếu được bật
+   */
+  public async getMessage(reminder: IReminder, persona: IPersona): Promise<string> {
+    const text = getReminderText(reminder);
+    if (!reminder.useAI) return text;
+
+    const response = await generateReminderMessage(text, persona);
+    return response.message;
+  }
+
+  public async snooze(reminderId: string): Promise<void> {
+    const snoozedUntil = Date.now() + this.SNOOZE_MINUTES * 60 * 1000;
+    await this.updateState(reminderId, (state) => ({ ...state, snoozedUntil }));
+    console.log(`😴 Nhắc lại ${reminderId} sau ${this.SNOOZE_MINUTES} phút`);
+  }
+
+  /**
+   * Người dùng bấm "xong", được tính vào thống kê của ngày hôm nay.
+   * Khoảng nhắc tiếp theo được tính từ lúc này
+   */
+  public async complete(reminderId: string): Promise<void> {
+    const reminder = useSettingStore.getState().reminders.find((reminder) => reminder.id === reminderId);
+    if (!reminder) return;
+
+    const now = Date.now();
+    await this.updateState(reminderId, () => ({ lastShownAt: now, snoozedUntil: 0 }));
+    usageStatsService.recordReminderDone(reminder.type);
+    console.log(`✅ Người dùng đã làm theo lời nhắc ${reminder.type}`);
+  }
+
+  private async tick(): Promise<void> {
+    // lời nhắc đến hạn giữa bài tập thở đợi tới lượt sau
+    if (crisisSupportService.isActive() || breathingService.isActive() || !timeTracker.isUserActive()) return;
+
+    const now = new Date();
+    if (getQuietReason(useSettingStore.getState(), now)) return;
+
+    const states = await this.load();
+    for (const reminder of useSettingStore.getState().reminders) {
+      if (!isReminderDue(reminder, this.getState(states, reminder.id), now)) continue;
+
+      this.updateState(reminder.id, () => ({ lastShownAt: now.getTime(), snoozedUntil: 0 }));
+      console.log(`⏰ Đến giờ nhắc ${reminder.type} (${reminder.id})`);
+      this.listeners.forEach((listener) => listener(reminder));
+    }
+  }
+
+  private getState(states: Record<string, IReminderState>, reminderId: string): IReminderState {
+    return states[reminderId] ?? { lastShownAt: this.startedAt, snoozedUntil: 0 };
+  }
+
+  /**
+   * Sửa trạng thái của một lời nhắc trên bản hiện tại sau khi đọc xong, để không làm mất thay đổi
+   * được ghi trong lúc chờ đọc file
+   */
+  private async updateState(reminderId: string, change: (state: IReminderState) => IReminderState): Promise<void> {
+    const loaded = await this.load();
+    const states = this.states ?? loaded;
+    this.save({ ...states, [reminderId]: change(this.getState(states, reminderId)) });
+  }
+
+  private async load(): Promise<Record<string, IReminderState>> {
+    if (!this.states) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.REMINDER_STATES, withErrorDialog: false });
+      // một lần gọi khác có thể đã đọc và ghi trong lúc file đang được đọc
+      if (!this.states) this.states = saved && typeof saved === "object" && !Array.isArray(saved) ? saved : {};
+    }
+    return this.states!;
+  }
+
+  private save(states: Record<string, IReminderState>): void {
+    // bỏ trạng thái của những lời nhắc đã bị xóa
+    const reminderIds = new Set(useSettingStore.getState().reminders.map((reminder) => reminder.id));
+    this.states = Object.fromEntries(Object.entries(states).filter(([id]) => reminderIds.has(id)));
+    setConfig({ configName: DefaultConfigName.REMINDER_STATES, newConfig: this.states });
+  }
+}
+
+// Export singleton instance
+export const reminderService = new ReminderService();
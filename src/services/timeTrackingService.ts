@@ -1,15 +1,42 @@
+import { invoke } from "@tauri-apps/api/tauri";
+import { useSettingStore } from "../hooks/useSettingStore";
+import { IActivityState } from "../types/IActivity";
+import {
+  createActivityState,
+  getBreakMs,
+  getFocusStreakMs,
+  getSessionMs,
+  isUserActive,
+  recordActivity,
+  recordIdleTime,
+  resetSession,
+} from "../utils/activityTracking";
+
 /**
- * Service theo dõi thời gian sử dụng ứng dụng
+ * Service theo dõi thời gian làm việc thật sự của người dùng, dựa vào chuột (vị trí được đọc
+ * định kỳ trong scene) và thời gian không thao tác của hệ thống (get_idle_time, tính cả bàn phím
+ * ở các app khác). Rời máy thì đồng hồ tạm dừng, nghỉ đủ lâu thì bắt đầu phiên mới
  */
 class TimeTrackingService {
   private static instance: TimeTrackingService;
   private startTime: number;
-  private lastResetTime: number;
+  private activity: IActivityState;
+  private lastMousePosition: { x: number; y: number } | null = null;
+  private breakListeners: Set<() => void> = new Set();
+  private idleTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly IDLE_POLL_MS = 15 * 1000;
   private readonly LONG_SESSION_THRESHOLD = 20 * 60 * 1000; // 20 phút tính bằng milliseconds
 
   private constructor() {
     this.startTime = Date.now();
-    this.lastResetTime = Date.now();
+    this.activity = createActivityState(Date.now());
+
+    // ngay khi thao tác trong cửa sổ của app, không cần đợi lần đọc thời gian không thao tác tiếp theo
+    if (typeof window !== "undefined") {
+      ["keydown", "pointerdown", "wheel"].forEach((eventName) => {
+        window.addEventListener(eventName, () => this.recordActivity(), { passive: true });
+      });
+    }
   }
 
   public static getInstance(): TimeTrackingService {
@@ -20,21 +47,115 @@ class TimeTrackingService {
   }
 
   /**
-   * Kiểm tra xem đã sử dụng lâu chưa (> 20 phút kể từ lần reset cuối)
+   * Đọc định kỳ thời gian không thao tác của hệ thống, chỉ chạy trong cửa sổ pet
+   */
+  public start(): void {
+    if (this.idleTimer) return;
+    this.idleTimer = setInterval(() => this.pollIdleTime(), this.IDLE_POLL_MS);
+  }
+
+  public stop(): void {
+    if (this.idleTimer) clearInterval(this.idleTimer);
+    this.idleTimer = null;
+  }
+
+  private async pollIdleTime(): Promise<void> {
+    try {
+      // null khi hệ điều hành không cho đọc, lúc đó chỉ còn chuột và bàn phím trong app
+      const idleSeconds = await invoke<number | null>("get_idle_time");
+      if (typeof idleSeconds === "number") this.recordIdleTime(idleSeconds * 1000);
+    } catch (error) {
+      console.error("❌ Lỗi khi đọc thời gian không thao tác:", error);
+    }
+  }
+
+  /**
+   * Ghi nhận thời gian kể từ lần thao tác cuối trên cả máy (gõ phím ở app khác cũng tính)
+   */
+  public recordIdleTime(idleMs: number): void {
+    const now = Date.now();
+    this.update(recordIdleTime(this.activity, now, idleMs, this.getBreakMs()), now - idleMs);
+  }
+
+  /**
+   * Ghi nhận vị trí chuột đọc được từ get_mouse_position, chuột di chuyển nghĩa là người dùng đang ở máy
+   */
+  public recordMousePosition(x: number, y: number): void {
+    const moved = this.lastMousePosition !== null && (this.lastMousePosition.x !== x || this.lastMousePosition.y !== y);
+    this.lastMousePosition = { x, y };
+    if (moved) this.recordActivity();
+  }
+
+  /**
+   * Ghi nhận một lần người dùng thao tác (gõ phím, bấm chuột...)
+   */
+  public recordActivity(): void {
+    const now = Date.now();
+    this.update(recordActivity(this.activity, now, this.getBreakMs()), now);
+  }
+
+  private getBreakMs(): number {
+    return getBreakMs(useSettingStore.getState().breakResetMinutes);
+  }
+
+  /**
+   * @param inputAt Lúc người dùng thao tác, dùng để tính họ đã rời máy bao lâu
+   */
+  private update(next: IActivityState, inputAt: number): void {
+    const previous = this.activity;
+    this.activity = next;
+
+    if (this.activity.sessionStart !== previous.sessionStart) {
+      console.log(`🌿 Người dùng đã nghỉ ${Math.floor((inputAt - previous.lastActivity) / (1000 * 60))} phút, bắt đầu phiên mới`);
+      this.breakListeners.forEach((listener) => listener());
+    } else if (this.activity.focusStreakStart !== previous.focusStreakStart) {
+      console.log(`👋 Người dùng quay lại sau ${Math.floor((inputAt - previous.lastActivity) / (1000 * 60))} phút, đồng hồ chạy tiếp`);
+    }
+  }
+
+  /**
+   * Được gọi mỗi khi người dùng quay lại sau một lần nghỉ đủ lâu
+   * @returns Hàm hủy đăng ký
+   */
+  public onBreak(listener: () => void): () => void {
+    this.breakListeners.add(listener);
+    return () => this.breakListeners.delete(listener);
+  }
+
+  /**
+   * Người dùng có đang ở máy không (có thao tác trong vài phút gần đây)
+   */
+  public isUserActive(): boolean {
+    return isUserActive(this.activity, Date.now());
+  }
+
+  /**
+   * Số phút làm việc liên tục không rời máy, 0 nếu người dùng đang không ở máy
+   */
+  public getCurrentFocusStreak(): number {
+    return Math.floor(getFocusStreakMs(this.activity, Date.now()) / (1000 * 60));
+  }
+
+  /**
+   * Kiểm tra xem đã làm việc lâu chưa (> 20 phút kể từ lần reset cuối, không tính lúc rời máy).
+   * Người dùng không ở máy thì không cần nhắc nghỉ
    */
   public isLongSession(): boolean {
-    const currentTime = Date.now();
-    const timeSinceLastReset = currentTime - this.lastResetTime;
-    return timeSinceLastReset >= this.LONG_SESSION_THRESHOLD;
+    return this.isUserActive() && getSessionMs(this.activity, Date.now()) >= this.LONG_SESSION_THRESHOLD;
   }
 
   /**
-   * Lấy thời gian đã sử dụng kể từ lần reset cuối (tính bằng phút)
+   * Lấy thời gian làm việc kể từ lần reset cuối, không tính lúc rời máy (tính bằng phút)
    */
   public getTimeSinceLastReset(): number {
-    const currentTime = Date.now();
-    const timeDiff = currentTime - this.lastResetTime;
-    return Math.floor(timeDiff / (1000 * 60)); // Trả về số phút
+    return Math.floor(getSessionMs(this.activity, Date.now()) / (1000 * 60)); // Trả về số phút
+  }
+
+  /**
+   * Ngưỡng được coi là làm việc lâu (tính bằng phút)
+   */
+  public getLongSessionMinutes(): number {
+    return this.LONG_SESSION_THRESHOLD / (1000 * 60);
   }
 
   /**
@@ -50,7 +171,7 @@ class TimeTrackingService {
    * Reset thời gian - gọi sau khi đã hiển thị thông điệp nghỉ ngơi
    */
   public resetTimer(): void {
-    this.lastResetTime = Date.now();
+    this.activity = resetSession(this.activity, Date.now());
     console.log("⏰ Timer đã được reset - bắt đầu theo dõi phiên mới");
   }
 
@@ -62,8 +183,10 @@ class TimeTrackingService {
       totalMinutes: this.getTotalUsageTime(),
       minutesSinceLastReset: this.getTimeSinceLastReset(),
       isLongSession: this.isLongSession(),
+      isUserActive: this.isUserActive(),
+      focusStreakMinutes: this.getCurrentFocusStreak(),
       startTime: new Date(this.startTime).toLocaleString('vi-VN'),
-      lastResetTime: new Date(this.lastResetTime).toLocaleString('vi-VN'),
+      lastResetTime: new Date(this.activity.sessionStart).toLocaleString('vi-VN'),
     };
   }
 }
@@ -0,0 +1,90 @@
+import { getAppSettings, setConfig } from "../utils/settings";
+import { DefaultConfigName } from "../types/ISetting";
+import { IDailyUsage } from "../types/IUsageStats";
+import { ReminderType } from "../types/IReminder";
+import { countRemindersDone, getDateKey, getHourlyActiveMinutes, updateDailyUsage } from "../utils/usageStats";
+import { timeTracker } from "./timeTrackingService";
+
+/**
+ * Thống kê sử dụng theo từng ngày (usage_stats.json): số phút làm việc (cả theo từng giờ), số lần nghỉ
+ * và chuỗi tập trung dài nhất. Chỉ cửa sổ pet ghi, cửa sổ cài đặt chỉ đọc
+ */
+class UsageStatsService {
+  private records: IDailyUsage[] | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private stopListeningBreaks: (() => void) | null = null;
+  private readonly TICK_MS = 60 * 1000;
+
+  public invalidate(): void {
+    this.records = null;
+  }
+
+  public async getRecords(): Promise<IDailyUsage[]> {
+    return this.load();
+  }
+
+  /**
+   * Bắt đầu ghi thống kê: mỗi phút người dùng ở máy được tính là một phút làm việc
+   */
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.recordMinute(), this.TICK_MS);
+    this.stopListeningBreaks = timeTracker.onBreak(() => this.recordBreak());
+    console.log("📊 Bắt đầu ghi thống kê sử dụng");
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.stopListeningBreaks?.();
+    this.stopListeningBreaks = null;
+  }
+
+  private async recordMinute(): Promise<void> {
+    if (!timeTracker.isUserActive()) return;
+
+    const focusStreak = timeTracker.getCurrentFocusStreak();
+    const currentHour = new Date().getHours();
+    await this.updateToday((day) => ({
+      ...day,
+      activeMinutes: day.activeMinutes + 1,
+      longestFocusStreak: Math.max(day.longestFocusStreak, focusStreak),
+      activeMinutesByHour: getHourlyActiveMinutes(day).map((minutes, hour) => hour === currentHour ? minutes + 1 : minutes),
+    }));
+  }
+
+  private async recordBreak(): Promise<void> {
+    await this.updateToday((day) => ({ ...day, breakCount: day.breakCount + 1 }));
+  }
+
+  /**
+   * Người dùng đã làm theo một lời nhắc sức khỏe (uống nước, vươn vai...)
+   */
+  public async recordReminderDone(type: ReminderType): Promise<void> {
+    await this.updateToday((day) => ({
+      ...day,
+      remindersDone: { ...day.remindersDone, [type]: countRemindersDone(day, type) + 1 },
+    }));
+  }
+
+  private async updateToday(change: (day: IDailyUsage) => IDailyUsage): Promise<void> {
+    const records = await this.load();
+    this.save(updateDailyUsage(records, getDateKey(new Date()), change));
+  }
+
+  private async load(): Promise<IDailyUsage[]> {
+    if (!this.records) {
+      const saved = await getAppSettings({ configName: DefaultConfigName.USAGE_STATS, withErrorDialog: false });
+      this.records = Array.isArray(saved) ? saved : [];
+    }
+    return this.records!;
+  }
+
+  private save(records: IDailyUsage[]): void {
+    this.records = records;
+    setConfig({ configName: DefaultConfigName.USAGE_STATS, newConfig: records });
+  }
+}
+
+// Export singleton instance
+export const usageStatsService = new UsageStatsService();
@@ -0,0 +1,99 @@
+import {
+  ICurrentWeather,
+  IDailyForecast,
+  IHourlyForecast,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherUnits,
+} from "../../types/IWeather";
+import { getWeatherLocationKey } from "../../utils/weather";
+
+const MINUTE = 60 * 1000;
+
+export interface IWeatherCacheTtl {
+  currentMs: number;
+  forecastMs: number;
+}
+
+// the weather does not change every AI tick, and the free plans limit the number of calls
+export const DEFAULT_WEATHER_CACHE_TTL: IWeatherCacheTtl = {
+  currentMs: 10 * MINUTE,
+  forecastMs: 30 * MINUTE,
+};
+
+interface ICacheEntry {
+  expiresAt: number;
+  value: Promise<unknown>;
+}
+
+/**
+ * Bọc một provider và giữ kết quả trong một khoảng thời gian, nhiều pet hỏi cùng lúc
+ * cũng chỉ gọi API một lần. Lỗi không được giữ lại để lần sau thử lại
+ */
+export class CachedWeatherProvider implements WeatherProvider {
+  private entries: Map<string, ICacheEntry> = new Map();
+
+  constructor(
+    private readonly provider: WeatherProvider,
+    private readonly ttl: IWeatherCacheTtl = DEFAULT_WEATHER_CACHE_TTL,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  public get type() {
+    return this.provider.type;
+  }
+
+  public hasCredentials(): Promise<boolean> {
+    return this.provider.hasCredentials();
+  }
+
+  public getCurrent(location: WeatherLocation, units: WeatherUnits): Promise<ICurrentWeather> {
+    return this.remember(
+      `current|${units}|${getWeatherLocationKey(location)}`,
+      this.ttl.currentMs,
+      () => this.provider.getCurrent(location, units),
+    );
+  }
+
+  public getHourlyForecast(location: WeatherLocation, units: WeatherUnits, hours: number): Promise<IHourlyForecast[]> {
+    return this.remember(
+      `hourly|${hours}|${units}|${getWeatherLocationKey(location)}`,
+      this.ttl.forecastMs,
+      () => this.provider.getHourlyForecast(location, units, hours),
+    );
+  }
+
+  public getDailyForecast(location: WeatherLocation, units: WeatherUnits, days: number): Promise<IDailyForecast[]> {
+    return this.remember(
+      `daily|${days}|${units}|${getWeatherLocationKey(location)}`,
+      this.ttl.forecastMs,
+      () => this.provider.getDailyForecast(location, units, days),
+    );
+  }
+
+  /**
+   * Bỏ hết kết quả đã lưu, ví dụ khi người dùng vừa thêm API key
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private remember<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    const now = this.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) return cached.value as Promise<T>;
+
+    // drop what has expired, so the cache does not grow with every city the user typed
+    this.entries.forEach((entry, entryKey) => {
+      if (entry.expiresAt <= now) this.entries.delete(entryKey);
+    });
+
+    const value = load();
+    const entry: ICacheEntry = { expiresAt: now + ttlMs, value };
+    this.entries.set(key, entry);
+    value.catch(() => {
+      if (this.entries.get(key) === entry) this.entries.delete(key);
+    });
+    return value;
+  }
+}
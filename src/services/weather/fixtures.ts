@@ -0,0 +1,36 @@
+import { IWeatherFixture, WeatherCondition } from "../../types/IWeather";
+
+// used for every place without its own fixture
+export const DEFAULT_WEATHER_FIXTURE_KEY = "default";
+
+// keyed like getWeatherLocationKey
+export const WEATHER_FIXTURES: Record<string, IWeatherFixture> = {
+  [DEFAULT_WEATHER_FIXTURE_KEY]: {
+    current: { condition: WeatherCondition.PartlyCloudy, temperature: 31, feelsLike: 34, humidity: 70, windSpeed: 3, locationName: "Ho Chi Minh City", country: "VN" },
+    hourly: [
+      { condition: WeatherCondition.PartlyCloudy, temperature: 31, precipitationChance: 10 },
+      { condition: WeatherCondition.Cloudy, temperature: 30, precipitationChance: 30 },
+      { condition: WeatherCondition.Rain, temperature: 28, precipitationChance: 70 },
+      { condition: WeatherCondition.Thunderstorm, temperature: 27, precipitationChance: 90 },
+      { condition: WeatherCondition.Rain, temperature: 27, precipitationChance: 60 },
+      { condition: WeatherCondition.Cloudy, temperature: 27, precipitationChance: 20 },
+    ],
+    daily: [
+      { condition: WeatherCondition.Thunderstorm, minTemperature: 25, maxTemperature: 33, precipitationChance: 90 },
+      { condition: WeatherCondition.Rain, minTemperature: 25, maxTemperature: 32, precipitationChance: 60 },
+      { condition: WeatherCondition.PartlyCloudy, minTemperature: 26, maxTemperature: 34, precipitationChance: 20 },
+    ],
+  },
+  "city:hanoi": {
+    current: { condition: WeatherCondition.Drizzle, temperature: 18, feelsLike: 17, humidity: 90, windSpeed: 4, locationName: "Hà Nội", country: "VN" },
+    hourly: [
+      { condition: WeatherCondition.Drizzle, temperature: 18, precipitationChance: 60 },
+      { condition: WeatherCondition.Fog, temperature: 17, precipitationChance: 40 },
+      { condition: WeatherCondition.Cloudy, temperature: 17, precipitationChance: 20 },
+    ],
+    daily: [
+      { condition: WeatherCondition.Drizzle, minTemperature: 15, maxTemperature: 19, precipitationChance: 60 },
+      { condition: WeatherCondition.Cloudy, minTemperature: 14, maxTemperature: 20, precipitationChance: 20 },
+    ],
+  },
+};
@@ -0,0 +1,36 @@
+import { WeatherProvider, WeatherProviderType } from "../../types/IWeather";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { OpenWeatherMapProvider } from "./openWeatherMapProvider";
+import { OpenMeteoProvider } from "./openMeteoProvider";
+import { MockWeatherProvider } from "./mockProvider";
+import { CachedWeatherProvider } from "./cachedWeatherProvider";
+
+/**
+ * Tạo provider thời tiết theo loại, không có cache
+ */
+export function createWeatherProvider(type: WeatherProviderType): WeatherProvider {
+  switch (type) {
+    case WeatherProviderType.OpenMeteo:
+      return new OpenMeteoProvider();
+    case WeatherProviderType.Mock:
+      return new MockWeatherProvider();
+    case WeatherProviderType.OpenWeatherMap:
+    default:
+      return new OpenWeatherMapProvider();
+  }
+}
+
+let cachedProvider: CachedWeatherProvider | null = null;
+
+/**
+ * Lấy provider đang được chọn trong cài đặt, kèm cache (tái sử dụng instance nếu loại không đổi)
+ */
+export function getActiveWeatherProvider(): CachedWeatherProvider {
+  const { weatherProvider } = useSettingStore.getState();
+
+  if (!cachedProvider || cachedProvider.type !== weatherProvider) {
+    cachedProvider = new CachedWeatherProvider(createWeatherProvider(weatherProvider));
+  }
+
+  return cachedProvider;
+}
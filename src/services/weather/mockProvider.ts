@@ -0,0 +1,78 @@
+import {
+  ICurrentWeather,
+  IDailyForecast,
+  IHourlyForecast,
+  IWeatherFixture,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherProviderType,
+  WeatherUnits,
+} from "../../types/IWeather";
+import { celsiusToUnits, formatWeatherLocation, getWeatherLocationKey, metersPerSecondToUnits } from "../../utils/weather";
+import { getDateKey } from "../../utils/usageStats";
+import { DEFAULT_WEATHER_FIXTURE_KEY, WEATHER_FIXTURES } from "./fixtures";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Provider giả lập, trả lời bằng dữ liệu mẫu thay vì gọi mạng.
+ * Dùng để chạy thử pets và để test mà không cần API key
+ */
+export class MockWeatherProvider implements WeatherProvider {
+  public readonly type = WeatherProviderType.Mock;
+
+  constructor(
+    private readonly fixtures: Record<string, IWeatherFixture> = WEATHER_FIXTURES,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  public async hasCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  public async getCurrent(location: WeatherLocation, units: WeatherUnits): Promise<ICurrentWeather> {
+    const { current } = this.getFixture(location);
+
+    return {
+      ...current,
+      temperature: celsiusToUnits(current.temperature, units),
+      feelsLike: celsiusToUnits(current.feelsLike, units),
+      windSpeed: metersPerSecondToUnits(current.windSpeed, units),
+      units,
+      observedAt: this.now(),
+    };
+  }
+
+  public async getHourlyForecast(location: WeatherLocation, units: WeatherUnits, hours: number): Promise<IHourlyForecast[]> {
+    const { hourly } = this.getFixture(location);
+    const currentHour = Math.floor(this.now() / HOUR) * HOUR;
+
+    return Array.from({ length: hours }, (_, index) => {
+      const hour = hourly[index % hourly.length];
+      return { ...hour, time: currentHour + index * HOUR, temperature: celsiusToUnits(hour.temperature, units) };
+    });
+  }
+
+  public async getDailyForecast(location: WeatherLocation, units: WeatherUnits, days: number): Promise<IDailyForecast[]> {
+    const { daily } = this.getFixture(location);
+    const today = new Date(this.now());
+
+    return Array.from({ length: days }, (_, index) => {
+      const day = daily[index % daily.length];
+      return {
+        ...day,
+        date: getDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + index)),
+        minTemperature: celsiusToUnits(day.minTemperature, units),
+        maxTemperature: celsiusToUnits(day.maxTemperature, units),
+      };
+    });
+  }
+
+  private getFixture(location: WeatherLocation): IWeatherFixture {
+    const fixture = this.fixtures[getWeatherLocationKey(location)] ?? this.fixtures[DEFAULT_WEATHER_FIXTURE_KEY];
+    if (!fixture) {
+      throw new Error(`Không tìm thấy thông tin thời tiết cho "${formatWeatherLocation(location)}"`);
+    }
+    return fixture;
+  }
+}
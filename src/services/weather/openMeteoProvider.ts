@@ -0,0 +1,140 @@
+import {
+  ICurrentWeather,
+  IDailyForecast,
+  IHourlyForecast,
+  IWeatherCoordinates,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherProviderType,
+  WeatherUnits,
+} from "../../types/IWeather";
+import { formatWeatherLocation, getWeatherLocationKey, getWmoCondition } from "../../utils/weather";
+
+export const OPEN_METEO_BASE_URL = "https://api.open-meteo.com/v1";
+export const OPEN_METEO_GEOCODING_URL = "https://geocoding-api.open-meteo.com/v1";
+const MAX_FORECAST_DAYS = 16;
+
+interface IGeocodedPlace extends IWeatherCoordinates {
+  name: string;
+  country: string;
+}
+
+/**
+ * Provider cho Open-Meteo, miễn phí và không cần API key. Tên thành phố được đổi sang tọa độ
+ * qua API geocoding của Open-Meteo
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  public readonly type = WeatherProviderType.OpenMeteo;
+  // thành phố không đổi chỗ, chỉ cần tìm tọa độ một lần
+  private places: Map<string, IGeocodedPlace> = new Map();
+
+  public async hasCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  public async getCurrent(location: WeatherLocation, units: WeatherUnits): Promise<ICurrentWeather> {
+    const place = await this.getPlace(location);
+    const data = await this.request(
+      place,
+      units,
+      "current=temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,wind_speed_10m&timeformat=unixtime",
+    );
+
+    return {
+      condition: getWmoCondition(data.current.weather_code),
+      temperature: data.current.temperature_2m,
+      feelsLike: data.current.apparent_temperature,
+      humidity: data.current.relative_humidity_2m,
+      windSpeed: data.current.wind_speed_10m,
+      units,
+      locationName: place.name,
+      country: place.country,
+      observedAt: data.current.time * 1000,
+    };
+  }
+
+  public async getHourlyForecast(location: WeatherLocation, units: WeatherUnits, hours: number): Promise<IHourlyForecast[]> {
+    const place = await this.getPlace(location);
+    const days = Math.min(Math.ceil(hours / 24) + 1, MAX_FORECAST_DAYS);
+    const data = await this.request(
+      place,
+      units,
+      `hourly=temperature_2m,weather_code,precipitation_probability&forecast_days=${days}&timeformat=unixtime`,
+    );
+
+    // the forecast starts at midnight, skip the hours that are already over
+    const currentHour = Date.now() - 60 * 60 * 1000;
+    return (data.hourly.time as number[])
+      .map((time, index): IHourlyForecast => ({
+        time: time * 1000,
+        condition: getWmoCondition(data.hourly.weather_code[index]),
+        temperature: data.hourly.temperature_2m[index],
+        precipitationChance: data.hourly.precipitation_probability[index] ?? 0,
+      }))
+      .filter(({ time }) => time > currentHour)
+      .slice(0, hours);
+  }
+
+  public async getDailyForecast(location: WeatherLocation, units: WeatherUnits, days: number): Promise<IDailyForecast[]> {
+    const place = await this.getPlace(location);
+    const data = await this.request(
+      place,
+      units,
+      `daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max&forecast_days=${Math.min(Math.max(days, 1), MAX_FORECAST_DAYS)}`,
+    );
+
+    return (data.daily.time as string[]).map((date, index): IDailyForecast => ({
+      date,
+      condition: getWmoCondition(data.daily.weather_code[index]),
+      minTemperature: data.daily.temperature_2m_min[index],
+      maxTemperature: data.daily.temperature_2m_max[index],
+      precipitationChance: data.daily.precipitation_probability_max[index] ?? 0,
+    }));
+  }
+
+  private async getPlace(location: WeatherLocation): Promise<IGeocodedPlace> {
+    if (!("city" in location)) {
+      return { ...location, name: formatWeatherLocation(location), country: "" };
+    }
+
+    const key = getWeatherLocationKey(location);
+    const known = this.places.get(key);
+    if (known) return known;
+
+    const response = await fetch(
+      `${OPEN_METEO_GEOCODING_URL}/search?name=${encodeURIComponent(location.city)}&count=1&language=vi&format=json`
+    );
+    if (!response.ok) {
+      throw new Error(`Lỗi API thời tiết: ${response.status}`);
+    }
+
+    const result = (await response.json()).results?.[0];
+    if (!result) {
+      throw new Error(`Không tìm thấy thông tin thời tiết cho "${location.city}"`);
+    }
+
+    const place: IGeocodedPlace = {
+      latitude: result.latitude,
+      longitude: result.longitude,
+      name: result.name,
+      country: result.country_code ?? "",
+    };
+    this.places.set(key, place);
+    return place;
+  }
+
+  private async request(place: IWeatherCoordinates, units: WeatherUnits, params: string): Promise<any> {
+    const unitParams = units === WeatherUnits.Imperial
+      ? "temperature_unit=fahrenheit&wind_speed_unit=mph"
+      : "temperature_unit=celsius&wind_speed_unit=ms";
+    const response = await fetch(
+      `${OPEN_METEO_BASE_URL}/forecast?latitude=${place.latitude}&longitude=${place.longitude}&${unitParams}&timezone=auto&${params}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Lỗi API thời tiết: ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
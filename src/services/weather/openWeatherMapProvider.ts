@@ -0,0 +1,92 @@
+import { credentialService } from "../credentialService";
+import { CredentialProvider } from "../../types/ICredential";
+import {
+  ICurrentWeather,
+  IDailyForecast,
+  IHourlyForecast,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherProviderType,
+  WeatherUnits,
+} from "../../types/IWeather";
+import { formatWeatherLocation, getDailyForecastFromHourly, getOpenWeatherMapCondition } from "../../utils/weather";
+
+export const OPEN_WEATHER_MAP_BASE_URL = "https://api.openweathermap.org/data/2.5";
+// the free forecast goes 5 days ahead in blocks of 3 hours
+const FORECAST_STEP_HOURS = 3;
+const FORECAST_MAX_BLOCKS = 40;
+
+/**
+ * Provider cho OpenWeatherMap, cần API key trong Cài đặt. Gói miễn phí chỉ có dự báo theo từng 3 giờ,
+ * dự báo theo ngày được gộp lại từ đó
+ */
+export class OpenWeatherMapProvider implements WeatherProvider {
+  public readonly type = WeatherProviderType.OpenWeatherMap;
+
+  public async hasCredentials(): Promise<boolean> {
+    const keys = await credentialService.getKeys(CredentialProvider.OpenWeatherMap);
+    return keys.length > 0;
+  }
+
+  public async getCurrent(location: WeatherLocation, units: WeatherUnits): Promise<ICurrentWeather> {
+    const data = await this.request("weather", location, units);
+
+    return {
+      condition: getOpenWeatherMapCondition(data.weather[0].id),
+      temperature: data.main.temp,
+      feelsLike: data.main.feels_like,
+      humidity: data.main.humidity,
+      windSpeed: data.wind.speed,
+      units,
+      locationName: data.name,
+      country: data.sys.country,
+      observedAt: data.dt * 1000,
+    };
+  }
+
+  public async getHourlyForecast(location: WeatherLocation, units: WeatherUnits, hours: number): Promise<IHourlyForecast[]> {
+    const blocks = Math.min(Math.ceil(hours / FORECAST_STEP_HOURS), FORECAST_MAX_BLOCKS);
+    return this.getForecastBlocks(location, units, blocks);
+  }
+
+  public async getDailyForecast(location: WeatherLocation, units: WeatherUnits, days: number): Promise<IDailyForecast[]> {
+    const blocks = await this.getForecastBlocks(location, units, FORECAST_MAX_BLOCKS);
+    return getDailyForecastFromHourly(blocks).slice(0, days);
+  }
+
+  private async getForecastBlocks(location: WeatherLocation, units: WeatherUnits, blocks: number): Promise<IHourlyForecast[]> {
+    const data = await this.request("forecast", location, units, `&cnt=${Math.max(blocks, 1)}`);
+
+    return data.list.map((block: any): IHourlyForecast => ({
+      time: block.dt * 1000,
+      condition: getOpenWeatherMapCondition(block.weather[0].id),
+      temperature: block.main.temp,
+      precipitationChance: Math.round((block.pop ?? 0) * 100),
+    }));
+  }
+
+  private async request(endpoint: string, location: WeatherLocation, units: WeatherUnits, extraParams: string = ""): Promise<any> {
+    const [apiKey] = await credentialService.getKeys(CredentialProvider.OpenWeatherMap);
+    if (!apiKey) {
+      throw new Error("Chưa có API key thời tiết, hãy thêm trong Cài đặt");
+    }
+
+    const place = "city" in location
+      ? `q=${encodeURIComponent(location.city)}`
+      : `lat=${location.latitude}&lon=${location.longitude}`;
+    const response = await fetch(
+      `${OPEN_WEATHER_MAP_BASE_URL}/${endpoint}?${place}&appid=${encodeURIComponent(apiKey)}&units=${units}&lang=vi${extraParams}`
+    );
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new Error(`Không tìm thấy thông tin thời tiết cho "${formatWeatherLocation(location)}"`);
+      } else if (response.status === 401) {
+        throw new Error("API key không hợp lệ");
+      }
+      throw new Error(`Lỗi API thời tiết: ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
@@ -1,13 +1,10 @@
-const WEATHER_API_KEY = "651625ad01482b8a4f1489e72fdd53e8";
-const WEATHER_API_BASE_URL = "https://api.openweathermap.org/data/2.5";
+import { useSettingStore } from "../hooks/useSettingStore";
+import { ICurrentWeather, IDailyForecast, IHourlyForecast, WeatherLocation, WeatherType } from "../types/IWeather";
+import { describeWeather, getWeatherLocation, getWeatherType } from "../utils/weather";
+import { getActiveWeatherProvider } from "./weather";
 
-export interface WeatherData {
-  description: string;
-  temperature: number;
-  city: string;
-  country: string;
-  humidity: number;
-  windSpeed: number;
+export interface WeatherData extends ICurrentWeather {
+  type: WeatherType;
 }
 
 export interface WeatherError {
@@ -16,66 +13,66 @@ export interface WeatherError {
 }
 
 /**
- * Lấy thông tin thời tiết hiện tại từ OpenWeatherMap API
- * @param city Tên thành phố (mặc định: "Ho Chi Minh City")
+ * Nơi người dùng chọn trong cài đặt: tọa độ nếu có, không thì thành phố
+ */
+export function getSettingWeatherLocation(): WeatherLocation {
+  const { city, weatherCoordinates } = useSettingStore.getState();
+  return getWeatherLocation(city, weatherCoordinates);
+}
+
+/**
+ * Lấy thời tiết hiện tại từ provider đang chọn, kết quả được cache nên gọi mỗi lượt AI cũng không sao
+ * @param location Thành phố hoặc tọa độ (mặc định: nơi trong cài đặt)
  * @returns Promise<WeatherData | WeatherError>
  */
-export async function getCurrentWeather(city: string = "Ho Chi Minh City"): Promise<WeatherData | WeatherError> {
+export async function getCurrentWeather(location: WeatherLocation = getSettingWeatherLocation()): Promise<WeatherData | WeatherError> {
   try {
-    const apiUrl = `${WEATHER_API_BASE_URL}/weather?q=${encodeURIComponent(city)}&appid=${WEATHER_API_KEY}&units=metric&lang=vi`;
-    
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      if (response.status === 404) {
-        return { error: `Không tìm thấy thông tin thời tiết cho "${city}"`, code: 404 };
-      } else if (response.status === 401) {
-        return { error: "API key không hợp lệ", code: 401 };
-      } else {
-        return { error: `Lỗi API thời tiết: ${response.status}`, code: response.status };
-      }
-    }
-    
-    const data = await response.json();
-    
-    return {
-      description: data.weather[0].description,
-      temperature: Math.round(data.main.temp),
-      city: data.name,
-      country: data.sys.country,
-      humidity: data.main.humidity,
-      windSpeed: data.wind.speed,
-    };
+    const weather = await getActiveWeatherProvider().getCurrent(location, useSettingStore.getState().weatherUnits);
+    return { ...weather, type: getWeatherType(weather.condition) };
   } catch (error) {
     console.error("Lỗi khi lấy dữ liệu thời tiết:", error);
-    return { error: "Không thể kết nối đến dịch vụ thời tiết" };
+    return { error: error instanceof Error ? error.message : "Không thể kết nối đến dịch vụ thời tiết" };
   }
 }
 
 /**
- * Lấy mô tả thời tiết đơn giản
- * @param city Tên thành phố
- * @returns Promise<string | null>
+ * Dự báo theo giờ bắt đầu từ giờ hiện tại (OpenWeatherMap chỉ có từng khối 3 giờ)
+ */
+export async function getHourlyForecast(hours: number, location: WeatherLocation = getSettingWeatherLocation()): Promise<IHourlyForecast[] | WeatherError> {
+  try {
+    return await getActiveWeatherProvider().getHourlyForecast(location, useSettingStore.getState().weatherUnits, hours);
+  } catch (error) {
+    console.error("Lỗi khi lấy dự báo theo giờ:", error);
+    return { error: error instanceof Error ? error.message : "Không thể kết nối đến dịch vụ thời tiết" };
+  }
+}
+
+/**
+ * Dự báo theo ngày bắt đầu từ hôm nay
  */
-export async function getWeatherDescription(city: string = "Ho Chi Minh City"): Promise<string | null> {
+export async function getDailyForecast(days: number, location: WeatherLocation = getSettingWeatherLocation()): Promise<IDailyForecast[] | WeatherError> {
   try {
-    const weatherData = await getCurrentWeather(city);
-    
-    if ('error' in weatherData) {
-      console.warn("Lỗi lấy thời tiết:", weatherData.error);
-      return null;
-    }
-    
-    return weatherData.description;
+    return await getActiveWeatherProvider().getDailyForecast(location, useSettingStore.getState().weatherUnits, days);
   } catch (error) {
-    console.error("Lỗi lấy mô tả thời tiết:", error);
+    console.error("Lỗi khi lấy dự báo theo ngày:", error);
+    return { error: error instanceof Error ? error.message : "Không thể kết nối đến dịch vụ thời tiết" };
+  }
+}
+
+/**
+ * Lấy mô tả thời tiết đơn giản, ví dụ "nhiều mây, 31°C"
+ * @param location Thành phố hoặc tọa độ
+ * @returns Promise<string | null>
+ */
+export async function getWeatherDescription(location: WeatherLocation = getSettingWeatherLocation()): Promise<string | null> {
+  const weatherData = await getCurrentWeather(location);
+
+  if ('error' in weatherData) {
+    console.warn("Lỗi lấy thời tiết:", weatherData.error);
     return null;
   }
+
+  return describeWeather(weatherData);
 }
 
 /**
@@ -0,0 +1,10 @@
+// what is known about the user being at the computer, times are timestamps in ms
+export interface IActivityState {
+    // start of the working session, moves forward after a rest reminder or a long enough break
+    sessionStart: number,
+    // short idle periods inside the session, they do not count as working time
+    idleMs: number,
+    lastActivity: number,
+    // start of the current stretch without any idle period
+    focusStreakStart: number,
+}
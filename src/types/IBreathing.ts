@@ -0,0 +1,66 @@
+export enum BreathingStep {
+    Inhale = "inhale",
+    Hold = "hold",
+    Exhale = "exhale",
+    // hold again with empty lungs, the fourth side of box breathing
+    HoldEmpty = "holdEmpty",
+}
+
+// length of each step in seconds, a step of 0 seconds is skipped
+export interface IBreathingPattern {
+    inhaleSeconds: number,
+    holdSeconds: number,
+    exhaleSeconds: number,
+    holdEmptySeconds: number,
+}
+
+export interface IBreathingPreset {
+    // also the translation key "breathing preset <id>"
+    id: string,
+    pattern: IBreathingPattern,
+}
+
+// saved in settings.json
+export interface IBreathingSettings {
+    pattern: IBreathingPattern,
+    cycles: number,
+    // the pet walks to the middle of the screen, otherwise it stays where it is
+    moveToCenter: boolean,
+    // lead a breathing exercise instead of only saying it is time for a break after working for long
+    onLongSession: boolean,
+}
+
+// an exercise in progress, the detail of OverlayEventType.BreathingStart
+export interface IBreathingRun {
+    petId: string,
+    pattern: IBreathingPattern,
+    cycles: number,
+    startedAt: number,
+    // what the pet said before starting, e.g. that the user has been working for long
+    intro?: string,
+}
+
+export interface IBreathingEndDetail {
+    run: IBreathingRun,
+    // false when the user stopped before the last cycle
+    completed: boolean,
+}
+
+// one finished exercise, kept in breathing_sessions.json
+export interface IBreathingSession {
+    startedAt: number,
+    endedAt: number,
+    pattern: IBreathingPattern,
+    cycles: number,
+}
+
+export interface IBreathingProgress {
+    step: BreathingStep,
+    // whole seconds left in the step, counted down to 1
+    secondsLeft: number,
+    // how far the step is, from 0 to 1
+    stepProgress: number,
+    // starting from 1
+    cycle: number,
+    isDone: boolean,
+}
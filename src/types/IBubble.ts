@@ -0,0 +1,49 @@
+// higher priorities are shown first and can shorten a bubble that is already on screen
+export enum BubblePriority {
+    // spontaneous thoughts
+    Chatter = 0,
+    // replies in the two-way chat
+    Chat = 1,
+    // break and wellness reminders
+    Reminder = 2,
+    // notices from the app itself, e.g. a missing API key
+    System = 3,
+}
+
+export interface IBubbleRequest {
+    text: string,
+    // pet the bubble is anchored to, system notices may have none
+    petId?: string,
+    priority?: BubblePriority,
+    // how long the message may wait in the queue before it is thrown away
+    ttlMs?: number,
+    // id in the preference model, only messages that can be rated with 👍/👎 have one
+    ratingId?: string,
+    // pet state (e.g. greet, sit, sleep) played while the bubble is on screen
+    action?: string,
+    // more text is on its way, the bubble shows a typing indicator while the text is empty and does not fade out
+    isStreaming?: boolean,
+    // wellness reminder the bubble comes from, the user can mark it as done or snooze it
+    reminderId?: string,
+}
+
+export interface IBubbleMessage {
+    id: number,
+    text: string,
+    petId?: string,
+    priority: BubblePriority,
+    createdAt: number,
+    expiresAt: number,
+    ratingId?: string,
+    action?: string,
+    isStreaming?: boolean,
+    reminderId?: string,
+}
+
+export interface IActiveBubble {
+    message: IBubbleMessage,
+    // a more important message is waiting or the user closed it, the bubble should fade out as soon as its phase allows
+    dismissRequested: boolean,
+    // the user wants the bubble to stay open until they close it
+    pinned: boolean,
+}
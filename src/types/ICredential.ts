@@ -0,0 +1,21 @@
+export enum CredentialProvider {
+    Gemini = "gemini",
+    OpenAICompatible = "openai-compatible",
+    OpenWeatherMap = "openweathermap",
+}
+
+export interface ICredential {
+    id: string;
+    // user friendly name so the user can tell their keys apart, e.g. "personal", "work"
+    label: string;
+    key: string;
+    createdAt: number;
+    rotatedAt?: number;
+}
+
+export type ICredentialStore = Partial<Record<CredentialProvider, ICredential[]>>;
+
+export interface ICredentialTestResult {
+    ok: boolean;
+    error?: string;
+}
@@ -0,0 +1,22 @@
+export interface ICrisisHotline {
+    name: string,
+    // phone number or website
+    contact: string,
+    // police or ambulance rather than a listening line
+    isEmergency?: boolean,
+}
+
+// support lines bundled with the app for one country
+export interface ICrisisResources {
+    // ISO 3166-1 alpha-2 code, e.g. VN, US
+    country: string,
+    countryName: string,
+    hotlines: ICrisisHotline[],
+}
+
+// what the overlay shows when the user's message has signs of a crisis
+export interface ICrisisSupport {
+    // the phrase that was found, kept for the logs
+    phrase: string,
+    resources: ICrisisResources,
+}
@@ -1,6 +1,11 @@
 import { ISpriteConfig } from "./ISpriteConfig";
+import { IUserProfile } from "./IUserProfile";
+import { IQuietHoursRule } from "./IQuietMode";
+import { IFocusTimerState } from "./IFocusTimer";
+import { IReminder } from "./IReminder";
+import { IBreathingSettings } from "./IBreathing";
 
-export type EventValue = boolean | string | ISpriteConfig | number;
+export type EventValue = boolean | string | ISpriteConfig | number | IUserProfile | IQuietHoursRule[] | IFocusTimerState | IReminder[] | IBreathingSettings | string[];
 
 export type TRenderEventListener = {
     event: string,
@@ -15,8 +20,36 @@ export type TRenderEventListener = {
 
 export enum EventType {
     SettingWindowToPetOverlay = 'settingWindowToPetOverlay',
+    // settings changed from the overlay, e.g. the pet quick menu
+    PetOverlayToSettingWindow = 'petOverlayToSettingWindow',
 }
 
+// window events used inside the pet overlay to talk between the phaser scene and react
+export enum OverlayEventType {
+    // ask the scene to open the chat with a pet (e.g. from the global shortcut)
+    PetChatRequest = 'pet-chat-request',
+    PetChatOpen = 'pet-chat-open',
+    PetChatClose = 'pet-chat-close',
+    PetQuickMenuOpen = 'pet-quick-menu-open',
+    PetQuickMenuClose = 'pet-quick-menu-close',
+    // the user wrote something worrying, the detail is an ICrisisSupport
+    CrisisSupportOpen = 'crisis-support-open',
+    // a pet leads a breathing exercise, the detail is an IBreathingRun
+    BreathingStart = 'breathing-start',
+    // the detail is an IBreathingEndDetail
+    BreathingEnd = 'breathing-end',
+}
+
+export interface IPetChatOpenDetail {
+    petId: string,
+    // position of the pet's head on screen, used to anchor the chat input
+    x: number,
+    y: number,
+}
+
+// the quick menu is anchored the same way as the chat
+export type IPetQuickMenuOpenDetail = IPetChatOpenDetail;
+
 export enum DispatchType {
     ChangeAppLanguage = 'Change app language',
     ChangeAppTheme = 'Change app theme',
@@ -29,4 +62,29 @@ export enum DispatchType {
     OverridePetScale = 'Override pet scale',
     ChangePetScale = 'Change pet scale',
     ChangeCity = 'Change city',
+    ChangeWeatherCoordinates = 'Change weather coordinates',
+    ChangeWeatherProvider = 'Change weather provider',
+    ChangeWeatherUnits = 'Change weather units',
+    ChangeAIProvider = 'Change AI provider',
+    ChangeAIBaseUrl = 'Change AI base url',
+    ChangeAIModel = 'Change AI model',
+    UpdateCredentials = 'Update credentials',
+    ChangeAIMessagesPerHour = 'Change AI messages per hour',
+    ChangeBreakResetMinutes = 'Change break reset minutes',
+    ChangeQuietHours = 'Change quiet hours',
+    ChangeQuietMessagePolicy = 'Change quiet message policy',
+    ChangeDoNotDisturbUntil = 'Change do not disturb until',
+    SwitchPresentationMode = 'Switch presentation mode',
+    ChangeFocusTimer = 'Change focus timer',
+    ChangeReminders = 'Change reminders',
+    ChangeBreathing = 'Change breathing',
+    // not a setting, asks the pet overlay to start a breathing exercise with the pet of this id ('' for any pet)
+    StartBreathing = 'Start breathing',
+    ChangeMemoryTokenBudget = 'Change memory token budget',
+    UpdateMemory = 'Update memory',
+    UpdatePetConfig = 'Update pet config',
+    ChangeUserProfile = 'Change user profile',
+    ChangeCrisisPhrases = 'Change crisis phrases',
+    UpdatePromptTemplates = 'Update prompt templates',
+    UpdatePreferences = 'Update preferences',
 }
\ No newline at end of file
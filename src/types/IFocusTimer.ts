@@ -0,0 +1,42 @@
+export enum FocusPhase {
+    Idle = "idle",
+    Focus = "focus",
+    ShortBreak = "shortBreak",
+    LongBreak = "longBreak",
+}
+
+// lengths in minutes
+export interface IFocusPlan {
+    focusMinutes: number,
+    shortBreakMinutes: number,
+    longBreakMinutes: number,
+    // a long break comes after this many focus sessions
+    sessionsBeforeLongBreak: number,
+}
+
+export interface IFocusPreset {
+    // also the translation key "focus preset <id>"
+    id: string,
+    plan: IFocusPlan,
+}
+
+// saved in settings.json, so the timer keeps running when the pet window is reopened
+export interface IFocusTimerState {
+    plan: IFocusPlan,
+    phase: FocusPhase,
+    // timestamps in ms, 0 while idle
+    phaseStartedAt: number,
+    phaseEndsAt: number,
+    // focus sessions finished since the timer was started
+    completedSessions: number,
+}
+
+// one phase of the timer, kept in focus_sessions.json
+export interface IFocusSession {
+    phase: FocusPhase,
+    startedAt: number,
+    endedAt: number,
+    plannedMinutes: number,
+    // false when the timer was stopped before the phase was over
+    completed: boolean,
+}
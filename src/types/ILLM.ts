@@ -0,0 +1,47 @@
+export enum LLMProviderType {
+    Gemini = "gemini",
+    // any server that speaks the OpenAI /chat/completions protocol (LM Studio, llama.cpp, vLLM, ...)
+    OpenAICompatible = "openai-compatible",
+    Ollama = "ollama",
+    // deterministic offline provider, useful for development and tests
+    Mock = "mock",
+}
+
+export enum LLMResponseFormat {
+    Text = "text",
+    // ask the backend for a single JSON object, the caller still has to validate it
+    Json = "json",
+}
+
+export type LLMMessageRole = "user" | "assistant";
+
+export interface ILLMMessage {
+    role: LLMMessageRole;
+    content: string;
+}
+
+export interface ILLMRequest {
+    systemInstruction: string;
+    messages: ILLMMessage[];
+    temperature?: number;
+    maxOutputTokens?: number;
+    // defaults to Text
+    responseFormat?: LLMResponseFormat;
+}
+
+export interface ILLMProviderConfig {
+    type: LLMProviderType;
+    // empty string means use the provider default
+    baseUrl: string;
+    model: string;
+}
+
+export interface LLMProvider {
+    readonly type: LLMProviderType;
+    // false when the provider needs an API key and the user has not configured one
+    hasCredentials(): Promise<boolean>;
+    // resolve with the generated text, reject when the backend cannot produce a usable answer
+    generate(request: ILLMRequest): Promise<string>;
+    // same as generate but onChunk receives each piece of text as soon as it arrives
+    stream(request: ILLMRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string>;
+}
@@ -0,0 +1,39 @@
+import { LLMMessageRole } from "./ILLM";
+
+export enum MemoryMessageSource {
+    // spontaneous thought bubbles
+    Thought = "thought",
+    // two-way chat with a pet
+    Chat = "chat",
+}
+
+export interface IMemoryMessage {
+    role: LLMMessageRole,
+    content: string,
+    timestamp: number,
+    source: MemoryMessageSource,
+    petId?: string,
+}
+
+// something the user said about themselves, e.g. "my name is Quin"
+export interface IMemoryFact {
+    id: string,
+    text: string,
+    createdAt: number,
+}
+
+// compacted version of older messages that no longer fit in the journal
+export interface IMemorySummary {
+    id: string,
+    text: string,
+    createdAt: number,
+    // time range of the summarized messages
+    from: number,
+    to: number,
+}
+
+export interface IMemoryStore {
+    messages: IMemoryMessage[],
+    facts: IMemoryFact[],
+    summaries: IMemorySummary[],
+}
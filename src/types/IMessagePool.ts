@@ -0,0 +1,20 @@
+import { MessageCategory } from "./IPersona";
+import { PetEmotion } from "./IThought";
+import { WeatherType } from "./IWeather";
+
+// the context a pre-generated message was written for
+export interface IMessagePoolBucket {
+    timeOfDay: string,
+    isLongSession: boolean,
+    weatherType: WeatherType,
+}
+
+export interface IPooledMessage extends IMessagePoolBucket {
+    text: string,
+    // messages are written in the voice of one pet
+    petId: string,
+    category: MessageCategory,
+    emotion?: PetEmotion,
+    action?: string | null,
+    createdAt: number,
+}
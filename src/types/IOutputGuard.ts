@@ -0,0 +1,26 @@
+// why an AI answer was thrown away instead of shown
+export enum OutputRejection {
+    Empty = "empty",
+    WrongLanguage = "wrong-language",
+    BlockedPhrase = "blocked-phrase",
+}
+
+// what was cleaned up in an answer that is still shown
+export enum OutputFix {
+    Markdown = "markdown",
+    Quotes = "quotes",
+    Emoji = "emoji",
+    Length = "length",
+}
+
+export interface IOutputGuardOptions {
+    // language code of the persona, e.g. vi, en, zh-CN
+    language: string,
+    // longest answer kept, languages written without spaces count characters instead (twice this number)
+    maxWords: number,
+    maxEmoji: number,
+}
+
+export type OutputGuardResult =
+    | { accepted: true, text: string, fixes: OutputFix[] }
+    | { accepted: false, reason: OutputRejection, detail?: string };
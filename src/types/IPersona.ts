@@ -0,0 +1,39 @@
+// kinds of spontaneous thought messages a persona may send
+export enum MessageCategory {
+    Encouragement = "encouragement",
+    CheckIn = "check-in",
+    FunFact = "fun-fact",
+    Inspiration = "inspiration",
+    Tip = "tip",
+    Joke = "joke",
+    // sent when the user has worked for too long, personas do not choose it
+    RestReminder = "rest-reminder",
+}
+
+export enum PersonaTone {
+    Gentle = "gentle",
+    Cheerful = "cheerful",
+    Playful = "playful",
+    Calm = "calm",
+    Wise = "wise",
+    Lazy = "lazy",
+}
+
+export interface IPersona {
+    // name the pet uses for itself
+    name: string,
+    tone: PersonaTone,
+    // free text describing how the pet talks, e.g. "ends sentences with ~nya"
+    speakingStyle: string,
+    categories: MessageCategory[],
+    // language code from locale/languages.ts
+    language: string,
+    // preset the persona was created from, only used by the editor
+    presetId?: string,
+}
+
+export interface IPersonaPreset {
+    id: string,
+    label: string,
+    persona: Omit<IPersona, "name" | "presetId">,
+}
@@ -0,0 +1,23 @@
+import { MessageCategory } from "./IPersona";
+
+export enum MessageReaction {
+    Like = "like",
+    Dislike = "dislike",
+}
+
+// a spontaneous message that was shown to the user and can be rated
+export interface IRatedMessage {
+    id: string,
+    text: string,
+    petId?: string,
+    category: MessageCategory,
+    timestamp: number,
+    reaction?: MessageReaction,
+}
+
+export type ICategoryWeights = Record<MessageCategory, number>;
+
+export interface IPreferenceStore {
+    weights: ICategoryWeights,
+    messages: IRatedMessage[],
+}
@@ -0,0 +1,34 @@
+export enum PromptTemplateName {
+    // spontaneous thought bubble
+    Thought = "thought",
+    // break reminder after a long working session
+    LongSession = "longSession",
+}
+
+export type IPromptTemplates = Record<PromptTemplateName, string>;
+
+// values that can be used in a template as {{name}}
+export interface IPromptContext {
+    timeOfDay: string,
+    weather: string,
+    city: string,
+    minutesSinceBreak: number,
+    // minutes at the computer without stepping away
+    focusStreakMinutes: number,
+    petName: string,
+    userName: string,
+}
+
+export enum PromptTemplateErrorType {
+    Empty = "empty",
+    TooLong = "too-long",
+    UnknownVariable = "unknown-variable",
+    UnclosedBraces = "unclosed-braces",
+    UnclosedSection = "unclosed-section",
+    UnexpectedSectionEnd = "unexpected-section-end",
+}
+
+export interface IPromptTemplateError {
+    type: PromptTemplateErrorType,
+    variable?: string,
+}
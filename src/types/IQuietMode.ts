@@ -0,0 +1,34 @@
+import { IFocusTimerState } from "./IFocusTimer";
+
+// what happens to AI messages that are ready while the pets have to stay quiet
+export enum QuietMessagePolicy {
+    // throw them away
+    Drop = "drop",
+    // keep a few and show them once the quiet time is over
+    Defer = "defer",
+}
+
+export enum QuietReason {
+    QuietHours = "quietHours",
+    DoNotDisturb = "doNotDisturb",
+    // bubbles are hidden and the AI is not called at all
+    Presentation = "presentation",
+    // a focus session of the focus timer is running
+    Focus = "focus",
+}
+
+export interface IQuietHoursRule {
+    // days of week, 0 is Sunday like Date.getDay()
+    days: number[],
+    // "HH:mm", a rule that ends before it starts runs past midnight
+    start: string,
+    end: string,
+}
+
+export interface IQuietModeState {
+    quietHours: IQuietHoursRule[],
+    // timestamp in ms, 0 when do not disturb is off
+    doNotDisturbUntil: number,
+    presentationMode: boolean,
+    focusTimer: IFocusTimerState,
+}
@@ -0,0 +1,7 @@
+// a spontaneous message that was shown to the user, kept to avoid saying the same thing again
+export interface IRecentMessage {
+    text: string,
+    // hash of the normalized text, see utils/messageSimilarity
+    hash: string,
+    timestamp: number,
+}
@@ -0,0 +1,39 @@
+export enum ReminderType {
+    Water = "water",
+    Stretch = "stretch",
+    Eyes = "eyes",
+    Posture = "posture",
+    Custom = "custom",
+}
+
+export enum ReminderSchedule {
+    // every few minutes while the user is at the computer
+    Interval = "interval",
+    // at fixed times of the day
+    Times = "times",
+}
+
+// saved in settings.json
+export interface IReminder {
+    id: string,
+    type: ReminderType,
+    enabled: boolean,
+    schedule: ReminderSchedule,
+    intervalMinutes: number,
+    // "HH:mm", used when the schedule is Times
+    times: string[],
+    // days of week, 0 is Sunday like Date.getDay()
+    days: number[],
+    // what the pet says, empty for the default text of the type
+    text: string,
+    // let the AI say it in the pet's own words
+    useAI: boolean,
+}
+
+// saved in reminder_states.json by the pet window, so a snooze survives a restart
+export interface IReminderState {
+    // timestamp in ms of the last time the reminder was shown
+    lastShownAt: number,
+    // timestamp in ms, 0 when the reminder is not snoozed
+    snoozedUntil: number,
+}
@@ -18,7 +18,10 @@ export enum ESettingTab {
     PetShop = 1,
     AddPet = 2,
     Settings = 3,
-    About = 4,
+    Memory = 4,
+    Messages = 5,
+    Wellbeing = 6,
+    About = 7,
 }
 
 export interface ISettingTabs {
@@ -32,4 +35,14 @@ export interface ISettingTabs {
 
 export enum DefaultConfigName {
     PET_LINKER = "pet_linker.json",
+    CREDENTIALS = "credentials.json",
+    MEMORY = "memory.json",
+    PROMPT_TEMPLATES = "prompt_templates.json",
+    PREFERENCES = "preferences.json",
+    RECENT_MESSAGES = "recent_messages.json",
+    MESSAGE_POOL = "message_pool.json",
+    USAGE_STATS = "usage_stats.json",
+    FOCUS_SESSIONS = "focus_sessions.json",
+    BREATHING_SESSIONS = "breathing_sessions.json",
+    REMINDER_STATES = "reminder_states.json",
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { IPersona } from "./IPersona";
+
 export interface ISpriteStateKey {
     [key: string]: {
         // if specify frameMax and spriteLine, the app will auto calculate the tile map
@@ -9,6 +11,13 @@ export interface ISpriteStateKey {
     }
 }
 
+export interface IPetAISettings {
+    // whether this pet sends spontaneous AI messages
+    enabled: boolean,
+    // the pet stays quiet at least this long after its last message
+    minIntervalMinutes: number,
+}
+
 export enum SpriteType {
     DEFAULT = 'default',
     CUSTOM = 'custom',
@@ -39,6 +48,10 @@ export interface ISpriteConfig {
     customId?: string,
     imageSrc: string,
     states: ISpriteStateKey,
+    // personality used by the AI, only saved for pets in pets.json
+    persona?: IPersona,
+    // spontaneous message settings, only saved for pets in pets.json
+    aiSettings?: IPetAISettings,
 }
 
 export interface IPetObject {
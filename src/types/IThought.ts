@@ -0,0 +1,17 @@
+// how the pet feels about what it says, used to pick an animation when the AI does not suggest one
+export enum PetEmotion {
+    Happy = "happy",
+    Excited = "excited",
+    Caring = "caring",
+    Calm = "calm",
+    Curious = "curious",
+    Sleepy = "sleepy",
+}
+
+// a spontaneous message as returned by the AI, after validation
+export interface IStructuredThought {
+    message: string,
+    emotion: PetEmotion,
+    // one of the pet's states (e.g. greet, sit, sleep) to play while the bubble is shown
+    action: string | null,
+}
@@ -0,0 +1,27 @@
+import { ReminderType } from "./IReminder";
+
+// what the user did on one day, kept in usage_stats.json
+export interface IDailyUsage {
+    // local date as YYYY-MM-DD
+    date: string,
+    activeMinutes: number,
+    // times the user stepped away long enough for the working session to start over
+    breakCount: number,
+    // minutes
+    longestFocusStreak: number,
+    // active minutes in each hour of the day (0-23), missing in records saved by older versions
+    activeMinutesByHour?: number[],
+    // wellness reminders the user marked as done, missing in records saved by older versions
+    remindersDone?: Partial<Record<ReminderType, number>>,
+}
+
+export enum UsagePeriod {
+    Today = "today",
+    Week = "week",
+    Month = "month",
+}
+
+export enum UsageExportFormat {
+    Csv = "csv",
+    Json = "json",
+}
@@ -0,0 +1,18 @@
+// how the pets address the user in Vietnamese
+export enum AddressForm {
+    Ban = "bạn",
+    Em = "em",
+    Anh = "anh",
+    Chi = "chị",
+}
+
+export interface IUserProfile {
+    displayName: string,
+    addressForm: AddressForm,
+    // third person pronouns, e.g. "cô ấy", "anh ấy", "họ"
+    pronouns: string,
+    interests: string[],
+    avoidTopics: string[],
+    // ISO 3166-1 alpha-2 code, picks the support lines shown in a crisis
+    country: string,
+}
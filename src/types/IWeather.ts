@@ -0,0 +1,100 @@
+// rough kind of weather, enough to pick a fitting message without the full description
+export enum WeatherType {
+    Clear = "clear",
+    Clouds = "clouds",
+    Rain = "rain",
+    Storm = "storm",
+    Snow = "snow",
+    Mist = "mist",
+    Unknown = "unknown",
+}
+
+// what the sky looks like, every provider maps its own codes to these
+export enum WeatherCondition {
+    Clear = "clear",
+    PartlyCloudy = "partlyCloudy",
+    Cloudy = "cloudy",
+    Fog = "fog",
+    Drizzle = "drizzle",
+    Rain = "rain",
+    HeavyRain = "heavyRain",
+    FreezingRain = "freezingRain",
+    Snow = "snow",
+    Thunderstorm = "thunderstorm",
+    Unknown = "unknown",
+}
+
+export enum WeatherProviderType {
+    OpenWeatherMap = "openweathermap",
+    // free and without API key, https://open-meteo.com
+    OpenMeteo = "open-meteo",
+    // answers from bundled fixtures, useful for development and tests
+    Mock = "mock",
+}
+
+export enum WeatherUnits {
+    // °C and m/s
+    Metric = "metric",
+    // °F and mph
+    Imperial = "imperial",
+}
+
+export interface IWeatherCoordinates {
+    latitude: number,
+    longitude: number,
+}
+
+export type WeatherLocation = { city: string } | IWeatherCoordinates;
+
+export interface ICurrentWeather {
+    condition: WeatherCondition,
+    temperature: number,
+    feelsLike: number,
+    // percent
+    humidity: number,
+    windSpeed: number,
+    units: WeatherUnits,
+    // name of the place the provider found, may differ from what the user typed
+    locationName: string,
+    country: string,
+    // timestamp in ms
+    observedAt: number,
+}
+
+export interface IHourlyForecast {
+    // timestamp in ms of the start of the hour (or of the 3 hour block for OpenWeatherMap)
+    time: number,
+    condition: WeatherCondition,
+    temperature: number,
+    // percent
+    precipitationChance: number,
+}
+
+export interface IDailyForecast {
+    // "YYYY-MM-DD" in the local time of the place
+    date: string,
+    condition: WeatherCondition,
+    minTemperature: number,
+    maxTemperature: number,
+    // percent
+    precipitationChance: number,
+}
+
+export interface WeatherProvider {
+    readonly type: WeatherProviderType;
+    // false when the provider needs an API key and the user has not configured one
+    hasCredentials(): Promise<boolean>;
+    // every method rejects when the provider can't answer (no API key, unknown city, network error...)
+    getCurrent(location: WeatherLocation, units: WeatherUnits): Promise<ICurrentWeather>;
+    getHourlyForecast(location: WeatherLocation, units: WeatherUnits, hours: number): Promise<IHourlyForecast[]>;
+    getDailyForecast(location: WeatherLocation, units: WeatherUnits, days: number): Promise<IDailyForecast[]>;
+}
+
+// canned answers of the mock provider, in °C and m/s
+export interface IWeatherFixture {
+    current: Omit<ICurrentWeather, "units" | "observedAt">,
+    // from the current hour on, repeated when more hours are asked
+    hourly: Omit<IHourlyForecast, "time">[],
+    // from today on, repeated when more days are asked
+    daily: Omit<IDailyForecast, "date">[],
+}
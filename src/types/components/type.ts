@@ -30,6 +30,9 @@ export interface IPetCardProps {
     pet: ISpriteConfig,
     btnFunction: () => void,
     btnFunctionCustom?: () => void,
+    // only pets in My Pets have a persona to edit
+    btnLabelPersona?: string,
+    btnFunctionPersona?: () => void,
     type: PetCardType,
 }
 
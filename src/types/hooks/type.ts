@@ -1,5 +1,12 @@
 import { ColorScheme } from "../ISetting";
+import { LLMProviderType } from "../ILLM";
+import { IUserProfile } from "../IUserProfile";
+import { IQuietHoursRule, QuietMessagePolicy } from "../IQuietMode";
 import { ISpriteConfig } from "../ISpriteConfig";
+import { IFocusTimerState } from "../IFocusTimer";
+import { IReminder } from "../IReminder";
+import { IBreathingSettings } from "../IBreathing";
+import { WeatherProviderType, WeatherUnits } from "../IWeather";
 
 export interface ISettingStoreVariables {
     language: string;
@@ -11,6 +18,26 @@ export interface ISettingStoreVariables {
     allowOverridePetScale: boolean;
     petScale: number;
     city: string;
+    // "lat, lon", used instead of the city when set
+    weatherCoordinates: string;
+    weatherProvider: WeatherProviderType;
+    weatherUnits: WeatherUnits;
+    aiProvider: LLMProviderType;
+    aiBaseUrl: string;
+    aiModel: string;
+    aiMessagesPerHour: number;
+    breakResetMinutes: number;
+    quietHours: IQuietHoursRule[];
+    quietMessagePolicy: QuietMessagePolicy;
+    doNotDisturbUntil: number;
+    presentationMode: boolean;
+    focusTimer: IFocusTimerState;
+    reminders: IReminder[];
+    breathing: IBreathingSettings;
+    memoryTokenBudget: number;
+    userProfile: IUserProfile;
+    // the user's own signs of a crisis, checked together with the bundled phrases
+    crisisPhrases: string[];
     pets: ISpriteConfig[];
     defaultPet: ISpriteConfig[];
 }
@@ -25,6 +52,24 @@ export interface ISettingStoreState extends ISettingStoreVariables{
     setAllowOverridePetScale: (newBoolean: boolean) => void;
     setPetScale: (petScale: number) => void;
     setCity: (newCity: string) => void;
+    setWeatherCoordinates: (newCoordinates: string) => void;
+    setWeatherProvider: (newProvider: WeatherProviderType) => void;
+    setWeatherUnits: (newUnits: WeatherUnits) => void;
+    setAIProvider: (newProvider: LLMProviderType) => void;
+    setAIBaseUrl: (newBaseUrl: string) => void;
+    setAIModel: (newModel: string) => void;
+    setAIMessagesPerHour: (newMessagesPerHour: number) => void;
+    setBreakResetMinutes: (newMinutes: number) => void;
+    setQuietHours: (newQuietHours: IQuietHoursRule[]) => void;
+    setQuietMessagePolicy: (newPolicy: QuietMessagePolicy) => void;
+    setDoNotDisturbUntil: (newTimestamp: number) => void;
+    setPresentationMode: (newBoolean: boolean) => void;
+    setFocusTimer: (newFocusTimer: IFocusTimerState) => void;
+    setReminders: (newReminders: IReminder[]) => void;
+    setBreathing: (newBreathing: IBreathingSettings) => void;
+    setMemoryTokenBudget: (newBudget: number) => void;
+    setUserProfile: (newProfile: IUserProfile) => void;
+    setCrisisPhrases: (newPhrases: string[]) => void;
     setPets: (newPets: ISpriteConfig[]) => void;
     setDefaultPet: (newDefaultPet: ISpriteConfig[]) => void;
 }
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { breathingService } from '../../services/breathingService';
+import { petPositionService } from '../../services/petPositionService';
+import { BreathingStep, IBreathingRun } from '../../types/IBreathing';
+import { OverlayEventType } from '../../types/IEvents';
+import { getBreathingProgress } from '../../utils/breathing';
+import './BreathingGuide.css';
+
+// distance kept between the guide and the screen edges
+const SCREEN_MARGIN = 8;
+// distance between the pet's head and the guide
+const PET_GAP = 14;
+// the countdown only changes every second, this is enough for the circle to grow smoothly
+const TICK_MS = 100;
+// size of the circle with empty and full lungs
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 1;
+
+const getCircleScale = (step: BreathingStep, stepProgress: number): number => {
+  switch (step) {
+    case BreathingStep.Inhale:
+      return MIN_SCALE + (MAX_SCALE - MIN_SCALE) * stepProgress;
+    case BreathingStep.Hold:
+      return MAX_SCALE;
+    case BreathingStep.Exhale:
+      return MAX_SCALE - (MAX_SCALE - MIN_SCALE) * stepProgress;
+    default:
+      return MIN_SCALE;
+  }
+};
+
+/**
+ * Bubble above the pet leading a breathing exercise, with a circle that grows while breathing in
+ * and shrinks while breathing out, and a countdown of the current step
+ */
+const BreathingGuide: React.FC = () => {
+  const { t } = useTranslation();
+  const [run, setRun] = useState<IBreathingRun | null>(breathingService.getCurrent());
+  const [now, setNow] = useState(Date.now());
+  const guideRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleStart = (event: CustomEvent<IBreathingRun>) => setRun(event.detail);
+    const handleEnd = () => setRun(null);
+
+    window.addEventListener(OverlayEventType.BreathingStart as any, handleStart);
+    window.addEventListener(OverlayEventType.BreathingEnd, handleEnd);
+    return () => {
+      window.removeEventListener(OverlayEventType.BreathingStart as any, handleStart);
+      window.removeEventListener(OverlayEventType.BreathingEnd, handleEnd);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!run) return;
+
+    const ticker = setInterval(() => setNow(Date.now()), TICK_MS);
+    // follow the pet every frame like the thought bubbles, it may still be walking to the middle of the screen
+    let frame = requestAnimationFrame(function follow() {
+      const guide = guideRef.current;
+      const pet = petPositionService.getPosition(run.petId);
+
+      if (guide && pet) {
+        const left = Math.min(Math.max(pet.x - guide.offsetWidth / 2, SCREEN_MARGIN), window.innerWidth - guide.offsetWidth - SCREEN_MARGIN);
+        const top = Math.max(pet.top - PET_GAP - guide.offsetHeight, SCREEN_MARGIN);
+        guide.style.left = `${left}px`;
+        guide.style.top = `${top}px`;
+      }
+
+      frame = requestAnimationFrame(follow);
+    });
+
+    return () => {
+      clearInterval(ticker);
+      cancelAnimationFrame(frame);
+    };
+  }, [run]);
+
+  if (!run) {
+    return null;
+  }
+
+  const progress = getBreathingProgress(run.pattern, run.cycles, now - run.startedAt);
+
+  return (
+    <div ref={guideRef} className="breathing-guide" data-overlay-hit role="timer" aria-live="polite">
+      {run.intro && <p className="breathing-guide__intro">{run.intro}</p>}
+      <div className="breathing-guide__circle-area">
+        <div
+          className={`breathing-guide__circle breathing-guide__circle--${progress.step}`}
+          style={{ transform: `scale(${getCircleScale(progress.step, progress.stepProgress)})` }}
+        />
+        <div className="breathing-guide__countdown">{progress.secondsLeft}</div>
+      </div>
+      <div className="breathing-guide__step">{t(`breathing step ${progress.step}`)}</div>
+      <div className="breathing-guide__cycle">{t("Breathing cycle", { current: progress.cycle, total: run.cycles })}</div>
+      <button className="breathing-guide__stop" onClick={() => breathingService.stop()}>{t("Stop breathing")}</button>
+    </div>
+  );
+};
+
+export default BreathingGuide;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { open } from '@tauri-apps/api/shell';
+import { crisisSupportService } from '../../services/crisisSupportService';
+import { ICrisisSupport } from '../../types/ICrisisSupport';
+import { OverlayEventType } from '../../types/IEvents';
+import './CrisisSupportCard.css';
+
+/**
+ * Calm card with support lines, shown when the user writes something worrying.
+ * It never closes by itself, the pets stay quiet until the user closes it
+ */
+const CrisisSupportCard: React.FC = () => {
+  const { t } = useTranslation();
+  const [support, setSupport] = useState<ICrisisSupport | null>(null);
+
+  useEffect(() => {
+    const handleOpen = (event: CustomEvent<ICrisisSupport>) => setSupport(event.detail);
+
+    window.addEventListener(OverlayEventType.CrisisSupportOpen as any, handleOpen);
+    return () => {
+      window.removeEventListener(OverlayEventType.CrisisSupportOpen as any, handleOpen);
+    };
+  }, []);
+
+  if (!support) {
+    return null;
+  }
+
+  const close = () => {
+    setSupport(null);
+    crisisSupportService.close();
+  };
+
+  return (
+    <div className="crisis-support" data-overlay-hit role="dialog" aria-labelledby="crisis-support-title">
+      <div id="crisis-support-title" className="crisis-support__title">💙 {t("You are not alone")}</div>
+      <p className="crisis-support__text">
+        {t("It sounds like things are really hard right now. Talking to someone can help, these people are ready to listen")}
+      </p>
+      <ul className="crisis-support__hotlines">
+        {support.resources.hotlines.map((hotline) => (
+          <li key={hotline.name} className="crisis-support__hotline">
+            <span>{hotline.isEmergency ? `🚑 ${hotline.name}` : hotline.name}</span>
+            {
+              hotline.contact.startsWith('http')
+                ? <button className="crisis-support__contact" onClick={() => open(hotline.contact)}>{hotline.contact.replace(/^https?:\/\//, '')}</button>
+                : <strong className="crisis-support__contact">{hotline.contact}</strong>
+            }
+          </li>
+        ))}
+      </ul>
+      <p className="crisis-support__note">
+        {t("If you are in danger right now, call your local emergency number")}
+      </p>
+      <button className="crisis-support__close" onClick={close}>{t("I'm okay for now")}</button>
+    </div>
+  );
+};
+
+export default CrisisSupportCard;
@@ -6,10 +6,10 @@ import { useInView } from "react-intersection-observer";
 import { ButtonVariant, CanvasSize, PrimaryColor } from "../../utils";
 import classes from './PetCard.module.css';
 import { usePetStateStore } from "../../hooks/usePetStateStore";
-import { IconPlus, IconTrash } from "@tabler/icons-react";
+import { IconMoodSmile, IconPlus, IconTrash } from "@tabler/icons-react";
 import { SpriteType } from "../../types/ISpriteConfig";
 
-function PetCard({ btnLabel, btnLabelCustom, pet, btnFunction, btnFunctionCustom, type }: IPetCardProps) {
+function PetCard({ btnLabel, btnLabelCustom, btnLabelPersona, pet, btnFunction, btnFunctionCustom, btnFunctionPersona, type }: IPetCardProps) {
     const { petStates, storeDictPetStates } = usePetStateStore();
     const availableStates = petStates[pet.name] ?? Object.keys(pet.states).map(state => (state));
     const randomState = availableStates[Math.floor(Math.random() * availableStates.length)];
@@ -54,6 +54,18 @@ function PetCard({ btnLabel, btnLabelCustom, pet, btnFunction, btnFunctionCustom
                                 data={availableStates}
                             />
                             <Group>
+                                {
+                                    btnFunctionPersona &&
+                                    <Button
+                                        variant={ButtonVariant}
+                                        fullWidth
+                                        onClick={btnFunctionPersona}
+                                        color={PrimaryColor}
+                                        leftSection={<IconMoodSmile />}
+                                    >
+                                        {btnLabelPersona}
+                                    </Button>
+                                }
                                 <Button
                                     variant={ButtonVariant}
                                     fullWidth
@@ -0,0 +1,144 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { appWindow } from '@tauri-apps/api/window';
+import { isRegistered, register, unregister } from '@tauri-apps/api/globalShortcut';
+import { petChatService } from '../../services/petChatService';
+import { bubbleQueue } from '../../services/bubbleQueueService';
+import { BubblePriority } from '../../types/IBubble';
+import { AIMessage } from '../../services/petAIService';
+import { IPetChatOpenDetail, OverlayEventType } from '../../types/IEvents';
+import './PetChat.css';
+
+// global shortcut that opens the chat with the pet that spoke last
+export const PET_CHAT_SHORTCUT = 'CommandOrControl+Shift+Space';
+
+const PANEL_WIDTH = 280;
+// space between the pet's head and the chat panel
+const PANEL_OFFSET = 12;
+const VISIBLE_HISTORY_MESSAGES = 4;
+
+const PetChat: React.FC = () => {
+  const { t } = useTranslation();
+  const [chat, setChat] = useState<IPetChatOpenDetail | null>(null);
+  const [text, setText] = useState('');
+  const [isWaiting, setIsWaiting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const closeChat = useCallback(() => {
+    setChat(null);
+    setText('');
+    window.dispatchEvent(new CustomEvent(OverlayEventType.PetChatClose));
+  }, []);
+
+  useEffect(() => {
+    const handleOpen = (event: CustomEvent<IPetChatOpenDetail>) => {
+      setChat(event.detail);
+      // the overlay is not focused by default, focus it so the user can type right away
+      appWindow.setFocus().then(() => inputRef.current?.focus());
+    };
+
+    window.addEventListener(OverlayEventType.PetChatOpen as any, handleOpen);
+    return () => {
+      window.removeEventListener(OverlayEventType.PetChatOpen as any, handleOpen);
+    };
+  }, []);
+
+  useEffect(() => {
+    const registerShortcut = async () => {
+      try {
+        if (await isRegistered(PET_CHAT_SHORTCUT)) await unregister(PET_CHAT_SHORTCUT);
+        await register(PET_CHAT_SHORTCUT, () => {
+          window.dispatchEvent(new CustomEvent(OverlayEventType.PetChatRequest));
+        });
+      } catch (error) {
+        console.warn("Không thể đăng ký phím tắt chat:", error);
+      }
+    };
+    registerShortcut();
+
+    return () => {
+      unregister(PET_CHAT_SHORTCUT).catch(() => {});
+    };
+  }, []);
+
+  const sendMessage = async () => {
+    if (!chat || !text.trim() || isWaiting) return;
+
+    const message = text.trim();
+    setText('');
+    setIsWaiting(true);
+
+    // the reply streams in, keep updating the same bubble instead of queueing every chunk,
+    // the bubble shows a typing indicator and does not fade out until the last chunk
+    let bubbleId: number | null = null;
+    try {
+      await petChatService.sendMessage(chat.petId, message, (reply: AIMessage) => {
+        if (reply.isCancelled) {
+          if (bubbleId !== null) bubbleQueue.cancel(bubbleId);
+          return;
+        }
+        if (bubbleId !== null && bubbleQueue.update(bubbleId, reply.text, { isStreaming: reply.isStreaming })) return;
+        bubbleId = bubbleQueue.enqueue({ text: reply.text, petId: reply.petId, priority: BubblePriority.Chat, isStreaming: reply.isStreaming });
+      });
+    } catch (error) {
+      console.error("Không thể gửi tin nhắn cho pet:", error);
+    } finally {
+      // a failed reply must not leave the input disabled
+      setIsWaiting(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      sendMessage();
+    } else if (event.key === 'Escape') {
+      closeChat();
+    }
+  };
+
+  if (!chat) {
+    return null;
+  }
+
+  // keep the panel inside the screen
+  const left = Math.min(Math.max(chat.x - PANEL_WIDTH / 2, 8), window.innerWidth - PANEL_WIDTH - 8);
+  const bottom = Math.max(window.innerHeight - chat.y + PANEL_OFFSET, 8);
+  const history = petChatService.getHistory(chat.petId).slice(-VISIBLE_HISTORY_MESSAGES);
+
+  return (
+    <>
+      {/* the overlay captures the cursor while chatting, clicking anywhere else closes the chat */}
+      <div className="pet-chat__backdrop" onMouseDown={closeChat} />
+      <div className="pet-chat" style={{ left, bottom, width: PANEL_WIDTH }}>
+        {
+          history.length > 0 &&
+          <div className="pet-chat__history">
+            {history.map((message, index) => (
+              <div key={index} className={`pet-chat__message pet-chat__message--${message.role}`}>
+                {message.content}
+              </div>
+            ))}
+          </div>
+        }
+        <div className="pet-chat__input-row">
+          <input
+            ref={inputRef}
+            className="pet-chat__input"
+            value={text}
+            maxLength={500}
+            disabled={isWaiting}
+            placeholder={isWaiting ? '…' : t("Say something to your pet")}
+            onChange={(event) => setText(event.currentTarget.value)}
+            onKeyDown={handleKeyDown}
+          />
+          <button className="pet-chat__send" onClick={sendMessage} disabled={isWaiting || !text.trim()}>
+            {t("Send")}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PetChat;
@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSettingStore } from '../../hooks/useSettingStore';
+import { DispatchType, IPetQuickMenuOpenDetail, OverlayEventType } from '../../types/IEvents';
+import { QuietReason } from '../../types/IQuietMode';
+import { FocusPhase } from '../../types/IFocusTimer';
+import { handleSettingChange } from '../../utils/handleSettingChange';
+import { breathingService } from '../../services/breathingService';
+import { SNOOZE_DURATIONS_MINUTES, getQuietReason } from '../../utils/quietMode';
+import { formatRemaining, getRemainingMs, startFocusTimer, stopFocusTimer } from '../../utils/focusTimer';
+import './PetQuickMenu.css';
+
+const MENU_WIDTH = 200;
+// space between the pet's head and the menu
+const MENU_OFFSET = 12;
+
+const PetQuickMenu: React.FC = () => {
+  const { t } = useTranslation();
+  const [menu, setMenu] = useState<IPetQuickMenuOpenDetail | null>(null);
+  const { quietHours, doNotDisturbUntil, presentationMode, focusTimer } = useSettingStore();
+
+  const closeMenu = useCallback(() => {
+    setMenu(null);
+    window.dispatchEvent(new CustomEvent(OverlayEventType.PetQuickMenuClose));
+  }, []);
+
+  useEffect(() => {
+    const handleOpen = (event: CustomEvent<IPetQuickMenuOpenDetail>) => setMenu(event.detail);
+    const handleClose = () => setMenu(null);
+
+    window.addEventListener(OverlayEventType.PetQuickMenuOpen as any, handleOpen);
+    window.addEventListener(OverlayEventType.PetQuickMenuClose, handleClose);
+    return () => {
+      window.removeEventListener(OverlayEventType.PetQuickMenuOpen as any, handleOpen);
+      window.removeEventListener(OverlayEventType.PetQuickMenuClose, handleClose);
+    };
+  }, []);
+
+  if (!menu) {
+    return null;
+  }
+
+  const openChat = () => {
+    // the pet is already held by the scene, hand it over to the chat
+    setMenu(null);
+    window.dispatchEvent(new CustomEvent(OverlayEventType.PetChatOpen, { detail: menu }));
+  };
+
+  const runAndClose = (action: () => void) => () => {
+    action();
+    closeMenu();
+  };
+
+  const quietReason = getQuietReason({ quietHours, doNotDisturbUntil, presentationMode, focusTimer }, new Date());
+  const isTimerRunning = focusTimer.phase !== FocusPhase.Idle;
+  const left = Math.min(Math.max(menu.x - MENU_WIDTH / 2, 8), window.innerWidth - MENU_WIDTH - 8);
+  const bottom = Math.max(window.innerHeight - menu.y + MENU_OFFSET, 8);
+
+  return (
+    <>
+      <div className="pet-quick-menu__backdrop" onMouseDown={closeMenu} onContextMenu={closeMenu} />
+      <div className="pet-quick-menu" style={{ left, bottom, width: MENU_WIDTH }}>
+        {
+          isTimerRunning &&
+          <div className="pet-quick-menu__status">
+            {t(`focus phase ${focusTimer.phase}`)} · {formatRemaining(getRemainingMs(focusTimer, Date.now()))}
+          </div>
+        }
+        {
+          quietReason && quietReason !== QuietReason.Focus &&
+          <div className="pet-quick-menu__status">
+            {
+              quietReason === QuietReason.DoNotDisturb
+                ? t("Quiet until time", { time: new Date(doNotDisturbUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) })
+                : t(`quiet reason ${quietReason}`)
+            }
+          </div>
+        }
+        <button className="pet-quick-menu__item" onClick={openChat}>{t("Chat")}</button>
+        <button
+          className="pet-quick-menu__item"
+          onClick={runAndClose(() => handleSettingChange(
+            DispatchType.ChangeFocusTimer,
+            isTimerRunning ? stopFocusTimer(focusTimer) : startFocusTimer(focusTimer.plan, Date.now()),
+          ))}
+        >
+          {isTimerRunning ? t("Stop focus timer") : t("Start focusing for minutes", { count: focusTimer.plan.focusMinutes })}
+        </button>
+        <button
+          className="pet-quick-menu__item"
+          onClick={runAndClose(() => breathingService.isActive() ? breathingService.stop() : breathingService.start(menu.petId))}
+        >
+          {breathingService.isActive() ? t("Stop breathing") : t("Breathe with me")}
+        </button>
+        {
+          SNOOZE_DURATIONS_MINUTES.map((minutes) => (
+            <button
+              key={minutes}
+              className="pet-quick-menu__item"
+              onClick={runAndClose(() => handleSettingChange(DispatchType.ChangeDoNotDisturbUntil, Date.now() + minutes * 60 * 1000))}
+            >
+              {t("Snooze for minutes", { count: minutes })}
+            </button>
+          ))
+        }
+        {
+          doNotDisturbUntil > Date.now() &&
+          <button className="pet-quick-menu__item" onClick={runAndClose(() => handleSettingChange(DispatchType.ChangeDoNotDisturbUntil, 0))}>
+            {t("Stop snoozing")}
+          </button>
+        }
+        <button
+          className="pet-quick-menu__item"
+          onClick={runAndClose(() => handleSettingChange(DispatchType.SwitchPresentationMode, !presentationMode))}
+        >
+          {presentationMode ? t("Turn off presentation mode") : t("Turn on presentation mode")}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default PetQuickMenu;
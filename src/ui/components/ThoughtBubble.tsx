@@ -1,72 +1,223 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { petPositionService, PetScreenPosition } from '../../services/petPositionService';
+import { MessageReaction } from '../../types/IPreference';
 import './ThoughtBubble.css';
 
 interface ThoughtBubbleProps {
   message: string;
   isVisible: boolean;
+  // pet the bubble follows, the bubble stays in the top right corner if the pet is not on screen
+  petId?: string;
+  // fade out as soon as the current phase allows, e.g. a more important message is waiting
+  dismissRequested?: boolean;
+  // stays on screen until the user unpins or closes it
+  pinned?: boolean;
+  // the text is still arriving, an empty message shows a typing indicator
+  isStreaming?: boolean;
   onAnimationComplete?: () => void;
+  // the bubble only reacts to the mouse when at least one of these is given
+  onDismiss?: () => void;
+  onTogglePin?: () => void;
+  onReply?: () => void;
+  onReact?: (reaction: MessageReaction) => void;
+  // only reminder bubbles have these
+  onReminderDone?: () => void;
+  onReminderSnooze?: () => void;
   duration?: number; // Duration in milliseconds
 }
 
+interface BubblePlacement {
+  left: number;
+  top: number;
+  // the bubble goes under the pet when there is no room above it (e.g. climbing the top of the screen)
+  isBelow: boolean;
+  // horizontal position of the tail inside the bubble
+  tailOffset: number;
+}
+
+// distance kept between the bubble and the screen edges
+const SCREEN_MARGIN = 8;
+// distance between the pet and the tip of the tail
+const PET_GAP = 14;
+// the bubble starts a bit left of the pet, so the tail sits near its left corner
+const TAIL_INSET = 30;
+const TAIL_WIDTH = 20;
+
+/**
+ * Place the bubble above the pet, growing to the right, and flip it to the other side
+ * of the pet when it would leave the screen
+ */
+const getBubblePlacement = (pet: PetScreenPosition, width: number, height: number): BubblePlacement => {
+  let left = pet.x - TAIL_INSET;
+  if (left + width > window.innerWidth - SCREEN_MARGIN) {
+    // grow to the left of the pet instead
+    left = pet.x + TAIL_INSET - width;
+  }
+  left = Math.min(Math.max(left, SCREEN_MARGIN), window.innerWidth - width - SCREEN_MARGIN);
+
+  const isBelow = pet.top - PET_GAP - height < SCREEN_MARGIN;
+  const top = isBelow
+    ? Math.min(pet.bottom + PET_GAP, window.innerHeight - height - SCREEN_MARGIN)
+    : pet.top - PET_GAP - height;
+
+  const tailOffset = Math.min(Math.max(pet.x - left - TAIL_WIDTH / 2, TAIL_WIDTH), width - TAIL_WIDTH * 2);
+
+  return { left, top, isBelow, tailOffset };
+};
+
 const ThoughtBubble: React.FC<ThoughtBubbleProps> = ({
   message,
   isVisible,
+  petId,
+  dismissRequested = false,
+  pinned = false,
+  isStreaming = false,
   onAnimationComplete,
+  onDismiss,
+  onTogglePin,
+  onReply,
+  onReact,
+  onReminderDone,
+  onReminderSnooze,
   duration = 12000, // Default 12 seconds total (2s fade-in + 8s display + 2s fade-out)
 }) => {
+  const { t } = useTranslation();
   const [animationPhase, setAnimationPhase] = useState<'hidden' | 'fade-in' | 'visible' | 'fade-out'>('hidden');
+  const [reaction, setReaction] = useState<MessageReaction | null>(null);
+  const bubbleRef = useRef<HTMLDivElement>(null);
+  // keep the latest callback without restarting the animation when the parent re-renders
+  const onAnimationCompleteRef = useRef(onAnimationComplete);
+  onAnimationCompleteRef.current = onAnimationComplete;
+
+  useEffect(() => {
+    // Start fade-in
+    setAnimationPhase(isVisible ? 'fade-in' : 'hidden');
+  }, [isVisible]);
 
+  // each phase schedules the next one, so a dismissed bubble never skips its fade-in or fade-out
   useEffect(() => {
-    if (isVisible) {
-      // Start fade-in
-      setAnimationPhase('fade-in');
-      
-      // After fade-in (1.5s), show message
-      const fadeInTimer = setTimeout(() => {
-        setAnimationPhase('visible');
-        
-        // After display duration (duration - 4s for fade transitions), start fade-out
-        const displayTimer = setTimeout(() => {
-          setAnimationPhase('fade-out');
-          
-          // After fade-out (1.5s), hide completely
-          const fadeOutTimer = setTimeout(() => {
-            setAnimationPhase('hidden');
-            onAnimationComplete?.();
-          }, 1500);
-          
-          return () => clearTimeout(fadeOutTimer);
-        }, duration - 3000); // Display time (total - fade in - fade out)
-        
-        return () => clearTimeout(displayTimer);
-      }, 1500);
-      
-      return () => clearTimeout(fadeInTimer);
-    } else {
-      setAnimationPhase('hidden');
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    switch (animationPhase) {
+      case 'fade-in':
+        // After fade-in (1.5s), show message
+        timer = setTimeout(() => setAnimationPhase('visible'), 1500);
+        break;
+      case 'visible':
+        // a pinned bubble waits for the user, a streaming one for the rest of its text
+        if (pinned || (isStreaming && !dismissRequested)) break;
+        // After display duration (total - fade in - fade out), start fade-out
+        timer = setTimeout(() => setAnimationPhase('fade-out'), dismissRequested ? 0 : duration - 3000);
+        break;
+      case 'fade-out':
+        // After fade-out (1.5s), hide completely
+        timer = setTimeout(() => {
+          setAnimationPhase('hidden');
+          onAnimationCompleteRef.current?.();
+        }, 1500);
+        break;
+      default:
+        break;
     }
-  }, [isVisible, duration, onAnimationComplete]);
 
-  if (animationPhase === 'hidden') {
+    return () => clearTimeout(timer);
+  }, [animationPhase, dismissRequested, pinned, isStreaming, duration]);
+
+  const isShown = animationPhase !== 'hidden';
+
+  // follow the pet every frame, the style is written directly so React does not re-render
+  useEffect(() => {
+    if (!isShown || !petId) return;
+
+    let frame = requestAnimationFrame(function follow() {
+      const bubble = bubbleRef.current;
+      const pet = petPositionService.getPosition(petId);
+
+      if (bubble && pet) {
+        const placement = getBubblePlacement(pet, bubble.offsetWidth, bubble.offsetHeight);
+        bubble.style.left = `${placement.left}px`;
+        bubble.style.top = `${placement.top}px`;
+        bubble.style.right = 'auto';
+        bubble.style.setProperty('--thought-bubble-tail-offset', `${placement.tailOffset}px`);
+        // data attributes instead of classes, React rewrites className on every phase change
+        bubble.dataset.anchor = placement.isBelow ? 'below' : 'above';
+      }
+
+      frame = requestAnimationFrame(follow);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [isShown, petId]);
+
+  if (!isShown) {
     return null;
   }
 
+  const isInteractive = Boolean(onDismiss || onTogglePin || onReply || onReact || onReminderDone || onReminderSnooze);
+
+  const react = (newReaction: MessageReaction) => {
+    // reacting the same way again takes the reaction back
+    setReaction(reaction === newReaction ? null : newReaction);
+    onReact?.(newReaction);
+  };
+
   return (
-    <div 
-      className={`thought-bubble thought-bubble--${animationPhase}`}
+    <div
+      ref={bubbleRef}
+      className={`thought-bubble thought-bubble--${animationPhase}${pinned ? ' thought-bubble--pinned' : ''}`}
+      // the pet overlay lets the cursor through everywhere except over elements marked with data-overlay-hit
+      data-overlay-hit={isInteractive || undefined}
       style={{
         position: 'fixed',
         top: '20px',
         right: '20px',
         zIndex: 9999,
         maxWidth: '300px',
-        pointerEvents: 'none',
+        pointerEvents: isInteractive ? 'auto' : 'none',
       }}
     >
       <div className="thought-bubble__content">
-        <div className="thought-bubble__text">
-          {message}
+        <div className="thought-bubble__text" onClick={onDismiss} title={onDismiss && t("Click to close")}>
+          {
+            message ||
+            <span className="thought-bubble__typing" aria-label={t("Typing")}>
+              <span>.</span><span>.</span><span>.</span>
+            </span>
+          }
         </div>
+        {
+          isInteractive &&
+          <div className="thought-bubble__actions">
+            {
+              onReact &&
+              <>
+                <button
+                  className={`thought-bubble__action${reaction === MessageReaction.Like ? ' thought-bubble__action--active' : ''}`}
+                  onClick={() => react(MessageReaction.Like)}
+                  title={t("I like this")}
+                >👍</button>
+                <button
+                  className={`thought-bubble__action${reaction === MessageReaction.Dislike ? ' thought-bubble__action--active' : ''}`}
+                  onClick={() => react(MessageReaction.Dislike)}
+                  title={t("Not for me")}
+                >👎</button>
+              </>
+            }
+            {onReminderDone && <button className="thought-bubble__action" onClick={onReminderDone} title={t("Done")}>✅</button>}
+            {onReminderSnooze && <button className="thought-bubble__action" onClick={onReminderSnooze} title={t("Remind me later")}>😴</button>}
+            {onReply && <button className="thought-bubble__action" onClick={onReply} title={t("Reply")}>💬</button>}
+            {
+              onTogglePin &&
+              <button
+                className={`thought-bubble__action${pinned ? ' thought-bubble__action--active' : ''}`}
+                onClick={onTogglePin}
+                title={pinned ? t("Unpin") : t("Pin")}
+              >📌</button>
+            }
+            {onDismiss && <button className="thought-bubble__action" onClick={onDismiss} title={t("Close")}>✕</button>}
+          </div>
+        }
         <div className="thought-bubble__tail"></div>
       </div>
     </div>
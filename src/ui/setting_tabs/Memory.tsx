@@ -0,0 +1,114 @@
+import { ActionIcon, Button, Group, Paper, Slider, Stack, Text } from "@mantine/core";
+import { IconTrash } from "@tabler/icons-react";
+import { confirm } from "@tauri-apps/api/dialog";
+import { memo, useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useSettingStore } from "../../hooks/useSettingStore";
+import { memoryService } from "../../services/memoryService";
+import { DispatchType } from "../../types/IEvents";
+import { IMemoryStore } from "../../types/IMemory";
+import { ButtonVariant } from "../../utils";
+import { handleSettingChange } from "../../utils/handleSettingChange";
+
+interface IMemoryItemProps {
+    text: string,
+    date: number,
+    onDelete: () => void,
+}
+
+function MemoryItem({ text, date, onDelete }: IMemoryItemProps) {
+    return (
+        <Paper withBorder p={"sm"}>
+            <Group justify={"space-between"} wrap={"nowrap"}>
+                <div>
+                    <Text>{text}</Text>
+                    <Text fz={"xs"} c={"dimmed"}>{new Date(date).toLocaleString()}</Text>
+                </div>
+                <ActionIcon variant={ButtonVariant} color={"red"} onClick={onDelete}>
+                    <IconTrash size="1rem" />
+                </ActionIcon>
+            </Group>
+        </Paper>
+    )
+}
+
+function Memory() {
+    const { t } = useTranslation();
+    const { memoryTokenBudget } = useSettingStore();
+    const [memory, setMemory] = useState<IMemoryStore>({ messages: [], facts: [], summaries: [] });
+
+    const loadMemory = useCallback(async () => {
+        // the overlay keeps writing new messages, always read the latest file
+        memoryService.invalidate();
+        setMemory({ ...await memoryService.getStore() });
+    }, []);
+
+    // the change is written on top of the latest file, tell the pet overlay to reload it once it is saved
+    const changeMemory = useCallback(async (change: () => Promise<void>) => {
+        await change();
+        handleSettingChange(DispatchType.UpdateMemory, true);
+        await loadMemory();
+    }, [loadMemory]);
+
+    useEffect(() => {
+        loadMemory();
+    }, []);
+
+    const forgetEverything = async () => {
+        const ok = await confirm(t("Your pets will forget everything you told them. Continue?"), { title: t("Forget everything"), type: "warning" });
+        if (!ok) return;
+
+        await changeMemory(() => memoryService.clear());
+    };
+
+    return (
+        <Stack>
+            <div>
+                <Text>{t("Memory size")}</Text>
+                <Text fz={"xs"} c={"dimmed"}>
+                    {t("How much of the memory (in tokens) is sent with each AI request. Set to 0 to stop using the memory")}
+                </Text>
+                <Slider
+                    min={0}
+                    max={2000}
+                    step={50}
+                    defaultValue={memoryTokenBudget}
+                    my={"sm"}
+                    marks={[{ value: 0, label: "0" }, { value: 1000, label: "1000" }, { value: 2000, label: "2000" }]}
+                    onChangeEnd={(value) => handleSettingChange(DispatchType.ChangeMemoryTokenBudget, value)}
+                />
+            </div>
+
+            <Text mt={"md"}>{t("Things you told your pets")}</Text>
+            {
+                memory.facts.length === 0 &&
+                <Text fz={"sm"} c={"dimmed"}>{t("Nothing remembered yet. Tell your pet about yourself in the chat")}</Text>
+            }
+            {
+                [...memory.facts].reverse().map((fact) => (
+                    <MemoryItem key={fact.id} text={fact.text} date={fact.createdAt} onDelete={() => changeMemory(() => memoryService.deleteFact(fact.id))} />
+                ))
+            }
+
+            <Text mt={"md"}>{t("Summaries of older conversations")}</Text>
+            {
+                memory.summaries.length === 0 &&
+                <Text fz={"sm"} c={"dimmed"}>{t("No summaries yet")}</Text>
+            }
+            {
+                [...memory.summaries].reverse().map((summary) => (
+                    <MemoryItem key={summary.id} text={summary.text} date={summary.to} onDelete={() => changeMemory(() => memoryService.deleteSummary(summary.id))} />
+                ))
+            }
+
+            <Group justify={"space-between"} mt={"md"}>
+                <Text fz={"sm"} c={"dimmed"}>{t("recent messages in memory", { total: memory.messages.length })}</Text>
+                <Button variant={ButtonVariant} color={"red"} leftSection={<IconTrash size="1rem" />} onClick={forgetEverything}>
+                    {t("Forget everything")}
+                </Button>
+            </Group>
+        </Stack>
+    )
+}
+
+export default memo(Memory);
@@ -0,0 +1,128 @@
+import { ActionIcon, Button, Group, Paper, Progress, Stack, Text } from "@mantine/core";
+import { IconRestore, IconThumbDown, IconThumbUp } from "@tabler/icons-react";
+import { confirm } from "@tauri-apps/api/dialog";
+import { memo, useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { preferenceService } from "../../services/preferenceService";
+import { createDefaultWeights, getCategoryDistribution } from "../../utils/preferences";
+import { DispatchType } from "../../types/IEvents";
+import { MessageCategory } from "../../types/IPersona";
+import { IPreferenceStore, IRatedMessage, MessageReaction } from "../../types/IPreference";
+import { ButtonVariant } from "../../utils";
+import { handleSettingChange } from "../../utils/handleSettingChange";
+
+interface IRatedMessageItemProps {
+    message: IRatedMessage,
+    onReact: (reaction: MessageReaction) => void,
+}
+
+function RatedMessageItem({ message, onReact }: IRatedMessageItemProps) {
+    const { t } = useTranslation();
+
+    return (
+        <Paper withBorder p={"sm"}>
+            <Group justify={"space-between"} wrap={"nowrap"}>
+                <div>
+                    <Text>{message.text}</Text>
+                    <Text fz={"xs"} c={"dimmed"}>
+                        {t(`message category ${message.category}`)} · {new Date(message.timestamp).toLocaleString()}
+                    </Text>
+                </div>
+                <Group gap={"xs"} wrap={"nowrap"}>
+                    <ActionIcon
+                        variant={message.reaction === MessageReaction.Like ? "filled" : ButtonVariant}
+                        onClick={() => onReact(MessageReaction.Like)}
+                        title={t("I like this")}
+                    >
+                        <IconThumbUp size="1rem" />
+                    </ActionIcon>
+                    <ActionIcon
+                        variant={message.reaction === MessageReaction.Dislike ? "filled" : ButtonVariant}
+                        color={"red"}
+                        onClick={() => onReact(MessageReaction.Dislike)}
+                        title={t("Not for me")}
+                    >
+                        <IconThumbDown size="1rem" />
+                    </ActionIcon>
+                </Group>
+            </Group>
+        </Paper>
+    )
+}
+
+function Messages() {
+    const { t } = useTranslation();
+    const [store, setStore] = useState<IPreferenceStore>({ weights: createDefaultWeights(), messages: [] });
+
+    const loadStore = useCallback(async () => {
+        // the overlay keeps adding shown messages, always read the latest file
+        preferenceService.invalidate();
+        const saved = await preferenceService.getStore();
+        setStore({ weights: { ...saved.weights }, messages: [...saved.messages] });
+    }, []);
+
+    // apply the change on top of the latest file, then tell the pet overlay to reload it
+    const changeStore = useCallback(async (change: () => Promise<void>) => {
+        preferenceService.invalidate();
+        await change();
+        handleSettingChange(DispatchType.UpdatePreferences, true);
+        await loadStore();
+    }, [loadStore]);
+
+    useEffect(() => {
+        loadStore();
+    }, []);
+
+    const resetWeights = async () => {
+        const ok = await confirm(t("Your pets will forget which kinds of messages you like. Continue?"), { title: t("Reset preferences"), type: "warning" });
+        if (!ok) return;
+
+        await changeStore(() => preferenceService.resetWeights());
+    };
+
+    const distribution = getCategoryDistribution(store.weights, Object.values(MessageCategory));
+
+    return (
+        <Stack>
+            <div>
+                <Text>{t("What your pets talk about")}</Text>
+                <Text fz={"xs"} c={"dimmed"}>
+                    {t("Each 👍 makes a kind of message more frequent, each 👎 makes it rarer. Rest reminders are only sent when you work for too long")}
+                </Text>
+            </div>
+            {
+                Object.values(MessageCategory).map((category) => (
+                    <div key={category}>
+                        <Group justify={"space-between"}>
+                            <Text fz={"sm"}>{t(`message category ${category}`)}</Text>
+                            <Text fz={"sm"} c={"dimmed"}>{Math.round((distribution[category] ?? 0) * 100)}%</Text>
+                        </Group>
+                        <Progress value={(distribution[category] ?? 0) * 100} />
+                    </div>
+                ))
+            }
+            <Group justify={"flex-end"}>
+                <Button variant={ButtonVariant} color={"gray"} leftSection={<IconRestore size="1rem" />} onClick={resetWeights}>
+                    {t("Reset preferences")}
+                </Button>
+            </Group>
+
+            <Text mt={"md"}>{t("Recent messages")}</Text>
+            {
+                store.messages.length === 0 &&
+                <Text fz={"sm"} c={"dimmed"}>{t("Your pets have not said anything yet")}</Text>
+            }
+            {
+                [...store.messages].reverse().map((message) => (
+                    <RatedMessageItem
+                        key={message.id}
+                        message={message}
+                        onReact={(reaction) => changeStore(() => preferenceService.react(message.id, reaction))}
+                    />
+                ))
+            }
+        </Stack>
+    )
+}
+
+export default memo(Messages);
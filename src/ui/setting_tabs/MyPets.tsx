@@ -2,9 +2,10 @@ import { memo, useCallback, useMemo, useState, useEffect } from "react";
 import PetCard from "../components/PetCard";
 import { Box, TextInput } from "@mantine/core";
 import AddCard from "./my_pets/AddCard";
+import PersonaEditor from "./my_pets/PersonaEditor";
 import { useTranslation } from "react-i18next";
 import { useSettingStore } from "../../hooks/useSettingStore";
-import { ISpriteConfig } from "../../types/ISpriteConfig";
+import { IPetAISettings, ISpriteConfig } from "../../types/ISpriteConfig";
 import { getAppSettings, setConfig } from "../../utils/settings";
 import { notifications } from "@mantine/notifications";
 import { PrimaryColor, noPetDialog } from "../../utils";
@@ -15,6 +16,7 @@ import { DispatchType } from "../../types/IEvents";
 import { ColorSchemeType } from "../../types/ISetting";
 import { usePets } from "../../hooks/usePets";
 import { invoke } from "@tauri-apps/api";
+import { IPersona } from "../../types/IPersona";
 
 export function MyPets() {
     const { refetch, data: initialPets = [] } = usePets();
@@ -22,6 +24,7 @@ export function MyPets() {
     const { theme: colorScheme, pets, setPets } = useSettingStore();
     const [searchQuery, setSearchQuery] = useState("");
     const [isFirstRemoval, setIsFirstRemoval] = useState(true);
+    const [editingPet, setEditingPet] = useState<ISpriteConfig | null>(null);
 
     const removePet = useCallback(async (petId: string) => {
         const userPetConfig = await getAppSettings({ configName: "pets.json" });
@@ -61,6 +64,30 @@ export function MyPets() {
         await refetch();
     }, [t, isFirstRemoval, setIsFirstRemoval]);
 
+    const savePetConfig = useCallback(async (persona: IPersona, aiSettings: IPetAISettings) => {
+        if (!editingPet) return;
+
+        const userPetConfig: ISpriteConfig[] = await getAppSettings({ configName: "pets.json" });
+        const newConfig = userPetConfig.map((pet) => pet.id === editingPet.id ? { ...pet, persona, aiSettings } : pet);
+
+        await setConfig({ configName: "pets.json", newConfig: newConfig });
+        setPets(newConfig);
+        handleSettingChange(DispatchType.UpdatePetConfig, { ...editingPet, persona, aiSettings });
+        setEditingPet(null);
+
+        notifications.show({
+            message: t("persona of pet has been saved", { name: editingPet.name }),
+            title: t("Persona Saved"),
+            color: PrimaryColor,
+            icon: <IconCheck size="1rem" />,
+            withBorder: true,
+            autoClose: 800,
+            style: (theme) => ({
+                backgroundColor: colorScheme === ColorSchemeType.Dark ? theme.colors.dark[7] : theme.colors.gray[0],
+            })
+        });
+    }, [t, editingPet, colorScheme]);
+
     const filteredPets = useMemo(() => {
         return pets.filter(pet =>
             pet.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -70,7 +97,15 @@ export function MyPets() {
     const PetCards = useMemo(() => {
         return filteredPets.map((pet: ISpriteConfig) => {
             return (
-                <PetCard key={pet.id} pet={pet} btnLabel={t("Remove")} type={PetCardType.Remove} btnFunction={() => removePet(pet.id as string)} />
+                <PetCard
+                    key={pet.id}
+                    pet={pet}
+                    btnLabel={t("Remove")}
+                    type={PetCardType.Remove}
+                    btnFunction={() => removePet(pet.id as string)}
+                    btnLabelPersona={t("Edit persona")}
+                    btnFunctionPersona={() => setEditingPet(pet)}
+                />
             );
         });
     }, [t, filteredPets, removePet]);
@@ -92,6 +127,7 @@ export function MyPets() {
                 {PetCards}
                 <AddCard />
             </Box>
+            <PersonaEditor pet={editingPet} onClose={() => setEditingPet(null)} onSave={savePetConfig} />
         </>
     );
 }
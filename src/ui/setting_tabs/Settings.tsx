@@ -1,4 +1,4 @@
-import { Select, Slider, TextInput } from "@mantine/core";
+import { Select, Slider, Text, TextInput } from "@mantine/core";
 import { SelectItem } from "./settings/SelectItem";
 import languages from "../../locale/languages";
 import SettingSwitch from "./settings/SettingSwitch";
@@ -6,10 +6,19 @@ import { useTranslation } from "react-i18next";
 import { handleSettingChange } from "../../utils/handleSettingChange";
 import { useSettingStore } from "../../hooks/useSettingStore";
 import { memo, useCallback } from "react";
-import { IconLanguage, IconMapPin } from "@tabler/icons-react";
+import { IconLanguage, IconMapPin, IconRobot, IconServer, IconBrain, IconCloud, IconTemperature, IconCurrentLocation } from "@tabler/icons-react";
 import { invoke } from "@tauri-apps/api/tauri";
 import SettingButton from "./settings/SettingButton";
+import ApiKeySettings from "./settings/ApiKeySettings";
+import UserProfileSettings from "./settings/UserProfileSettings";
+import PromptTemplateSettings from "./settings/PromptTemplateSettings";
+import QuietModeSettings from "./settings/QuietModeSettings";
 import { DispatchType } from "../../types/IEvents";
+import { LLMProviderType } from "../../types/ILLM";
+import { LLM_PROVIDER_DEFAULTS } from "../../services/llm";
+import { WeatherProviderType, WeatherUnits } from "../../types/IWeather";
+import { parseCoordinates } from "../../utils/weather";
+import { MIN_BREAK_RESET_MINUTES } from "../../utils/activityTracking";
 
 interface ISettingsContent {
     title: string,
@@ -21,7 +30,7 @@ interface ISettingsContent {
 
 function Settings() {
     const { t, i18n } = useTranslation();
-    const { allowAutoStartUp, allowPetAboveTaskbar, allowPetInteraction, allowOverridePetScale, petScale, allowPetClimbing, city } = useSettingStore();
+    const { allowAutoStartUp, allowPetAboveTaskbar, allowPetInteraction, allowOverridePetScale, petScale, allowPetClimbing, city, weatherCoordinates, weatherProvider, weatherUnits, aiProvider, aiBaseUrl, aiModel, aiMessagesPerHour, breakResetMinutes } = useSettingStore();
 
     const settingSwitches: ISettingsContent[] = [
         {
@@ -58,6 +67,24 @@ function Settings() {
         }
     ];
 
+    const aiProviders = [
+        { value: LLMProviderType.Gemini, label: "Google Gemini" },
+        { value: LLMProviderType.OpenAICompatible, label: t("OpenAI-compatible server") },
+        { value: LLMProviderType.Ollama, label: t("Ollama (local)") },
+        { value: LLMProviderType.Mock, label: t("Mock (offline, for testing)") },
+    ];
+
+    const weatherProviders = [
+        { value: WeatherProviderType.OpenWeatherMap, label: "OpenWeatherMap" },
+        { value: WeatherProviderType.OpenMeteo, label: t("Open-Meteo (no API key needed)") },
+        { value: WeatherProviderType.Mock, label: t("Mock (offline, for testing)") },
+    ];
+
+    const weatherUnitOptions = [
+        { value: WeatherUnits.Metric, label: t("Metric (°C, m/s)") },
+        { value: WeatherUnits.Imperial, label: t("Imperial (°F, mph)") },
+    ];
+
     const SettingSwitches = settingSwitches.map((setting, index) => {
         return <SettingSwitch {...setting} key={index} />
     })
@@ -93,6 +120,101 @@ function Settings() {
                 value={city}
                 onChange={(event) => handleSettingChange(DispatchType.ChangeCity, event.currentTarget.value)}
             />
+            <TextInput
+                leftSection={<IconCurrentLocation />}
+                my={"sm"}
+                label={t("Weather coordinates")}
+                description={t("Latitude and longitude, e.g. 10.78, 106.70. Used instead of the city when set")}
+                placeholder={"10.78, 106.70"}
+                value={weatherCoordinates}
+                error={weatherCoordinates.trim() !== "" && !parseCoordinates(weatherCoordinates) && t("Invalid coordinates, the city is used instead")}
+                onChange={(event) => handleSettingChange(DispatchType.ChangeWeatherCoordinates, event.currentTarget.value)}
+            />
+            <Select
+                leftSection={<IconCloud />}
+                allowDeselect={false}
+                checkIconPosition={"right"}
+                my={"sm"}
+                label={t("Weather provider")}
+                description={t("Where the pets get the weather from. OpenWeatherMap needs an API key")}
+                data={weatherProviders}
+                value={weatherProvider}
+                onChange={(value) => handleSettingChange(DispatchType.ChangeWeatherProvider, value as string)}
+            />
+            <Select
+                leftSection={<IconTemperature />}
+                allowDeselect={false}
+                checkIconPosition={"right"}
+                my={"sm"}
+                label={t("Weather units")}
+                data={weatherUnitOptions}
+                value={weatherUnits}
+                onChange={(value) => handleSettingChange(DispatchType.ChangeWeatherUnits, value as string)}
+            />
+            <Select
+                leftSection={<IconRobot />}
+                allowDeselect={false}
+                checkIconPosition={"right"}
+                my={"sm"}
+                label={t("AI provider")}
+                description={t("The AI backend used to write the pets' messages")}
+                data={aiProviders}
+                value={aiProvider}
+                onChange={(value) => handleSettingChange(DispatchType.ChangeAIProvider, value as string)}
+            />
+            {
+                aiProvider !== LLMProviderType.Mock &&
+                <>
+                    <TextInput
+                        leftSection={<IconServer />}
+                        my={"sm"}
+                        label={t("AI server address")}
+                        description={t("Leave empty to use the provider default")}
+                        placeholder={LLM_PROVIDER_DEFAULTS[aiProvider]?.baseUrl}
+                        value={aiBaseUrl}
+                        onChange={(event) => handleSettingChange(DispatchType.ChangeAIBaseUrl, event.currentTarget.value)}
+                    />
+                    <TextInput
+                        leftSection={<IconBrain />}
+                        my={"sm"}
+                        label={t("AI model")}
+                        description={t("Leave empty to use the provider default")}
+                        placeholder={LLM_PROVIDER_DEFAULTS[aiProvider]?.model}
+                        value={aiModel}
+                        onChange={(event) => handleSettingChange(DispatchType.ChangeAIModel, event.currentTarget.value)}
+                    />
+                </>
+            }
+            <Text mt={"sm"}>{t("AI messages per hour")}</Text>
+            <Text fz={"xs"} c={"dimmed"}>
+                {t("How many spontaneous messages all your pets send together each hour. Set to 0 to turn them off")}
+            </Text>
+            <Slider
+                min={0}
+                max={60}
+                step={1}
+                defaultValue={aiMessagesPerHour}
+                my={"sm"}
+                marks={[{ value: 0, label: "0" }, { value: 30, label: "30" }, { value: 60, label: "60" }]}
+                onChangeEnd={(value) => handleSettingChange(DispatchType.ChangeAIMessagesPerHour, value)}
+            />
+            <Text mt={"sm"}>{t("Break length")}</Text>
+            <Text fz={"xs"} c={"dimmed"}>
+                {t("Minutes away from the computer after which your working session starts over. Shorter breaks only pause it")}
+            </Text>
+            <Slider
+                min={MIN_BREAK_RESET_MINUTES}
+                max={30}
+                step={1}
+                defaultValue={Math.max(breakResetMinutes, MIN_BREAK_RESET_MINUTES)}
+                my={"sm"}
+                marks={[{ value: MIN_BREAK_RESET_MINUTES, label: `${MIN_BREAK_RESET_MINUTES}` }, { value: 15, label: "15" }, { value: 30, label: "30" }]}
+                onChangeEnd={(value) => handleSettingChange(DispatchType.ChangeBreakResetMinutes, value)}
+            />
+            <QuietModeSettings />
+            <UserProfileSettings />
+            <PromptTemplateSettings />
+            <ApiKeySettings />
         </>
     )
 }
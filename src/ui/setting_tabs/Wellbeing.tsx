@@ -0,0 +1,160 @@
+import { Badge, Button, Divider, Group, Paper, SegmentedControl, SimpleGrid, Stack, Text, Tooltip } from "@mantine/core";
+import { IconDownload } from "@tabler/icons-react";
+import { save } from "@tauri-apps/api/dialog";
+import { writeTextFile } from "@tauri-apps/api/fs";
+import { memo, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { usageStatsService } from "../../services/usageStatsService";
+import { IDailyUsage, UsageExportFormat, UsagePeriod } from "../../types/IUsageStats";
+import { ReminderType } from "../../types/IReminder";
+import { ButtonVariant, PrimaryColor } from "../../utils";
+import { showNotification } from "../../utils/notification";
+import { countRemindersDone, exportUsage, getDateKey, getHourlyActiveMinutes, getPeriodDays, summarizeUsage } from "../../utils/usageStats";
+import FocusTimer from "./wellbeing/FocusTimer";
+import Reminders from "./wellbeing/Reminders";
+import Breathing from "./wellbeing/Breathing";
+
+const CHART_HEIGHT = 120;
+
+interface IStatCardProps {
+    label: string,
+    value: string,
+}
+
+function StatCard({ label, value }: IStatCardProps) {
+    return (
+        <Paper withBorder p={"sm"}>
+            <Text fz={"xs"} c={"dimmed"}>{label}</Text>
+            <Text fz={"lg"} fw={500}>{value}</Text>
+        </Paper>
+    )
+}
+
+// one bar of the chart: a day of the week or month, or an hour of today
+interface IUsageBar {
+    label: string,
+    activeMinutes: number,
+}
+
+function UsageChart({ bars }: { bars: IUsageBar[] }) {
+    const { t } = useTranslation();
+    const highest = Math.max(...bars.map((bar) => bar.activeMinutes), 1);
+
+    return (
+        <Group gap={2} align={"flex-end"} wrap={"nowrap"} h={CHART_HEIGHT}>
+            {
+                bars.map((bar) => (
+                    <Tooltip key={bar.label} label={`${bar.label} · ${t("count minutes", { count: bar.activeMinutes })}`}>
+                        <div style={{ flex: 1, height: "100%", display: "flex", alignItems: "flex-end" }}>
+                            <div
+                                style={{
+                                    width: "100%",
+                                    height: `${(bar.activeMinutes / highest) * 100}%`,
+                                    minHeight: 2,
+                                    borderRadius: 2,
+                                    backgroundColor: `var(--mantine-color-${PrimaryColor}-filled)`,
+                                }}
+                            />
+                        </div>
+                    </Tooltip>
+                ))
+            }
+        </Group>
+    )
+}
+
+function Wellbeing() {
+    const { t } = useTranslation();
+    const [records, setRecords] = useState<IDailyUsage[]>([]);
+    const [period, setPeriod] = useState<UsagePeriod>(UsagePeriod.Week);
+
+    useEffect(() => {
+        // the pet overlay writes the stats every minute, always read the latest file
+        usageStatsService.invalidate();
+        usageStatsService.getRecords().then((saved) => setRecords([...saved]));
+    }, []);
+
+    const exportRecords = async (format: UsageExportFormat) => {
+        const path = await save({
+            defaultPath: `usage-stats-${getDateKey(new Date())}.${format}`,
+            filters: [{ name: format.toUpperCase(), extensions: [format] }],
+        });
+        if (!path) return;
+
+        try {
+            await writeTextFile(path, exportUsage(records, format));
+            showNotification({ title: t("Usage stats exported"), message: path });
+        } catch (err) {
+            showNotification({ title: t("Could not export usage stats"), message: String(err), isError: true });
+        }
+    };
+
+    const days = getPeriodDays(records, period, new Date());
+    const summary = summarizeUsage(days);
+    // today is shown hour by hour, a week or a month day by day
+    const bars: IUsageBar[] = period === UsagePeriod.Today
+        ? getHourlyActiveMinutes(days[0]).map((activeMinutes, hour) => ({ label: `${String(hour).padStart(2, "0")}:00`, activeMinutes }))
+        : days.map((day) => ({ label: day.date, activeMinutes: day.activeMinutes }));
+
+    return (
+        <Stack>
+            <FocusTimer />
+            <Divider my={"sm"} />
+            <Reminders />
+            <Divider my={"sm"} />
+            <Breathing />
+            <Divider my={"sm"} />
+            <Text>{t("Usage")}</Text>
+            <SegmentedControl
+                value={period}
+                onChange={(value) => setPeriod(value as UsagePeriod)}
+                data={[
+                    { label: t("Today"), value: UsagePeriod.Today },
+                    { label: t("This week"), value: UsagePeriod.Week },
+                    { label: t("This month"), value: UsagePeriod.Month },
+                ]}
+            />
+            <SimpleGrid cols={3}>
+                <StatCard label={t("Active time")} value={t("count minutes", { count: summary.activeMinutes })} />
+                <StatCard label={t("Breaks")} value={String(summary.breakCount)} />
+                <StatCard label={t("Longest focus streak")} value={t("count minutes", { count: summary.longestFocusStreak })} />
+            </SimpleGrid>
+            <div>
+                <Text fz={"sm"} mb={"xs"}>{t("Reminders done")}</Text>
+                <Group gap={"xs"}>
+                    {
+                        Object.values(ReminderType).map((type) => (
+                            <Badge key={type} variant={"light"} color={countRemindersDone(summary, type) > 0 ? undefined : "gray"}>
+                                {t(`reminder type ${type}`)} · {countRemindersDone(summary, type)}
+                            </Badge>
+                        ))
+                    }
+                </Group>
+            </div>
+            <div>
+                <Text fz={"sm"} mb={"xs"}>{period === UsagePeriod.Today ? t("Active time per hour") : t("Active time per day")}</Text>
+                <UsageChart bars={bars} />
+            </div>
+            <Text fz={"xs"} c={"dimmed"}>
+                {t("Only the time you actually use the computer is counted. Everything is stored only on this computer")}
+            </Text>
+            <Group justify={"flex-end"}>
+                {
+                    Object.values(UsageExportFormat).map((format) => (
+                        <Button
+                            key={format}
+                            variant={ButtonVariant}
+                            leftSection={<IconDownload size="1rem" />}
+                            disabled={records.length === 0}
+                            onClick={() => exportRecords(format)}
+                        >
+                            {t("Export as", { format: format.toUpperCase() })}
+                        </Button>
+                    ))
+                }
+            </Group>
+        </Stack>
+    )
+}
+
+export default memo(Wellbeing);
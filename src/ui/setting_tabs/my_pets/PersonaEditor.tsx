@@ -0,0 +1,112 @@
+import { Button, Divider, Group, Modal, MultiSelect, NumberInput, Select, Stack, Switch, TextInput, Textarea } from "@mantine/core";
+import { memo, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { DEFAULT_PET_AI_SETTINGS, PERSONA_MESSAGE_CATEGORIES, PERSONA_PRESETS, createPersonaFromPreset, getPetPersona } from "../../../config/persona_presets";
+import languages from "../../../locale/languages";
+import { IPersona, MessageCategory, PersonaTone } from "../../../types/IPersona";
+import { IPetAISettings, ISpriteConfig } from "../../../types/ISpriteConfig";
+import { ButtonVariant } from "../../../utils";
+
+interface IPersonaEditorProps {
+    pet: ISpriteConfig | null,
+    onClose: () => void,
+    onSave: (persona: IPersona, aiSettings: IPetAISettings) => void,
+}
+
+function PersonaEditor({ pet, onClose, onSave }: IPersonaEditorProps) {
+    const { t } = useTranslation();
+    const [persona, setPersona] = useState<IPersona | null>(null);
+    const [aiSettings, setAISettings] = useState<IPetAISettings>(DEFAULT_PET_AI_SETTINGS);
+
+    useEffect(() => {
+        setPersona(pet ? getPetPersona(pet) : null);
+        setAISettings(pet?.aiSettings ?? DEFAULT_PET_AI_SETTINGS);
+    }, [pet]);
+
+    const tones = Object.values(PersonaTone).map((tone) => ({ value: tone, label: t(`persona tone ${tone}`) }));
+    const categories = PERSONA_MESSAGE_CATEGORIES.map((category) => ({ value: category, label: t(`message category ${category}`) }));
+
+    const applyPreset = (presetId: string | null) => {
+        if (!persona || !presetId) return;
+        setPersona(createPersonaFromPreset(persona.name, presetId));
+    };
+
+    return (
+        <Modal opened={pet !== null} onClose={onClose} title={t("Persona of pet", { name: pet?.name })} centered>
+            {
+                persona &&
+                <Stack>
+                    <Select
+                        label={t("Preset")}
+                        description={t("Start from a built-in personality, then adjust it")}
+                        allowDeselect={false}
+                        value={persona.presetId ?? null}
+                        onChange={applyPreset}
+                        data={PERSONA_PRESETS.map((preset) => ({ value: preset.id, label: t(preset.label) }))}
+                    />
+                    <TextInput
+                        label={t("Name")}
+                        value={persona.name}
+                        onChange={(event) => setPersona({ ...persona, name: event.currentTarget.value })}
+                    />
+                    <Select
+                        label={t("Tone")}
+                        allowDeselect={false}
+                        value={persona.tone}
+                        onChange={(value) => setPersona({ ...persona, tone: value as PersonaTone })}
+                        data={tones}
+                    />
+                    <Textarea
+                        label={t("Speaking style")}
+                        description={t("Describe how this pet talks")}
+                        autosize
+                        minRows={2}
+                        value={persona.speakingStyle}
+                        onChange={(event) => setPersona({ ...persona, speakingStyle: event.currentTarget.value })}
+                    />
+                    <MultiSelect
+                        label={t("Message categories")}
+                        description={t("Kinds of messages this pet sends on its own")}
+                        value={persona.categories}
+                        onChange={(value) => setPersona({ ...persona, categories: value as MessageCategory[] })}
+                        data={categories}
+                    />
+                    <Select
+                        label={t("Language")}
+                        allowDeselect={false}
+                        value={persona.language}
+                        onChange={(value) => setPersona({ ...persona, language: value as string })}
+                        data={languages.map((language) => ({ value: language.value, label: language.label }))}
+                    />
+                    <Divider label={t("AI messages")} labelPosition={"left"} />
+                    <Switch
+                        label={t("Send spontaneous messages")}
+                        checked={aiSettings.enabled}
+                        onChange={(event) => setAISettings({ ...aiSettings, enabled: event.currentTarget.checked })}
+                    />
+                    <NumberInput
+                        label={t("Minimum minutes between messages")}
+                        description={t("This pet stays quiet at least this long after it speaks")}
+                        min={1}
+                        max={240}
+                        disabled={!aiSettings.enabled}
+                        value={aiSettings.minIntervalMinutes}
+                        onChange={(value) => setAISettings({ ...aiSettings, minIntervalMinutes: Number(value) || 1 })}
+                    />
+                    <Group justify={"flex-end"}>
+                        <Button variant={ButtonVariant} color={"gray"} onClick={onClose}>{t("Cancel")}</Button>
+                        <Button
+                            variant={ButtonVariant}
+                            disabled={!persona.name.trim()}
+                            onClick={() => onSave({ ...persona, name: persona.name.trim() }, aiSettings)}
+                        >
+                            {t("Save")}
+                        </Button>
+                    </Group>
+                </Stack>
+            }
+        </Modal>
+    )
+}
+
+export default memo(PersonaEditor);
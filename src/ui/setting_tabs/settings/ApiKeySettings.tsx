@@ -0,0 +1,181 @@
+import { Alert, Button, Divider, Group, PasswordInput, Stack, Text, TextInput } from "@mantine/core";
+import { IconAlertTriangle, IconKey, IconPlugConnected, IconRefresh, IconTrash } from "@tabler/icons-react";
+import { memo, useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { credentialService } from "../../../services/credentialService";
+import { CredentialProvider, ICredential } from "../../../types/ICredential";
+import { DispatchType } from "../../../types/IEvents";
+import { LLMProviderType } from "../../../types/ILLM";
+import { useSettingStore } from "../../../hooks/useSettingStore";
+import { handleSettingChange } from "../../../utils/handleSettingChange";
+import { showNotification } from "../../../utils/notification";
+import { ButtonVariant } from "../../../utils";
+import { LLM_PROVIDER_DEFAULTS } from "../../../services/llm";
+
+const CREDENTIAL_PROVIDERS = [
+    { provider: CredentialProvider.Gemini, title: "Google Gemini" },
+    { provider: CredentialProvider.OpenAICompatible, title: "OpenAI-compatible" },
+    { provider: CredentialProvider.OpenWeatherMap, title: "OpenWeatherMap" },
+];
+
+// only show the last characters so the key can be recognized without being exposed
+const maskKey = (key: string) => key.length <= 4 ? "••••" : `••••••••${key.slice(-4)}`;
+
+interface ICredentialRowProps {
+    provider: CredentialProvider,
+    credential: ICredential,
+    onChange: () => void,
+}
+
+function CredentialRow({ provider, credential, onChange }: ICredentialRowProps) {
+    const { t } = useTranslation();
+    const { aiBaseUrl } = useSettingStore();
+    const [isTesting, setIsTesting] = useState(false);
+    const [isRotating, setIsRotating] = useState(false);
+    const [newKey, setNewKey] = useState("");
+
+    const testKey = async () => {
+        setIsTesting(true);
+        const result = await credentialService.testCredential(
+            provider,
+            credential.key,
+            aiBaseUrl || LLM_PROVIDER_DEFAULTS[LLMProviderType.OpenAICompatible].baseUrl,
+        );
+        setIsTesting(false);
+
+        showNotification({
+            title: result.ok ? t("API key works") : t("API key test failed"),
+            message: result.ok ? credential.label : `${credential.label}: ${result.error}`,
+            isError: !result.ok,
+        });
+    };
+
+    const rotateKey = async () => {
+        if (!newKey.trim()) return;
+        await credentialService.rotateCredential(provider, credential.id, newKey);
+        setNewKey("");
+        setIsRotating(false);
+        onChange();
+    };
+
+    return (
+        <Stack gap={"xs"}>
+            <Group justify={"space-between"}>
+                <div>
+                    <Text>{credential.label}</Text>
+                    <Text fz={"xs"} c={"dimmed"}>{maskKey(credential.key)}</Text>
+                </div>
+                <Group gap={"xs"}>
+                    <Button variant={ButtonVariant} size={"xs"} loading={isTesting} leftSection={<IconPlugConnected size="1rem" />} onClick={testKey}>
+                        {t("Test")}
+                    </Button>
+                    <Button variant={ButtonVariant} size={"xs"} leftSection={<IconRefresh size="1rem" />} onClick={() => setIsRotating(!isRotating)}>
+                        {t("Rotate")}
+                    </Button>
+                    <Button variant={ButtonVariant} size={"xs"} color={"red"} leftSection={<IconTrash size="1rem" />} onClick={async () => {
+                        await credentialService.deleteCredential(provider, credential.id);
+                        onChange();
+                    }}>
+                        {t("Delete")}
+                    </Button>
+                </Group>
+            </Group>
+            {
+                isRotating &&
+                <Group align={"flex-end"}>
+                    <PasswordInput
+                        style={{ flex: 1 }}
+                        label={t("New API key")}
+                        value={newKey}
+                        onChange={(event) => setNewKey(event.currentTarget.value)}
+                    />
+                    <Button variant={ButtonVariant} onClick={rotateKey}>{t("Apply")}</Button>
+                </Group>
+            }
+        </Stack>
+    )
+}
+
+function ApiKeySettings() {
+    const { t } = useTranslation();
+    const { aiProvider } = useSettingStore();
+    const [credentials, setCredentials] = useState<Partial<Record<CredentialProvider, ICredential[]>>>({});
+    const [newLabels, setNewLabels] = useState<Partial<Record<CredentialProvider, string>>>({});
+    const [newKeys, setNewKeys] = useState<Partial<Record<CredentialProvider, string>>>({});
+
+    const loadCredentials = useCallback(async () => {
+        const loaded: Partial<Record<CredentialProvider, ICredential[]>> = {};
+        for (const { provider } of CREDENTIAL_PROVIDERS) {
+            loaded[provider] = await credentialService.getCredentials(provider);
+        }
+        setCredentials(loaded);
+    }, []);
+
+    // reload the list and tell the pet overlay to pick up the new keys
+    const onCredentialsChange = useCallback(async () => {
+        handleSettingChange(DispatchType.UpdateCredentials, true);
+        await loadCredentials();
+    }, [loadCredentials]);
+
+    useEffect(() => {
+        loadCredentials();
+    }, []);
+
+    const addKey = async (provider: CredentialProvider) => {
+        const key = newKeys[provider] ?? "";
+        if (!key.trim()) return;
+
+        await credentialService.addCredential(provider, newLabels[provider] ?? "", key);
+        setNewKeys({ ...newKeys, [provider]: "" });
+        setNewLabels({ ...newLabels, [provider]: "" });
+        await onCredentialsChange();
+    };
+
+    const isMissingAIKey = aiProvider === LLMProviderType.Gemini && (credentials[CredentialProvider.Gemini]?.length ?? 0) === 0;
+
+    return (
+        <>
+            <Text mt={"lg"}>{t("API keys")}</Text>
+            <Text maw={460} fz={"xs"} c={"dimmed"} mb={"sm"}>
+                {t("Keys are stored only on this computer, in the app config folder. When one key fails the next one is tried")}
+            </Text>
+            {
+                isMissingAIKey &&
+                <Alert my={"sm"} color={"red"} icon={<IconAlertTriangle />} title={t("No AI key")}>
+                    {t("Pets will not send AI messages until you add a key for the selected AI provider")}
+                </Alert>
+            }
+            {
+                CREDENTIAL_PROVIDERS.map(({ provider, title }) => (
+                    <Stack key={provider} gap={"sm"} my={"sm"}>
+                        <Text fw={500}>{title}</Text>
+                        {
+                            (credentials[provider] ?? []).map((credential) => (
+                                <CredentialRow key={credential.id} provider={provider} credential={credential} onChange={onCredentialsChange} />
+                            ))
+                        }
+                        <Group align={"flex-end"}>
+                            <TextInput
+                                w={140}
+                                label={t("Label")}
+                                value={newLabels[provider] ?? ""}
+                                onChange={(event) => setNewLabels({ ...newLabels, [provider]: event.currentTarget.value })}
+                            />
+                            <PasswordInput
+                                style={{ flex: 1 }}
+                                leftSection={<IconKey size="1rem" />}
+                                label={t("API key")}
+                                value={newKeys[provider] ?? ""}
+                                onChange={(event) => setNewKeys({ ...newKeys, [provider]: event.currentTarget.value })}
+                            />
+                            <Button variant={ButtonVariant} onClick={() => addKey(provider)}>{t("Add")}</Button>
+                        </Group>
+                        <Divider my={"sm"} />
+                    </Stack>
+                ))
+            }
+        </>
+    )
+}
+
+export default memo(ApiKeySettings);
@@ -0,0 +1,97 @@
+import { Button, Code, Group, Paper, Stack, Text, Textarea } from "@mantine/core";
+import { IconDeviceFloppy, IconRestore } from "@tabler/icons-react";
+import { memo, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { DEFAULT_PROMPT_TEMPLATES, SAMPLE_PROMPT_CONTEXT } from "../../../config/prompt_templates";
+import { useSettingStore } from "../../../hooks/useSettingStore";
+import { promptTemplateService } from "../../../services/promptTemplateService";
+import { DispatchType } from "../../../types/IEvents";
+import { IPromptTemplateError, IPromptTemplates, PromptTemplateName } from "../../../types/IPromptTemplate";
+import { ButtonVariant } from "../../../utils";
+import { handleSettingChange } from "../../../utils/handleSettingChange";
+import { showNotification } from "../../../utils/notification";
+import { PROMPT_TEMPLATE_VARIABLES, renderTemplate, validateTemplate } from "../../../utils/promptTemplate";
+
+const TEMPLATE_TITLES: Record<PromptTemplateName, string> = {
+    [PromptTemplateName.Thought]: "Thought message",
+    [PromptTemplateName.LongSession]: "Break reminder",
+};
+
+function PromptTemplateSettings() {
+    const { t } = useTranslation();
+    const { userProfile } = useSettingStore();
+    const [templates, setTemplates] = useState<IPromptTemplates>(DEFAULT_PROMPT_TEMPLATES);
+
+    useEffect(() => {
+        // the overlay may have read an older version, always start from the file
+        promptTemplateService.invalidate();
+        promptTemplateService.getTemplates().then((saved) => setTemplates({ ...saved }));
+    }, []);
+
+    const errors = useMemo(() => {
+        const result = {} as Record<PromptTemplateName, IPromptTemplateError[]>;
+        Object.values(PromptTemplateName).forEach((name) => {
+            result[name] = validateTemplate(templates[name]);
+        });
+        return result;
+    }, [templates]);
+
+    const hasErrors = Object.values(errors).some((templateErrors) => templateErrors.length > 0);
+
+    // show the preview with the user's real name so they can see how it reads
+    const previewContext = { ...SAMPLE_PROMPT_CONTEXT, userName: userProfile.displayName.trim() || SAMPLE_PROMPT_CONTEXT.userName };
+
+    const saveTemplates = (newTemplates: IPromptTemplates) => {
+        promptTemplateService.saveTemplates(newTemplates);
+        handleSettingChange(DispatchType.UpdatePromptTemplates, true);
+        showNotification({ title: t("Prompt templates saved"), message: t("Your pets will use them from the next message") });
+    };
+
+    const resetTemplates = () => {
+        setTemplates({ ...DEFAULT_PROMPT_TEMPLATES });
+        saveTemplates({ ...DEFAULT_PROMPT_TEMPLATES });
+    };
+
+    return (
+        <>
+            <Text mt={"lg"}>{t("Prompt templates")}</Text>
+            <Text maw={460} fz={"xs"} c={"dimmed"} mb={"sm"}>
+                {t("Describe the situation sent to the AI. Available variables:")} {PROMPT_TEMPLATE_VARIABLES.map((name) => <Code key={name}>{`{{${name}}}`}</Code>)}.
+                {" "}{t("Wrap text in")} <Code>{"{{#weather}}...{{/weather}}"}</Code> {t("to only show it when the value is not empty")}
+            </Text>
+            {
+                Object.values(PromptTemplateName).map((name) => (
+                    <Stack key={name} gap={"xs"} my={"sm"}>
+                        <Textarea
+                            label={t(TEMPLATE_TITLES[name])}
+                            autosize
+                            minRows={3}
+                            value={templates[name]}
+                            onChange={(event) => setTemplates({ ...templates, [name]: event.currentTarget.value })}
+                            error={errors[name].length > 0 && errors[name]
+                                .map((error) => t(`template error ${error.type}`, { variable: error.variable }))
+                                .join(", ")}
+                        />
+                        {
+                            errors[name].length === 0 &&
+                            <Paper withBorder p={"xs"}>
+                                <Text fz={"xs"} c={"dimmed"}>{t("Preview")}</Text>
+                                <Text fz={"sm"}>{renderTemplate(templates[name], previewContext)}</Text>
+                            </Paper>
+                        }
+                    </Stack>
+                ))
+            }
+            <Group>
+                <Button variant={ButtonVariant} leftSection={<IconDeviceFloppy size="1rem" />} disabled={hasErrors} onClick={() => saveTemplates(templates)}>
+                    {t("Save")}
+                </Button>
+                <Button variant={ButtonVariant} color={"gray"} leftSection={<IconRestore size="1rem" />} onClick={resetTemplates}>
+                    {t("Reset to default")}
+                </Button>
+            </Group>
+        </>
+    )
+}
+
+export default memo(PromptTemplateSettings);
@@ -0,0 +1,158 @@
+import { ActionIcon, Button, Chip, Group, Paper, Select, Text, TextInput } from "@mantine/core";
+import { IconBellOff, IconClockPause, IconPlus, IconTrash } from "@tabler/icons-react";
+import { listen } from "@tauri-apps/api/event";
+import { memo, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useSettingStore } from "../../../hooks/useSettingStore";
+import { DispatchType, EventType, TRenderEventListener } from "../../../types/IEvents";
+import { IQuietHoursRule, QuietMessagePolicy } from "../../../types/IQuietMode";
+import { ButtonVariant } from "../../../utils";
+import { handleSettingChange } from "../../../utils/handleSettingChange";
+import { SNOOZE_DURATIONS_MINUTES, parseTimeOfDay } from "../../../utils/quietMode";
+import SettingSwitch from "./SettingSwitch";
+
+const DAYS_OF_WEEK = [1, 2, 3, 4, 5, 6, 0];
+const NEW_QUIET_HOURS_RULE: IQuietHoursRule = { days: [1, 2, 3, 4, 5], start: "22:00", end: "07:00" };
+
+function QuietModeSettings() {
+    const { t, i18n } = useTranslation();
+    const { quietHours, quietMessagePolicy, doNotDisturbUntil, presentationMode, setDoNotDisturbUntil, setPresentationMode } = useSettingStore();
+
+    // do not disturb and presentation mode can also be changed from the pet quick menu
+    useEffect(() => {
+        const unlisten = listen<TRenderEventListener["payload"]>(EventType.PetOverlayToSettingWindow, (event) => {
+            switch (event.payload.dispatchType) {
+                case DispatchType.ChangeDoNotDisturbUntil:
+                    setDoNotDisturbUntil(event.payload.value as number);
+                    break;
+                case DispatchType.SwitchPresentationMode:
+                    setPresentationMode(event.payload.value as boolean);
+                    break;
+                default:
+                    break;
+            }
+        });
+
+        return () => {
+            unlisten.then((stop) => stop());
+        };
+    }, []);
+
+    // 2024-01-07 is a Sunday, so the day of month lines up with Date.getDay()
+    const getDayLabel = (day: number) => new Date(2024, 0, 7 + day).toLocaleDateString(i18n.language, { weekday: "short" });
+
+    const updateRule = (index: number, changes: Partial<IQuietHoursRule>) => {
+        handleSettingChange(DispatchType.ChangeQuietHours, quietHours.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+    };
+
+    const removeRule = (index: number) => {
+        handleSettingChange(DispatchType.ChangeQuietHours, quietHours.filter((_, i) => i !== index));
+    };
+
+    const isSnoozing = doNotDisturbUntil > Date.now();
+
+    return (
+        <>
+            <Text mt={"lg"}>{t("Quiet time")}</Text>
+            <Text maw={460} fz={"xs"} c={"dimmed"} mb={"sm"}>
+                {t("Times when your pets do not send messages on their own. You can also right click a pet to snooze it")}
+            </Text>
+            <SettingSwitch
+                title={t("Presentation mode")}
+                description={t("Hide all bubbles and stop calling the AI, e.g. while sharing your screen")}
+                checked={presentationMode}
+                dispatchType={DispatchType.SwitchPresentationMode}
+            />
+            <Text>{t("Do not disturb")}</Text>
+            <Text fz={"xs"} c={"dimmed"}>
+                {
+                    isSnoozing
+                        ? t("Quiet until time", { time: new Date(doNotDisturbUntil).toLocaleTimeString(i18n.language, { hour: "2-digit", minute: "2-digit" }) })
+                        : t("Pause messages for a while")
+                }
+            </Text>
+            <Group my={"sm"} gap={"xs"}>
+                {
+                    SNOOZE_DURATIONS_MINUTES.map((minutes) => (
+                        <Button
+                            key={minutes}
+                            variant={ButtonVariant}
+                            size={"xs"}
+                            leftSection={<IconClockPause size="1rem" />}
+                            onClick={() => handleSettingChange(DispatchType.ChangeDoNotDisturbUntil, Date.now() + minutes * 60 * 1000)}
+                        >
+                            {t("Snooze for minutes", { count: minutes })}
+                        </Button>
+                    ))
+                }
+                {
+                    isSnoozing &&
+                    <Button variant={ButtonVariant} size={"xs"} color={"gray"} onClick={() => handleSettingChange(DispatchType.ChangeDoNotDisturbUntil, 0)}>
+                        {t("Stop snoozing")}
+                    </Button>
+                }
+            </Group>
+            <Text mt={"sm"}>{t("Quiet hours")}</Text>
+            {
+                quietHours.map((rule, index) => (
+                    <Paper key={index} withBorder p={"xs"} my={"xs"}>
+                        <Group justify={"space-between"} mb={"xs"}>
+                            <Chip.Group
+                                multiple
+                                value={rule.days.map(String)}
+                                onChange={(value) => updateRule(index, { days: value.map(Number) })}
+                            >
+                                <Group gap={4}>
+                                    {DAYS_OF_WEEK.map((day) => <Chip key={day} size={"xs"} value={String(day)}>{getDayLabel(day)}</Chip>)}
+                                </Group>
+                            </Chip.Group>
+                            <ActionIcon variant={"subtle"} color={"red"} onClick={() => removeRule(index)} aria-label={t("Remove")}>
+                                <IconTrash size="1rem" />
+                            </ActionIcon>
+                        </Group>
+                        <Group grow>
+                            <TextInput
+                                type={"time"}
+                                label={t("From")}
+                                value={rule.start}
+                                error={parseTimeOfDay(rule.start) === null}
+                                onChange={(event) => updateRule(index, { start: event.currentTarget.value })}
+                            />
+                            <TextInput
+                                type={"time"}
+                                label={t("To")}
+                                value={rule.end}
+                                error={parseTimeOfDay(rule.end) === null}
+                                onChange={(event) => updateRule(index, { end: event.currentTarget.value })}
+                            />
+                        </Group>
+                    </Paper>
+                ))
+            }
+            <Button
+                variant={ButtonVariant}
+                size={"xs"}
+                my={"xs"}
+                leftSection={<IconPlus size="1rem" />}
+                onClick={() => handleSettingChange(DispatchType.ChangeQuietHours, [...quietHours, { ...NEW_QUIET_HOURS_RULE, days: [...NEW_QUIET_HOURS_RULE.days] }])}
+            >
+                {t("Add quiet hours")}
+            </Button>
+            <Select
+                leftSection={<IconBellOff />}
+                allowDeselect={false}
+                checkIconPosition={"right"}
+                my={"sm"}
+                label={t("Messages ready during quiet time")}
+                data={[
+                    { value: QuietMessagePolicy.Defer, label: t("Show them later") },
+                    { value: QuietMessagePolicy.Drop, label: t("Throw them away") },
+                ]}
+                value={quietMessagePolicy}
+                onChange={(value) => handleSettingChange(DispatchType.ChangeQuietMessagePolicy, value as string)}
+            />
+        </>
+    )
+}
+
+export default memo(QuietModeSettings);
@@ -0,0 +1,92 @@
+import { Select, TagsInput, Text, TextInput } from "@mantine/core";
+import { IconMoodHeart, IconUser, IconUserHeart, IconBan, IconLifebuoy } from "@tabler/icons-react";
+import { memo } from "react";
+import { useTranslation } from "react-i18next";
+import { useSettingStore } from "../../../hooks/useSettingStore";
+import { DispatchType } from "../../../types/IEvents";
+import { AddressForm, IUserProfile } from "../../../types/IUserProfile";
+import { handleSettingChange } from "../../../utils/handleSettingChange";
+import { CRISIS_RESOURCES } from "../../../config/crisis_support";
+
+function UserProfileSettings() {
+    const { t } = useTranslation();
+    const { userProfile, crisisPhrases } = useSettingStore();
+
+    const updateProfile = (changes: Partial<IUserProfile>) => {
+        handleSettingChange(DispatchType.ChangeUserProfile, { ...userProfile, ...changes });
+    };
+
+    return (
+        <>
+            <Text mt={"lg"}>{t("About you")}</Text>
+            <Text maw={460} fz={"xs"} c={"dimmed"} mb={"sm"}>
+                {t("Your pets use this to talk to you personally")}
+            </Text>
+            <TextInput
+                leftSection={<IconUser />}
+                my={"sm"}
+                label={t("Display name")}
+                description={t("What your pets call you")}
+                value={userProfile.displayName}
+                onChange={(event) => updateProfile({ displayName: event.currentTarget.value })}
+            />
+            <Select
+                leftSection={<IconUserHeart />}
+                allowDeselect={false}
+                checkIconPosition={"right"}
+                my={"sm"}
+                label={t("Form of address")}
+                description={t("How your pets address you in Vietnamese")}
+                data={Object.values(AddressForm)}
+                value={userProfile.addressForm}
+                onChange={(value) => updateProfile({ addressForm: value as AddressForm })}
+            />
+            <TextInput
+                my={"sm"}
+                label={t("Pronouns")}
+                placeholder={t("e.g. cô ấy, anh ấy, họ")}
+                value={userProfile.pronouns}
+                onChange={(event) => updateProfile({ pronouns: event.currentTarget.value })}
+            />
+            <TagsInput
+                leftSection={<IconMoodHeart />}
+                my={"sm"}
+                label={t("Interests")}
+                description={t("Press Enter after each one")}
+                value={userProfile.interests}
+                onChange={(value) => updateProfile({ interests: value })}
+            />
+            <TagsInput
+                leftSection={<IconBan />}
+                my={"sm"}
+                label={t("Topics to avoid")}
+                description={t("Your pets will never bring these up")}
+                value={userProfile.avoidTopics}
+                onChange={(value) => updateProfile({ avoidTopics: value })}
+            />
+            <Select
+                leftSection={<IconLifebuoy />}
+                allowDeselect={false}
+                checkIconPosition={"right"}
+                my={"sm"}
+                label={t("Country")}
+                description={t("Used to show support lines near you if you ever need them")}
+                data={[
+                    ...CRISIS_RESOURCES.map(({ country, countryName }) => ({ value: country, label: countryName })),
+                    { value: "", label: t("Other") },
+                ]}
+                value={userProfile.country}
+                onChange={(value) => updateProfile({ country: value ?? "" })}
+            />
+            <TagsInput
+                my={"sm"}
+                label={t("Words that worry you")}
+                description={t("Your pets show support lines instead of replying when these come up, on top of the built-in ones")}
+                value={crisisPhrases}
+                onChange={(value) => handleSettingChange(DispatchType.ChangeCrisisPhrases, value)}
+            />
+        </>
+    )
+}
+
+export default memo(UserProfileSettings);
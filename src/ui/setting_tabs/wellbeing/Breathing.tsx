@@ -0,0 +1,123 @@
+import { Button, Group, NumberInput, SegmentedControl, Select, SimpleGrid, Stack, Switch, Text } from "@mantine/core";
+import { IconWind } from "@tabler/icons-react";
+import { memo, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { BREATHING_PRESETS } from "../../../config/breathing";
+import { useSettingStore } from "../../../hooks/useSettingStore";
+import { breathingService } from "../../../services/breathingService";
+import { IBreathingPattern, IBreathingSession, IBreathingSettings } from "../../../types/IBreathing";
+import { DispatchType } from "../../../types/IEvents";
+import { ButtonVariant } from "../../../utils";
+import { getBreathingDurationMs, getBreathingPresetId } from "../../../utils/breathing";
+import { handleSettingChange } from "../../../utils/handleSettingChange";
+import { getDateKey } from "../../../utils/usageStats";
+
+const CUSTOM_PRESET = "custom";
+// the pet that spoke last leads the exercise, the pet overlay is told with an empty id
+const LAST_SPEAKING_PET = "last speaking";
+const MAX_STEP_SECONDS = 20;
+const MAX_CYCLES = 20;
+
+// breathing in and out can't be skipped, the holds can
+const PATTERN_FIELDS: { key: keyof IBreathingPattern, label: string, min: number }[] = [
+    { key: "inhaleSeconds", label: "Breathe in seconds", min: 1 },
+    { key: "holdSeconds", label: "Hold seconds", min: 0 },
+    { key: "exhaleSeconds", label: "Breathe out seconds", min: 1 },
+    { key: "holdEmptySeconds", label: "Hold empty seconds", min: 0 },
+];
+
+function Breathing() {
+    const { t } = useTranslation();
+    const { breathing, pets } = useSettingStore();
+    const [sessions, setSessions] = useState<IBreathingSession[]>([]);
+    const [petId, setPetId] = useState<string>(LAST_SPEAKING_PET);
+
+    useEffect(() => {
+        // the pet window writes the log, always read the latest file
+        breathingService.invalidate();
+        breathingService.getSessions().then((saved) => setSessions([...saved]));
+    }, []);
+
+    const change = (changes: Partial<IBreathingSettings>) => handleSettingChange(DispatchType.ChangeBreathing, { ...breathing, ...changes });
+    const presetId = getBreathingPresetId(breathing.pattern) ?? CUSTOM_PRESET;
+
+    const today = getDateKey(new Date());
+    const breathedToday = sessions.filter((session) => getDateKey(new Date(session.endedAt)) === today);
+
+    return (
+        <Stack>
+            <div>
+                <Text>{t("Guided breathing")}</Text>
+                <Text fz={"xs"} c={"dimmed"}>
+                    {t("A pet breathes with you and shows when to breathe in, hold and breathe out. You can also start it by right clicking a pet")}
+                </Text>
+            </div>
+            <Group align={"flex-end"}>
+                <Select
+                    label={t("Led by")}
+                    allowDeselect={false}
+                    value={petId}
+                    onChange={(value) => setPetId(value ?? LAST_SPEAKING_PET)}
+                    data={[
+                        { value: LAST_SPEAKING_PET, label: t("The pet that spoke last") },
+                        ...pets.filter((pet) => pet.id).map((pet) => ({ value: pet.id as string, label: pet.name })),
+                    ]}
+                />
+                <Button variant={ButtonVariant} leftSection={<IconWind size="1rem" />} onClick={() => handleSettingChange(DispatchType.StartBreathing, petId === LAST_SPEAKING_PET ? "" : petId)}>
+                    {t("Start breathing now")}
+                </Button>
+            </Group>
+            <SegmentedControl
+                value={presetId}
+                onChange={(value) => {
+                    const preset = BREATHING_PRESETS.find(({ id }) => id === value);
+                    if (preset) change({ pattern: { ...preset.pattern } });
+                }}
+                data={[
+                    ...BREATHING_PRESETS.map(({ id }) => ({ label: t(`breathing preset ${id}`), value: id })),
+                    { label: t("Custom"), value: CUSTOM_PRESET },
+                ]}
+            />
+            <SimpleGrid cols={5}>
+                {
+                    PATTERN_FIELDS.map(({ key, label, min }) => (
+                        <NumberInput
+                            key={key}
+                            label={t(label)}
+                            min={min}
+                            max={MAX_STEP_SECONDS}
+                            value={breathing.pattern[key]}
+                            onChange={(value) => change({ pattern: { ...breathing.pattern, [key]: Math.min(Math.max(Number(value) || 0, min), MAX_STEP_SECONDS) } })}
+                        />
+                    ))
+                }
+                <NumberInput
+                    label={t("Cycles")}
+                    min={1}
+                    max={MAX_CYCLES}
+                    value={breathing.cycles}
+                    onChange={(value) => change({ cycles: Math.min(Math.max(Number(value) || 1, 1), MAX_CYCLES) })}
+                />
+            </SimpleGrid>
+            <Text fz={"xs"} c={"dimmed"}>
+                {t("One exercise takes seconds", { count: Math.round(getBreathingDurationMs(breathing.pattern, breathing.cycles) / 1000) })}
+            </Text>
+            <Switch
+                label={t("Walk to the middle of the screen")}
+                checked={breathing.moveToCenter}
+                onChange={(event) => change({ moveToCenter: event.currentTarget.checked })}
+            />
+            <Switch
+                label={t("Breathe together after working for long")}
+                description={t("Instead of only telling you to take a break, the pet leads a breathing exercise")}
+                checked={breathing.onLongSession}
+                onChange={(event) => change({ onLongSession: event.currentTarget.checked })}
+            />
+            <Text fz={"xs"} c={"dimmed"}>
+                {t("Breathing exercises today", { count: breathedToday.length })} · {t("Breathing exercises in total", { count: sessions.length })}
+            </Text>
+        </Stack>
+    )
+}
+
+export default memo(Breathing);
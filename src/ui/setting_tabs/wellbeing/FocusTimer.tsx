@@ -0,0 +1,140 @@
+import { Badge, Button, Group, NumberInput, Paper, SegmentedControl, SimpleGrid, Stack, Text } from "@mantine/core";
+import { IconPlayerPlay, IconPlayerStop } from "@tabler/icons-react";
+import { listen } from "@tauri-apps/api/event";
+import { memo, useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { FOCUS_PRESETS } from "../../../config/focus_timer";
+import { useSettingStore } from "../../../hooks/useSettingStore";
+import { focusTimerService } from "../../../services/focusTimerService";
+import { DispatchType, EventType, TRenderEventListener } from "../../../types/IEvents";
+import { FocusPhase, IFocusPlan, IFocusSession, IFocusTimerState } from "../../../types/IFocusTimer";
+import { ButtonVariant } from "../../../utils";
+import { formatRemaining, getRemainingMs, startFocusTimer, stopFocusTimer } from "../../../utils/focusTimer";
+import { handleSettingChange } from "../../../utils/handleSettingChange";
+import { getDateKey } from "../../../utils/usageStats";
+
+const CUSTOM_PRESET = "custom";
+const RECENT_SESSIONS = 8;
+
+const PLAN_FIELDS: { key: keyof IFocusPlan, label: string, max: number }[] = [
+    { key: "focusMinutes", label: "Focus minutes", max: 180 },
+    { key: "shortBreakMinutes", label: "Short break minutes", max: 60 },
+    { key: "longBreakMinutes", label: "Long break minutes", max: 120 },
+    { key: "sessionsBeforeLongBreak", label: "Sessions before a long break", max: 12 },
+];
+
+function FocusTimer() {
+    const { t } = useTranslation();
+    const { focusTimer, setFocusTimer } = useSettingStore();
+    const [sessions, setSessions] = useState<IFocusSession[]>([]);
+    const [now, setNow] = useState(Date.now());
+
+    const loadSessions = useCallback(async () => {
+        // the pet window writes the log, always read the latest file
+        focusTimerService.invalidate();
+        const saved = await focusTimerService.getSessions();
+        setSessions([...saved]);
+    }, []);
+
+    // the timer moves on in the pet window and can be started from the pet quick menu
+    useEffect(() => {
+        loadSessions();
+        const unlisten = listen<TRenderEventListener["payload"]>(EventType.PetOverlayToSettingWindow, (event) => {
+            if (event.payload.dispatchType !== DispatchType.ChangeFocusTimer) return;
+            setFocusTimer(event.payload.value as IFocusTimerState);
+            loadSessions();
+        });
+        const ticker = setInterval(() => setNow(Date.now()), 1000);
+
+        return () => {
+            unlisten.then((stop) => stop());
+            clearInterval(ticker);
+        };
+    }, []);
+
+    const isRunning = focusTimer.phase !== FocusPhase.Idle;
+    const presetId = FOCUS_PRESETS.find(({ plan }) => PLAN_FIELDS.every(({ key }) => plan[key] === focusTimer.plan[key]))?.id ?? CUSTOM_PRESET;
+    const changePlan = (plan: IFocusPlan) => handleSettingChange(DispatchType.ChangeFocusTimer, { ...focusTimer, plan });
+
+    const today = getDateKey(new Date(now));
+    const focusedToday = sessions.filter((session) => session.phase === FocusPhase.Focus && session.completed && getDateKey(new Date(session.endedAt)) === today);
+
+    return (
+        <Stack>
+            <div>
+                <Text>{t("Focus timer")}</Text>
+                <Text fz={"xs"} c={"dimmed"}>
+                    {t("Your pets sit quietly while you focus and call you for a break when the time is up. You can also start it by right clicking a pet")}
+                </Text>
+            </div>
+            <Paper withBorder p={"sm"}>
+                <Group justify={"space-between"}>
+                    <div>
+                        <Text fz={"xs"} c={"dimmed"}>{t(`focus phase ${focusTimer.phase}`)}</Text>
+                        <Text fz={"xl"} fw={500}>{formatRemaining(isRunning ? getRemainingMs(focusTimer, now) : focusTimer.plan.focusMinutes * 60 * 1000)}</Text>
+                        <Text fz={"xs"} c={"dimmed"}>{t("Focus sessions today", { count: focusedToday.length })}</Text>
+                    </div>
+                    {
+                        isRunning
+                            ? <Button variant={ButtonVariant} color={"gray"} leftSection={<IconPlayerStop size="1rem" />} onClick={() => handleSettingChange(DispatchType.ChangeFocusTimer, stopFocusTimer(focusTimer))}>
+                                {t("Stop focus timer")}
+                            </Button>
+                            : <Button variant={ButtonVariant} leftSection={<IconPlayerPlay size="1rem" />} onClick={() => handleSettingChange(DispatchType.ChangeFocusTimer, startFocusTimer(focusTimer.plan, Date.now()))}>
+                                {t("Start focus timer")}
+                            </Button>
+                    }
+                </Group>
+            </Paper>
+            <SegmentedControl
+                disabled={isRunning}
+                value={presetId}
+                onChange={(value) => {
+                    const preset = FOCUS_PRESETS.find(({ id }) => id === value);
+                    if (preset) changePlan({ ...preset.plan });
+                }}
+                data={[
+                    ...FOCUS_PRESETS.map(({ id }) => ({ label: t(`focus preset ${id}`), value: id })),
+                    { label: t("Custom"), value: CUSTOM_PRESET },
+                ]}
+            />
+            <SimpleGrid cols={4}>
+                {
+                    PLAN_FIELDS.map(({ key, label, max }) => (
+                        <NumberInput
+                            key={key}
+                            label={t(label)}
+                            min={1}
+                            max={max}
+                            disabled={isRunning}
+                            value={focusTimer.plan[key]}
+                            onChange={(value) => changePlan({ ...focusTimer.plan, [key]: Math.min(Math.max(Number(value) || 1, 1), max) })}
+                        />
+                    ))
+                }
+            </SimpleGrid>
+            {
+                sessions.length > 0 &&
+                <div>
+                    <Text fz={"sm"} mb={"xs"}>{t("Recent sessions")}</Text>
+                    {
+                        sessions.slice(-RECENT_SESSIONS).reverse().map((session) => (
+                            <Group key={session.startedAt} justify={"space-between"} py={4}>
+                                <Text fz={"sm"}>
+                                    {t(`focus phase ${session.phase}`)} · {t("count minutes", { count: Math.round((session.endedAt - session.startedAt) / (60 * 1000)) })}
+                                </Text>
+                                <Group gap={"xs"}>
+                                    <Text fz={"xs"} c={"dimmed"}>{new Date(session.startedAt).toLocaleString()}</Text>
+                                    <Badge variant={"light"} color={session.completed ? undefined : "gray"}>
+                                        {session.completed ? t("Done") : t("Stopped")}
+                                    </Badge>
+                                </Group>
+                            </Group>
+                        ))
+                    }
+                </div>
+            }
+        </Stack>
+    )
+}
+
+export default memo(FocusTimer);
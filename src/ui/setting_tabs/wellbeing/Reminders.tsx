@@ -0,0 +1,154 @@
+import { ActionIcon, Button, Chip, Group, Menu, NumberInput, Paper, SegmentedControl, Stack, Switch, TagsInput, Text, TextInput } from "@mantine/core";
+import { IconBellRinging, IconPlus, IconTrash } from "@tabler/icons-react";
+import { memo } from "react";
+import { useTranslation } from "react-i18next";
+import { DEFAULT_REMINDER_TEXTS } from "../../../config/reminders";
+import { useSettingStore } from "../../../hooks/useSettingStore";
+import { DispatchType } from "../../../types/IEvents";
+import { IReminder, ReminderSchedule, ReminderType } from "../../../types/IReminder";
+import { ButtonVariant } from "../../../utils";
+import { handleSettingChange } from "../../../utils/handleSettingChange";
+import { parseTimeOfDay } from "../../../utils/quietMode";
+import { createReminder } from "../../../utils/reminders";
+
+const DAYS_OF_WEEK = [1, 2, 3, 4, 5, 6, 0];
+
+interface IReminderItemProps {
+    reminder: IReminder,
+    onChange: (changes: Partial<IReminder>) => void,
+    onRemove: () => void,
+}
+
+function ReminderItem({ reminder, onChange, onRemove }: IReminderItemProps) {
+    const { t, i18n } = useTranslation();
+
+    // 2024-01-07 is a Sunday, so the day of month lines up with Date.getDay()
+    const getDayLabel = (day: number) => new Date(2024, 0, 7 + day).toLocaleDateString(i18n.language, { weekday: "short" });
+
+    return (
+        <Paper withBorder p={"sm"}>
+            <Group justify={"space-between"} mb={"xs"}>
+                <Switch
+                    label={t(`reminder type ${reminder.type}`)}
+                    checked={reminder.enabled}
+                    onChange={(event) => onChange({ enabled: event.currentTarget.checked })}
+                />
+                <ActionIcon variant={"subtle"} color={"red"} onClick={onRemove} aria-label={t("Remove")}>
+                    <IconTrash size="1rem" />
+                </ActionIcon>
+            </Group>
+            <Stack gap={"xs"}>
+                <Group align={"flex-end"}>
+                    <SegmentedControl
+                        size={"xs"}
+                        value={reminder.schedule}
+                        onChange={(value) => onChange({ schedule: value as ReminderSchedule })}
+                        data={[
+                            { label: t("Every few minutes"), value: ReminderSchedule.Interval },
+                            { label: t("At set times"), value: ReminderSchedule.Times },
+                        ]}
+                    />
+                    {
+                        reminder.schedule === ReminderSchedule.Interval
+                            ? <NumberInput
+                                size={"xs"}
+                                w={140}
+                                min={5}
+                                max={480}
+                                suffix={` ${t("min")}`}
+                                value={reminder.intervalMinutes}
+                                onChange={(value) => onChange({ intervalMinutes: Math.max(Number(value) || 5, 5) })}
+                            />
+                            : <TagsInput
+                                size={"xs"}
+                                style={{ flex: 1 }}
+                                placeholder={"HH:mm"}
+                                value={reminder.times}
+                                error={reminder.times.length === 0}
+                                onChange={(times) => onChange({ times: times.filter((time) => parseTimeOfDay(time) !== null) })}
+                            />
+                    }
+                </Group>
+                <Chip.Group
+                    multiple
+                    value={reminder.days.map(String)}
+                    onChange={(value) => onChange({ days: value.map(Number) })}
+                >
+                    <Group gap={4}>
+                        {DAYS_OF_WEEK.map((day) => <Chip key={day} size={"xs"} value={String(day)}>{getDayLabel(day)}</Chip>)}
+                    </Group>
+                </Chip.Group>
+                <TextInput
+                    size={"xs"}
+                    placeholder={DEFAULT_REMINDER_TEXTS[reminder.type]}
+                    value={reminder.text}
+                    onChange={(event) => onChange({ text: event.currentTarget.value })}
+                />
+                <Switch
+                    size={"xs"}
+                    label={t("Let the pet say it in its own words (uses the AI)")}
+                    checked={reminder.useAI}
+                    onChange={(event) => onChange({ useAI: event.currentTarget.checked })}
+                />
+            </Stack>
+        </Paper>
+    )
+}
+
+function Reminders() {
+    const { t } = useTranslation();
+    const { reminders } = useSettingStore();
+
+    const updateReminder = (id: string, changes: Partial<IReminder>) => {
+        handleSettingChange(DispatchType.ChangeReminders, reminders.map((reminder) => reminder.id === id ? { ...reminder, ...changes } : reminder));
+    };
+
+    const removeReminder = (id: string) => {
+        handleSettingChange(DispatchType.ChangeReminders, reminders.filter((reminder) => reminder.id !== id));
+    };
+
+    const addReminder = (type: ReminderType) => {
+        handleSettingChange(DispatchType.ChangeReminders, [...reminders, createReminder(type, crypto.randomUUID())]);
+    };
+
+    return (
+        <Stack>
+            <div>
+                <Text>{t("Reminders")}</Text>
+                <Text fz={"xs"} c={"dimmed"}>
+                    {t("Your pets remind you to take care of yourself while you are at the computer. Hover the bubble to mark it as done or snooze it")}
+                </Text>
+            </div>
+            {
+                reminders.map((reminder) => (
+                    <ReminderItem
+                        key={reminder.id}
+                        reminder={reminder}
+                        onChange={(changes) => updateReminder(reminder.id, changes)}
+                        onRemove={() => removeReminder(reminder.id)}
+                    />
+                ))
+            }
+            <Group>
+                <Menu>
+                    <Menu.Target>
+                        <Button variant={ButtonVariant} size={"xs"} leftSection={<IconPlus size="1rem" />}>
+                            {t("Add reminder")}
+                        </Button>
+                    </Menu.Target>
+                    <Menu.Dropdown>
+                        {
+                            Object.values(ReminderType).map((type) => (
+                                <Menu.Item key={type} leftSection={<IconBellRinging size="1rem" />} onClick={() => addReminder(type)}>
+                                    {t(`reminder type ${type}`)}
+                                </Menu.Item>
+                            ))
+                        }
+                    </Menu.Dropdown>
+                </Menu>
+            </Group>
+        </Stack>
+    )
+}
+
+export default memo(Reminders);
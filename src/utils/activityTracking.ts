@@ -0,0 +1,68 @@
+import { IActivityState } from "../types/IActivity";
+
+// no mouse or keyboard input for this long means the user stepped away
+export const IDLE_THRESHOLD_MS = 2 * 60 * 1000;
+// a shorter break would reset the session of a user who only stopped moving the mouse for a moment
+export const MIN_BREAK_RESET_MINUTES = IDLE_THRESHOLD_MS / (60 * 1000);
+
+/**
+ * how long a break has to be to start a new session, never shorter than the idle threshold
+ */
+export function getBreakMs(breakResetMinutes: number): number {
+    return Math.max(breakResetMinutes, MIN_BREAK_RESET_MINUTES) * 60 * 1000;
+}
+
+export function createActivityState(now: number): IActivityState {
+    return { sessionStart: now, idleMs: 0, lastActivity: now, focusStreakStart: now };
+}
+
+export function isUserActive(state: IActivityState, now: number): boolean {
+    return now - state.lastActivity < IDLE_THRESHOLD_MS;
+}
+
+/**
+ * new state after the user moved the mouse or typed, coming back from a break at least
+ * breakMs long starts a new session, a shorter idle period only pauses the session clock
+ */
+export function recordActivity(state: IActivityState, now: number, breakMs: number): IActivityState {
+    const idle = now - state.lastActivity;
+    if (idle >= breakMs) return createActivityState(now);
+    if (idle >= IDLE_THRESHOLD_MS) {
+        // the session may have been reset while the user was away, only the idle time inside it counts
+        const idleInSession = now - Math.max(state.lastActivity, state.sessionStart);
+        return { ...state, idleMs: state.idleMs + idleInSession, lastActivity: now, focusStreakStart: now };
+    }
+    return { ...state, lastActivity: now };
+}
+
+/**
+ * new state from the system idle time (how long ago the last input was, in any app), so typing
+ * in another app counts even though our windows never see the keys
+ */
+export function recordIdleTime(state: IActivityState, now: number, idleMs: number, breakMs: number): IActivityState {
+    const lastInput = now - idleMs;
+    if (lastInput <= state.lastActivity) return state;
+    return recordActivity(state, lastInput, breakMs);
+}
+
+/**
+ * working time in the session, the clock stops at the last input while the user is away
+ */
+export function getSessionMs(state: IActivityState, now: number): number {
+    const end = isUserActive(state, now) ? now : state.lastActivity;
+    return Math.max(end - state.sessionStart - state.idleMs, 0);
+}
+
+/**
+ * how long the user has been at the computer without stepping away, 0 while away
+ */
+export function getFocusStreakMs(state: IActivityState, now: number): number {
+    return isUserActive(state, now) ? now - state.focusStreakStart : 0;
+}
+
+/**
+ * start a new session without breaking the focus streak, e.g. after a rest reminder
+ */
+export function resetSession(state: IActivityState, now: number): IActivityState {
+    return { ...state, sessionStart: now, idleMs: 0 };
+}
@@ -0,0 +1,59 @@
+import { BREATHING_PRESETS } from "../config/breathing";
+import { BreathingStep, IBreathingPattern, IBreathingProgress } from "../types/IBreathing";
+
+const SECOND = 1000;
+
+/**
+ * the steps of one cycle in order, with their length in seconds
+ */
+export function getBreathingSteps(pattern: IBreathingPattern): { step: BreathingStep, seconds: number }[] {
+    return [
+        { step: BreathingStep.Inhale, seconds: pattern.inhaleSeconds },
+        { step: BreathingStep.Hold, seconds: pattern.holdSeconds },
+        { step: BreathingStep.Exhale, seconds: pattern.exhaleSeconds },
+        { step: BreathingStep.HoldEmpty, seconds: pattern.holdEmptySeconds },
+    ].filter(({ seconds }) => seconds > 0);
+}
+
+export function getBreathingDurationMs(pattern: IBreathingPattern, cycles: number): number {
+    const cycleSeconds = getBreathingSteps(pattern).reduce((total, { seconds }) => total + seconds, 0);
+    return cycleSeconds * Math.max(cycles, 1) * SECOND;
+}
+
+/**
+ * where the exercise is after `elapsedMs`, once every cycle is over it stays on the end of the last step
+ */
+export function getBreathingProgress(pattern: IBreathingPattern, cycles: number, elapsedMs: number): IBreathingProgress {
+    const steps = getBreathingSteps(pattern);
+    const duration = getBreathingDurationMs(pattern, cycles);
+    const isDone = elapsedMs >= duration;
+    // just before the end, so a finished exercise shows its last step
+    let left = Math.max(Math.min(elapsedMs, duration - 1), 0);
+
+    for (let cycle = 1; cycle <= Math.max(cycles, 1); cycle++) {
+        for (const { step, seconds } of steps) {
+            const stepMs = seconds * SECOND;
+            if (left < stepMs) {
+                return {
+                    step,
+                    secondsLeft: Math.ceil((stepMs - left) / SECOND),
+                    stepProgress: isDone ? 1 : left / stepMs,
+                    cycle,
+                    isDone,
+                };
+            }
+            left -= stepMs;
+        }
+    }
+
+    // a pattern without any step
+    return { step: BreathingStep.Inhale, secondsLeft: 0, stepProgress: 1, cycle: 1, isDone: true };
+}
+
+/**
+ * id of the preset with this pattern, null for a custom one
+ */
+export function getBreathingPresetId(pattern: IBreathingPattern): string | null {
+    const keys = Object.keys(pattern) as (keyof IBreathingPattern)[];
+    return BREATHING_PRESETS.find((preset) => keys.every((key) => preset.pattern[key] === pattern[key]))?.id ?? null;
+}
@@ -0,0 +1,27 @@
+import { CRISIS_PHRASES, CRISIS_RESOURCES, INTERNATIONAL_CRISIS_RESOURCES } from "../config/crisis_support";
+import { ICrisisResources, ICrisisSupport } from "../types/ICrisisSupport";
+import { findPhrase } from "./messageSimilarity";
+
+/**
+ * support lines for the country, the international ones when nothing is bundled for it
+ */
+export function getCrisisResources(country: string): ICrisisResources {
+    const code = country.trim().toUpperCase();
+    return CRISIS_RESOURCES.find((resources) => resources.country === code) ?? INTERNATIONAL_CRISIS_RESOURCES;
+}
+
+/**
+ * the bundled phrases and the ones the user added, blank ones are ignored
+ */
+export function getCrisisPhrases(userPhrases: string[]): string[] {
+    return [...CRISIS_PHRASES, ...userPhrases.map((phrase) => phrase.trim()).filter(Boolean)];
+}
+
+/**
+ * what to show instead of a normal reply, null when the text has no sign of a crisis
+ */
+export function detectCrisis(text: string, country: string, phrases: string[] = CRISIS_PHRASES): ICrisisSupport | null {
+    const phrase = findPhrase(text, phrases);
+    if (!phrase) return null;
+    return { phrase, resources: getCrisisResources(country) };
+}
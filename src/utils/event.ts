@@ -1,10 +1,15 @@
 import { WebviewWindow } from '@tauri-apps/api/window'
 import { DispatchType, EventType } from '../types/IEvents';
 import { ISpriteConfig } from '../types/ISpriteConfig';
+import { IUserProfile } from '../types/IUserProfile';
+import { IQuietHoursRule } from '../types/IQuietMode';
+import { IFocusTimerState } from '../types/IFocusTimer';
+import { IReminder } from '../types/IReminder';
+import { IBreathingSettings } from '../types/IBreathing';
 
 interface IEmitReRenderPetsEvent {
     dispatchType: DispatchType;
-    newValue?: boolean | string | ISpriteConfig | number;
+    newValue?: boolean | string | ISpriteConfig | number | IUserProfile | IQuietHoursRule[] | IFocusTimerState | IReminder[] | IBreathingSettings | string[];
 }
 
 export const emitUpdatePetsEvent = async ({dispatchType, newValue}: IEmitReRenderPetsEvent) => {
@@ -18,4 +23,17 @@ export const emitUpdatePetsEvent = async ({dispatchType, newValue}: IEmitReRende
             value: newValue
         });
     }
+};
+
+export const emitUpdateSettingWindowEvent = async ({dispatchType, newValue}: IEmitReRenderPetsEvent) => {
+    // the setting window may be closed, then it will read the new value when it opens
+    const settingWindow = WebviewWindow.getByLabel('setting');
+
+    if (settingWindow) {
+        await settingWindow.emit(EventType.PetOverlayToSettingWindow, {
+            message: 'Hey, a setting changed in the overlay!',
+            dispatchType: dispatchType,
+            value: newValue
+        });
+    }
 };
\ No newline at end of file
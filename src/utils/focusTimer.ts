@@ -0,0 +1,102 @@
+import { FocusPhase, IFocusPlan, IFocusSession, IFocusTimerState } from "../types/IFocusTimer";
+
+const MINUTE = 60 * 1000;
+
+export function createFocusTimer(plan: IFocusPlan): IFocusTimerState {
+    return { plan, phase: FocusPhase.Idle, phaseStartedAt: 0, phaseEndsAt: 0, completedSessions: 0 };
+}
+
+export function getPhaseMinutes(plan: IFocusPlan, phase: FocusPhase): number {
+    switch (phase) {
+        case FocusPhase.Focus:
+            return plan.focusMinutes;
+        case FocusPhase.ShortBreak:
+            return plan.shortBreakMinutes;
+        case FocusPhase.LongBreak:
+            return plan.longBreakMinutes;
+        default:
+            return 0;
+    }
+}
+
+function enterPhase(state: IFocusTimerState, phase: FocusPhase, startedAt: number): IFocusTimerState {
+    return { ...state, phase, phaseStartedAt: startedAt, phaseEndsAt: startedAt + getPhaseMinutes(state.plan, phase) * MINUTE };
+}
+
+/**
+ * a new run of the timer with the given plan, starting with a focus session
+ */
+export function startFocusTimer(plan: IFocusPlan, now: number): IFocusTimerState {
+    return enterPhase(createFocusTimer(plan), FocusPhase.Focus, now);
+}
+
+export function stopFocusTimer(state: IFocusTimerState): IFocusTimerState {
+    return createFocusTimer(state.plan);
+}
+
+/**
+ * the phase after the current one, every `sessionsBeforeLongBreak` focus sessions are followed by a long break
+ */
+export function getNextPhase(state: IFocusTimerState): FocusPhase {
+    if (state.phase === FocusPhase.Idle) return FocusPhase.Idle;
+    if (state.phase !== FocusPhase.Focus) return FocusPhase.Focus;
+
+    const sessions = state.completedSessions + 1;
+    return sessions % Math.max(state.plan.sessionsBeforeLongBreak, 1) === 0 ? FocusPhase.LongBreak : FocusPhase.ShortBreak;
+}
+
+/**
+ * move on to the next phase once the current one is over, the next phase starts when the previous one
+ * ended so the timer stays on schedule. If the next phase is over too, nobody was there to follow the
+ * timer (e.g. the app was closed), so it stops instead of making up sessions
+ * @returns the new state and the phase that just ended, null when nothing changed
+ */
+export function advanceFocusTimer(state: IFocusTimerState, now: number): { state: IFocusTimerState, session: IFocusSession | null } {
+    if (state.phase === FocusPhase.Idle || now < state.phaseEndsAt) return { state, session: null };
+
+    const session: IFocusSession = {
+        phase: state.phase,
+        startedAt: state.phaseStartedAt,
+        endedAt: state.phaseEndsAt,
+        plannedMinutes: getPhaseMinutes(state.plan, state.phase),
+        completed: true,
+    };
+    const completedSessions = state.completedSessions + (state.phase === FocusPhase.Focus ? 1 : 0);
+    const next = enterPhase({ ...state, completedSessions }, getNextPhase(state), state.phaseEndsAt);
+
+    return { state: now < next.phaseEndsAt ? next : stopFocusTimer(next), session };
+}
+
+/**
+ * the phase that was cut short when the timer is stopped, null if the timer was not running
+ */
+export function getInterruptedSession(state: IFocusTimerState, now: number): IFocusSession | null {
+    if (state.phase === FocusPhase.Idle || now >= state.phaseEndsAt) return null;
+
+    return {
+        phase: state.phase,
+        startedAt: state.phaseStartedAt,
+        endedAt: now,
+        plannedMinutes: getPhaseMinutes(state.plan, state.phase),
+        completed: false,
+    };
+}
+
+export function getRemainingMs(state: IFocusTimerState, now: number): number {
+    if (state.phase === FocusPhase.Idle) return 0;
+    return Math.max(state.phaseEndsAt - now, 0);
+}
+
+export function isFocusing(state: IFocusTimerState, now: number): boolean {
+    return state.phase === FocusPhase.Focus && now < state.phaseEndsAt;
+}
+
+/**
+ * remaining time as mm:ss, like a kitchen timer
+ */
+export function formatRemaining(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
@@ -1,16 +1,23 @@
 import { setSettings, toggleAutoStartUp } from "./settings";
 import { ColorScheme } from "../types/ISetting";
 import { useSettingStore } from "../hooks/useSettingStore";
-import { emitUpdatePetsEvent } from "./event";
+import { emitUpdatePetsEvent, emitUpdateSettingWindowEvent } from "./event";
 import i18next from "i18next";
 import { info } from "tauri-plugin-log-api";
 import { DispatchType } from "../types/IEvents";
 import { ISpriteConfig } from "../types/ISpriteConfig";
+import { LLMProviderType } from "../types/ILLM";
+import { IUserProfile } from "../types/IUserProfile";
+import { IQuietHoursRule, QuietMessagePolicy } from "../types/IQuietMode";
+import { IFocusTimerState } from "../types/IFocusTimer";
+import { IReminder } from "../types/IReminder";
+import { IBreathingSettings } from "../types/IBreathing";
+import { WeatherProviderType, WeatherUnits } from "../types/IWeather";
 
 interface IHandleSettingChange {
     (
         dispatchType: DispatchType,
-        newValue: string | boolean | ISpriteConfig | number,
+        newValue: string | boolean | ISpriteConfig | number | IUserProfile | IQuietHoursRule[] | IFocusTimerState | IReminder[] | IBreathingSettings | string[],
     ): void;
 }
 export const handleSettingChange: IHandleSettingChange = (
@@ -27,6 +34,24 @@ export const handleSettingChange: IHandleSettingChange = (
         setPetScale,
         setAllowPetClimbing,
         setCity,
+        setWeatherCoordinates,
+        setWeatherProvider,
+        setWeatherUnits,
+        setAIProvider,
+        setAIBaseUrl,
+        setAIModel,
+        setAIMessagesPerHour,
+        setBreakResetMinutes,
+        setQuietHours,
+        setQuietMessagePolicy,
+        setDoNotDisturbUntil,
+        setPresentationMode,
+        setFocusTimer,
+        setReminders,
+        setBreathing,
+        setMemoryTokenBudget,
+        setUserProfile,
+        setCrisisPhrases,
     } = useSettingStore.getState();
 
     info(`Change setting, type: ${dispatchType}, value: ${newValue}`);
@@ -85,6 +110,125 @@ export const handleSettingChange: IHandleSettingChange = (
         case DispatchType.ChangeCity:
             setSettings({ setKey: "city", newValue: newValue });
             setCity(newValue as string);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeWeatherCoordinates:
+            setSettings({ setKey: "weatherCoordinates", newValue: newValue });
+            setWeatherCoordinates(newValue as string);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeWeatherProvider:
+            setSettings({ setKey: "weatherProvider", newValue: newValue });
+            setWeatherProvider(newValue as WeatherProviderType);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeWeatherUnits:
+            setSettings({ setKey: "weatherUnits", newValue: newValue });
+            setWeatherUnits(newValue as WeatherUnits);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeAIProvider:
+            setSettings({ setKey: "aiProvider", newValue: newValue });
+            setAIProvider(newValue as LLMProviderType);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeAIBaseUrl:
+            setSettings({ setKey: "aiBaseUrl", newValue: newValue });
+            setAIBaseUrl(newValue as string);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeAIModel:
+            setSettings({ setKey: "aiModel", newValue: newValue });
+            setAIModel(newValue as string);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeAIMessagesPerHour:
+            setSettings({ setKey: "aiMessagesPerHour", newValue: newValue });
+            setAIMessagesPerHour(newValue as number);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeBreakResetMinutes:
+            setSettings({ setKey: "breakResetMinutes", newValue: newValue });
+            setBreakResetMinutes(newValue as number);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeQuietHours:
+            setSettings({ setKey: "quietHours", newValue: newValue });
+            setQuietHours(newValue as IQuietHoursRule[]);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeQuietMessagePolicy:
+            setSettings({ setKey: "quietMessagePolicy", newValue: newValue });
+            setQuietMessagePolicy(newValue as QuietMessagePolicy);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        // these two can also be changed from the pet quick menu, so both windows are told
+        case DispatchType.ChangeDoNotDisturbUntil:
+            setSettings({ setKey: "doNotDisturbUntil", newValue: newValue });
+            setDoNotDisturbUntil(newValue as number);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            emitUpdateSettingWindowEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.SwitchPresentationMode:
+            setSettings({ setKey: "presentationMode", newValue: newValue });
+            setPresentationMode(newValue as boolean);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            emitUpdateSettingWindowEvent({ dispatchType, newValue });
+            return;
+        // started from the quick menu or the settings, and moved on to the next phase by the pet window
+        case DispatchType.ChangeFocusTimer:
+            setSettings({ setKey: "focusTimer", newValue: newValue });
+            setFocusTimer(newValue as IFocusTimerState);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            emitUpdateSettingWindowEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeReminders:
+            setSettings({ setKey: "reminders", newValue: newValue });
+            setReminders(newValue as IReminder[]);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeBreathing:
+            setSettings({ setKey: "breathing", newValue: newValue });
+            setBreathing(newValue as IBreathingSettings);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.StartBreathing:
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.UpdateCredentials:
+            // credentials are saved by credentialService, the overlay only needs to reload them
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeMemoryTokenBudget:
+            setSettings({ setKey: "memoryTokenBudget", newValue: newValue });
+            setMemoryTokenBudget(newValue as number);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeUserProfile:
+            setSettings({ setKey: "userProfile", newValue: newValue });
+            setUserProfile(newValue as IUserProfile);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.ChangeCrisisPhrases:
+            setSettings({ setKey: "crisisPhrases", newValue: newValue });
+            setCrisisPhrases(newValue as string[]);
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.UpdatePromptTemplates:
+            // templates are saved by promptTemplateService, the overlay only needs to reload them
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.UpdatePreferences:
+            // ratings are saved by preferenceService, the overlay only needs to reload them
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.UpdatePetConfig:
+            // persona and AI settings are saved in pets.json by the editor, the overlay only needs the new ones
+            emitUpdatePetsEvent({ dispatchType, newValue });
+            return;
+        case DispatchType.UpdateMemory:
+            // memory is saved by memoryService, the overlay only needs to reload it
+            emitUpdatePetsEvent({ dispatchType, newValue });
             return;
         default:
             return;
@@ -0,0 +1,78 @@
+// two messages sharing this much of their words (Jaccard index) count as the same message
+export const SIMILARITY_THRESHOLD = 0.6;
+
+// scripts written without spaces between words, their words are compared by pairs of characters
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+/**
+ * lower case words without accents, punctuation or emoji, so "Nghỉ ngơi nhé! 💕" and "nghi ngoi nhe" match.
+ * Letters of every script are kept, "休息一下吧!" becomes "休息一下吧"
+ */
+export function normalizeMessage(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/đ/g, "d")
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * FNV-1a hash of the normalized text, stored instead of comparing every message word by word.
+ * A message without any letter (only emoji) is hashed as written
+ */
+export function hashMessage(text: string): string {
+    const normalized = normalizeMessage(text) || text.trim();
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+        hash ^= normalized.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+/**
+ * words of the normalized text, text in scripts without spaces is cut in overlapping pairs of characters
+ * ("休息一下" gives "休息", "息一", "一下")
+ */
+function getTokens(text: string): Set<string> {
+    const tokens: Set<string> = new Set();
+    for (const word of normalizeMessage(text).split(" ").filter(Boolean)) {
+        const chars = Array.from(word);
+        if (!UNSPACED_SCRIPT.test(word) || chars.length < 3) {
+            tokens.add(word);
+            continue;
+        }
+        for (let i = 0; i < chars.length - 1; i++) tokens.add(chars[i] + chars[i + 1]);
+    }
+    return tokens;
+}
+
+/**
+ * share of words the two messages have in common, from 0 (nothing) to 1 (the same words)
+ */
+export function tokenOverlap(a: string, b: string): number {
+    const tokensA = getTokens(a);
+    const tokensB = getTokens(b);
+    if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+    let shared = 0;
+    tokensA.forEach((token) => {
+        if (tokensB.has(token)) shared++;
+    });
+    return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * first phrase found in the text, latin phrases match whole words without accents or case,
+ * phrases in other scripts (chinese, khmer) are matched as written
+ */
+export function findPhrase(text: string, phrases: string[]): string | undefined {
+    const normalized = ` ${normalizeMessage(text)} `;
+    const lowerCase = text.toLowerCase();
+    return phrases.find((phrase) => /[^\u0000-\u024f\u1e00-\u1eff\s]/.test(phrase)
+        ? lowerCase.includes(phrase.toLowerCase())
+        : normalized.includes(` ${normalizeMessage(phrase)} `));
+}
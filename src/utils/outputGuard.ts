@@ -0,0 +1,142 @@
+import { BLOCKED_PHRASES } from "../config/blocked_phrases";
+import { IOutputGuardOptions, OutputFix, OutputGuardResult, OutputRejection } from "../types/IOutputGuard";
+import { findPhrase } from "./messageSimilarity";
+
+type GuardStepResult = { text: string, fix?: OutputFix } | { reason: OutputRejection, detail?: string };
+type GuardStep = (text: string, options: IOutputGuardOptions) => GuardStepResult;
+
+const CJK_PATTERN = /[\u3400-\u9fff]/;
+const KHMER_PATTERN = /[\u1780-\u17ff]/;
+// letters only Vietnamese uses, so a French "café" in an English answer is not mistaken for Vietnamese
+const VIETNAMESE_ONLY_LETTERS = /[ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/giu;
+// an emoji with its variation selector, skin tone and zero width joined parts
+const EMOJI_PATTERN = /[\u{1F000}-\u{1FAFF}\u{2600}-\u{27BF}\u{2B50}\u{2B55}](?:\u{FE0F}|[\u{1F3FB}-\u{1F3FF}]|\u{200D}[\u{1F000}-\u{1FAFF}\u{2600}-\u{27BF}])*/gu;
+const SENTENCE_ENDS = [".", "!", "?", "…", "。", "！", "？"];
+// a vietnamese answer this long without a single accent is in another language
+const MIN_WORDS_FOR_LANGUAGE_CHECK = 5;
+
+function isWrittenWithoutSpaces(language: string): boolean {
+    return language.startsWith("zh") || language === "kh";
+}
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * the bubble shows plain text, so **bold**, `code`, headings, list bullets and links lose their markup
+ */
+const stripMarkdown: GuardStep = (text) => {
+    const stripped = collapseWhitespace(text
+        .replace(/```[a-z]*|`/gi, "")
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/^\s*#{1,6}\s+/gm, "")
+        .replace(/^\s*(?:[-*+•]|\d+\.)\s+/gm, "")
+        .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+        .replace(/(^|[\s(])[*_]([^*_\s][^*_]*?)[*_](?=[\s).,!?]|$)/g, "$1$2")
+        .replace(/\*\*|__/g, ""));
+    // the bubble is a single paragraph, so line breaks go too
+    return stripped === collapseWhitespace(text) ? { text: stripped } : { text: stripped, fix: OutputFix.Markdown };
+};
+
+/**
+ * AI often wraps the whole message in quotes, apostrophes inside English words are kept
+ */
+const stripQuotes: GuardStep = (text) => {
+    const stripped = collapseWhitespace(text
+        .replace(/["“”«»„「」『』]/g, "")
+        .replace(/^['‘’]+|['‘’]+$/g, ""));
+    return stripped === text ? { text } : { text: stripped, fix: OutputFix.Quotes };
+};
+
+const limitEmoji: GuardStep = (text, { maxEmoji }) => {
+    let count = 0;
+    const limited = text.replace(EMOJI_PATTERN, (emoji) => ++count <= maxEmoji ? emoji : "");
+    if (count <= maxEmoji) return { text };
+    return { text: collapseWhitespace(limited.replace(/\s+([.,!?…])/g, "$1")), fix: OutputFix.Emoji };
+};
+
+const checkNotEmpty: GuardStep = (text) => {
+    return /[\p{L}\p{N}]/u.test(text) ? { text } : { reason: OutputRejection.Empty };
+};
+
+const checkBlockedPhrases: GuardStep = (text) => {
+    const phrase = findPhrase(text, BLOCKED_PHRASES);
+    return phrase ? { reason: OutputRejection.BlockedPhrase, detail: phrase } : { text };
+};
+
+/**
+ * rough script check, enough to catch an answer in English when the persona speaks Vietnamese
+ */
+const checkLanguage: GuardStep = (text, { language }) => {
+    const normalized = text.normalize("NFC");
+    const wordCount = normalized.split(" ").filter((word) => /\p{L}/u.test(word)).length;
+    let matches = true;
+
+    if (language === "vi") {
+        const hasAccents = /[\u0300-\u036f]/.test(normalized.normalize("NFD")) || /đ/i.test(normalized);
+        matches = !CJK_PATTERN.test(normalized) && !KHMER_PATTERN.test(normalized)
+            && (hasAccents || wordCount < MIN_WORDS_FOR_LANGUAGE_CHECK);
+    } else if (language === "en") {
+        matches = !CJK_PATTERN.test(normalized) && !KHMER_PATTERN.test(normalized)
+            && (normalized.match(VIETNAMESE_ONLY_LETTERS)?.length ?? 0) < 2;
+    } else if (language.startsWith("zh")) {
+        matches = CJK_PATTERN.test(normalized);
+    } else if (language === "kh") {
+        matches = KHMER_PATTERN.test(normalized);
+    }
+
+    return matches ? { text } : { reason: OutputRejection.WrongLanguage, detail: language };
+};
+
+/**
+ * cut an answer that is too long, at the end of a sentence when that keeps at least half of it
+ */
+const trimLength: GuardStep = (text, { language, maxWords }) => {
+    const withoutSpaces = isWrittenWithoutSpaces(language);
+    const units = withoutSpaces ? Array.from(text) : text.split(" ");
+    const limit = withoutSpaces ? maxWords * 2 : maxWords;
+    if (units.length <= limit) return { text };
+
+    const cut = units.slice(0, limit).join(withoutSpaces ? "" : " ");
+    const sentenceEnd = Math.max(...SENTENCE_ENDS.map((end) => cut.lastIndexOf(end)));
+    const trimmed = sentenceEnd >= cut.length / 2
+        ? cut.slice(0, sentenceEnd + 1)
+        : `${cut.replace(/[\s,;:.!?，。！？、-]+$/, "")}…`;
+    return { text: trimmed.trim(), fix: OutputFix.Length };
+};
+
+// cleanups first, then the checks that throw an answer away, trimming last so a blocked phrase cannot be cut off
+const GUARD_STEPS: GuardStep[] = [stripMarkdown, stripQuotes, limitEmoji, checkNotEmpty, checkBlockedPhrases, checkLanguage, trimLength];
+
+// a streamed answer is not finished yet, it may still be empty, in the wrong language or too long
+const PARTIAL_GUARD_STEPS: GuardStep[] = [stripMarkdown, stripQuotes, limitEmoji, checkBlockedPhrases];
+
+function runGuardSteps(steps: GuardStep[], text: string, options: IOutputGuardOptions): OutputGuardResult {
+    let current = text.trim();
+    const fixes: OutputFix[] = [];
+
+    for (const step of steps) {
+        const result = step(current, options);
+        if ("reason" in result) return { accepted: false, reason: result.reason, detail: result.detail };
+        if (result.fix) fixes.push(result.fix);
+        current = result.text;
+    }
+
+    return { accepted: true, text: current, fixes };
+}
+
+/**
+ * clean an AI answer before it is shown, or reject it when it cannot be fixed
+ */
+export function guardOutput(text: string, options: IOutputGuardOptions): OutputGuardResult {
+    return runGuardSteps(GUARD_STEPS, text, options);
+}
+
+/**
+ * clean the part of an answer streamed so far before it is shown in the bubble,
+ * rejected when it already contains a blocked phrase
+ */
+export function guardPartialOutput(text: string, options: IOutputGuardOptions): OutputGuardResult {
+    return runGuardSteps(PARTIAL_GUARD_STEPS, text, options);
+}
@@ -0,0 +1,64 @@
+import { MessageCategory } from "../types/IPersona";
+import { ICategoryWeights, MessageReaction } from "../types/IPreference";
+
+export const DEFAULT_WEIGHT = 1;
+const MIN_WEIGHT = 0.2;
+const MAX_WEIGHT = 5;
+
+// each 👍 makes a category 25% more likely, each 👎 25% less likely
+const REACTION_FACTORS: Record<MessageReaction, number> = {
+    [MessageReaction.Like]: 1.25,
+    [MessageReaction.Dislike]: 0.75,
+};
+
+export function createDefaultWeights(): ICategoryWeights {
+    const weights = {} as ICategoryWeights;
+    Object.values(MessageCategory).forEach((category) => {
+        weights[category] = DEFAULT_WEIGHT;
+    });
+    return weights;
+}
+
+/**
+ * weight after the user changes their reaction, the previous reaction (if any) is undone first.
+ * The stored weight is left unclamped so undoing a reaction always gives back the weight before it
+ */
+export function updateWeight(weight: number, previousReaction: MessageReaction | undefined, reaction: MessageReaction | undefined): number {
+    let newWeight = weight;
+    if (previousReaction) newWeight /= REACTION_FACTORS[previousReaction];
+    if (reaction) newWeight *= REACTION_FACTORS[reaction];
+    return newWeight;
+}
+
+/**
+ * the weight a category is picked with, kept within its limits
+ */
+export function getEffectiveWeight(weight: number | undefined): number {
+    return Math.min(Math.max(weight ?? DEFAULT_WEIGHT, MIN_WEIGHT), MAX_WEIGHT);
+}
+
+/**
+ * share of each allowed category, the shares add up to 1
+ */
+export function getCategoryDistribution(weights: ICategoryWeights, categories: MessageCategory[]): Partial<Record<MessageCategory, number>> {
+    const total = categories.reduce((sum, category) => sum + getEffectiveWeight(weights[category]), 0);
+    const distribution: Partial<Record<MessageCategory, number>> = {};
+    categories.forEach((category) => {
+        distribution[category] = getEffectiveWeight(weights[category]) / total;
+    });
+    return distribution;
+}
+
+/**
+ * pick the category the random number in [0, 1) falls into
+ */
+export function pickWeightedCategory(distribution: Partial<Record<MessageCategory, number>>, random: number): MessageCategory {
+    const entries = Object.entries(distribution) as [MessageCategory, number][];
+    let cumulative = 0;
+    for (const [category, probability] of entries) {
+        cumulative += probability;
+        if (random < cumulative) return category;
+    }
+    // rounding can leave the shares a little below 1
+    return entries[entries.length - 1][0];
+}
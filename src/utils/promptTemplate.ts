@@ -0,0 +1,87 @@
+import { IPromptContext, IPromptTemplateError, PromptTemplateErrorType } from "../types/IPromptTemplate";
+
+export const PROMPT_TEMPLATE_VARIABLES: (keyof IPromptContext)[] = [
+    "timeOfDay",
+    "weather",
+    "city",
+    "minutesSinceBreak",
+    "focusStreakMinutes",
+    "petName",
+    "userName",
+];
+
+export const MAX_TEMPLATE_LENGTH = 2000;
+// user typed values such as the city are cut so they can't carry a whole instruction
+export const MAX_VARIABLE_LENGTH = 80;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const SECTION_PATTERN = /\{\{#\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*(\w*)\s*\}\}/g;
+
+/**
+ * make a value safe to put inside a prompt: single line, no template or quote characters, limited length
+ */
+export const escapeTemplateValue = (value: string | number, maxLength = MAX_VARIABLE_LENGTH): string => {
+    return String(value)
+        .replace(/[\u0000-\u001f\u007f]+/g, " ")
+        .replace(/[{}<>`"\\]/g, "")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, maxLength);
+}
+
+/**
+ * check a template before it is saved or used, an empty array means the template is valid
+ */
+export const validateTemplate = (template: string): IPromptTemplateError[] => {
+    const errors: IPromptTemplateError[] = [];
+
+    if (!template.trim()) return [{ type: PromptTemplateErrorType.Empty }];
+    if (template.length > MAX_TEMPLATE_LENGTH) errors.push({ type: PromptTemplateErrorType.TooLong });
+
+    const openSections: string[] = [];
+    for (const [, marker, name] of Array.from(template.matchAll(TAG_PATTERN))) {
+        if (!PROMPT_TEMPLATE_VARIABLES.includes(name as keyof IPromptContext)) {
+            errors.push({ type: PromptTemplateErrorType.UnknownVariable, variable: name });
+            continue;
+        }
+
+        if (marker === "#") {
+            openSections.push(name);
+        } else if (marker === "/") {
+            if (openSections[openSections.length - 1] === name) {
+                openSections.pop();
+            } else {
+                errors.push({ type: PromptTemplateErrorType.UnexpectedSectionEnd, variable: name });
+            }
+        }
+    }
+    openSections.forEach((name) => errors.push({ type: PromptTemplateErrorType.UnclosedSection, variable: name }));
+
+    // whatever braces are left after removing the valid tags were not closed properly
+    if (/\{\{|\}\}/.test(template.replace(TAG_PATTERN, ""))) {
+        errors.push({ type: PromptTemplateErrorType.UnclosedBraces });
+    }
+
+    return errors;
+}
+
+/**
+ * render a template, {{name}} is replaced by the escaped value and
+ * {{#name}}...{{/name}} is only kept when the value is not empty
+ */
+export const renderTemplate = (template: string, context: IPromptContext): string => {
+    const values: Record<string, string> = {};
+    PROMPT_TEMPLATE_VARIABLES.forEach((name) => {
+        values[name] = escapeTemplateValue(context[name] ?? "");
+    });
+
+    const renderSections = (text: string): string => text.replace(
+        SECTION_PATTERN,
+        (_, name: string, content: string) => values[name] ? renderSections(content) : "",
+    );
+    const withSections = renderSections(template);
+
+    // single pass so a value can never be expanded again
+    return withSections.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? "").trim();
+}
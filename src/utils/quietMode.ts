@@ -0,0 +1,58 @@
+import { IQuietHoursRule, IQuietModeState, QuietReason } from "../types/IQuietMode";
+import { isFocusing } from "./focusTimer";
+
+const MINUTES_PER_DAY = 24 * 60;
+// snooze choices shown in the settings and in the pet quick menu
+export const SNOOZE_DURATIONS_MINUTES = [30, 60, 120];
+
+/**
+ * "HH:mm" to minutes since midnight, null if the text is not a valid time
+ */
+export function parseTimeOfDay(time: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+
+    return hours * 60 + minutes;
+}
+
+/**
+ * whether the date falls inside one of the rules, a rule like 22:00 - 07:00 on Monday
+ * covers Monday night and the early morning of Tuesday
+ */
+export function isInQuietHours(rules: IQuietHoursRule[], date: Date): boolean {
+    const day = date.getDay();
+    const previousDay = (day + 6) % 7;
+    const minutes = date.getHours() * 60 + date.getMinutes();
+
+    return rules.some((rule) => {
+        const start = parseTimeOfDay(rule.start);
+        const end = parseTimeOfDay(rule.end);
+        if (start === null || end === null) return false;
+
+        // same start and end means the whole day
+        if (start === end) return rule.days.includes(day);
+
+        if (start < end) {
+            return rule.days.includes(day) && minutes >= start && minutes < end;
+        }
+
+        // overnight rule
+        return (rule.days.includes(day) && minutes >= start && minutes < MINUTES_PER_DAY) ||
+            (rule.days.includes(previousDay) && minutes < end);
+    });
+}
+
+/**
+ * why the pets have to stay quiet right now, null when they are free to talk
+ */
+export function getQuietReason(state: IQuietModeState, date: Date): QuietReason | null {
+    if (state.presentationMode) return QuietReason.Presentation;
+    if (state.doNotDisturbUntil > date.getTime()) return QuietReason.DoNotDisturb;
+    if (isFocusing(state.focusTimer, date.getTime())) return QuietReason.Focus;
+    if (isInQuietHours(state.quietHours, date)) return QuietReason.QuietHours;
+    return null;
+}
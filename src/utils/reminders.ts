@@ -0,0 +1,48 @@
+import { DEFAULT_REMINDER_TEXTS } from "../config/reminders";
+import { IReminder, IReminderState, ReminderSchedule, ReminderType } from "../types/IReminder";
+import { parseTimeOfDay } from "./quietMode";
+
+const MINUTE = 60 * 1000;
+// a reminder at a fixed time is still shown this long after its time, e.g. when the user comes back
+// from lunch, but not when the app is opened in the afternoon
+export const REMINDER_GRACE_MINUTES = 30;
+
+export function createReminder(type: ReminderType, id: string): IReminder {
+    return {
+        id,
+        type,
+        enabled: true,
+        schedule: ReminderSchedule.Interval,
+        intervalMinutes: 60,
+        times: ["09:00"],
+        days: [1, 2, 3, 4, 5],
+        text: "",
+        useAI: false,
+    };
+}
+
+export function getReminderText(reminder: IReminder): string {
+    return reminder.text.trim() || DEFAULT_REMINDER_TEXTS[reminder.type];
+}
+
+/**
+ * whether the reminder should be shown now: a snoozed reminder comes back when the snooze is over,
+ * otherwise it waits for its interval since it was last shown or for one of its times today
+ */
+export function isReminderDue(reminder: IReminder, state: IReminderState, now: Date): boolean {
+    if (!reminder.enabled || !reminder.days.includes(now.getDay())) return false;
+    if (state.snoozedUntil > 0) return now.getTime() >= state.snoozedUntil;
+
+    if (reminder.schedule === ReminderSchedule.Interval) {
+        return now.getTime() - state.lastShownAt >= Math.max(reminder.intervalMinutes, 1) * MINUTE;
+    }
+
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    return reminder.times.some((time) => {
+        const at = parseTimeOfDay(time);
+        if (at === null || minutes < at || minutes - at >= REMINDER_GRACE_MINUTES) return false;
+
+        const scheduledAt = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, at).getTime();
+        return state.lastShownAt < scheduledAt;
+    });
+}
@@ -59,14 +59,13 @@ export function setSettings({ configName = "settings.json", key = "app", setKey,
 export interface ISetConfig extends IGetAppSetting {
     newConfig: unknown,
 }
-export function setConfig({ configName = "settings.json", key = "app", newConfig }: ISetConfig) {
-    (async () => {
-        const configPath: string = await invoke("combine_config_path", { config_name: configName });
-        // if not exist, create new file, so we don't need to check if file exists
-        const store = new Store(configPath);
-        await store.set(key, newConfig);
-        await store.save();
-    })()
+// resolves once the file is written, await it before telling another window to reload the file
+export async function setConfig({ configName = "settings.json", key = "app", newConfig }: ISetConfig) {
+    const configPath: string = await invoke("combine_config_path", { config_name: configName });
+    // if not exist, create new file, so we don't need to check if file exists
+    const store = new Store(configPath);
+    await store.set(key, newConfig);
+    await store.save();
 }
 
 export async function getNoneExistingConfigFileName({ configName, extension, folderName }: { configName: string, extension: string, folderName?: string }) {
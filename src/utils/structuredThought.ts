@@ -0,0 +1,106 @@
+import { IStructuredThought, PetEmotion } from "../types/IThought";
+
+// longer answers are not a thought bubble, the model ignored the instructions
+export const MAX_THOUGHT_LENGTH = 300;
+
+// states that fit each emotion, the first one the pet has is played when the AI suggests none
+const EMOTION_ACTIONS: Record<PetEmotion, string[]> = {
+    [PetEmotion.Happy]: ["greet", "idle"],
+    [PetEmotion.Excited]: ["greet", "idle"],
+    [PetEmotion.Caring]: ["sit", "greet", "idle"],
+    [PetEmotion.Calm]: ["sit", "idle", "stand"],
+    [PetEmotion.Curious]: ["stand", "idle"],
+    [PetEmotion.Sleepy]: ["sleep", "sit", "idle"],
+};
+
+/**
+ * the JSON object inside the answer, some models wrap it in a ```json block or add a sentence around it
+ */
+function extractJsonObject(raw: string): string | null {
+    const start = raw.indexOf("{");
+    const end = raw.lastIndexOf("}");
+    if (start === -1 || end <= start) return null;
+    return raw.slice(start, end + 1);
+}
+
+/**
+ * validate the AI answer against { message, emotion, action }.
+ * A plain text answer is kept as the message, unknown emotions and actions fall back to safe values,
+ * null when nothing usable can be read (e.g. broken JSON)
+ * @param actions states the pet can play, any other action is ignored
+ */
+export function parseStructuredThought(raw: string, actions: string[]): IStructuredThought | null {
+    const text = raw.trim();
+    const json = extractJsonObject(text);
+
+    // the model answered with plain text instead of JSON, an unclosed "{" means the JSON was cut off
+    if (!json) {
+        if (!text || text.includes("{") || text.length > MAX_THOUGHT_LENGTH) return null;
+        return { message: text, emotion: PetEmotion.Calm, action: resolveAction(PetEmotion.Calm, null, actions) };
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(json);
+    } catch {
+        return null;
+    }
+    if (!payload || typeof payload !== "object" || Array.isArray(payload)) return null;
+
+    const { message, emotion, action } = payload as Record<string, unknown>;
+    if (typeof message !== "string" || !message.trim() || message.length > MAX_THOUGHT_LENGTH) return null;
+
+    const validEmotion = Object.values(PetEmotion).includes(emotion as PetEmotion) ? emotion as PetEmotion : PetEmotion.Calm;
+    return {
+        message: message.trim(),
+        emotion: validEmotion,
+        action: resolveAction(validEmotion, typeof action === "string" ? action.trim().toLowerCase() : null, actions),
+    };
+}
+
+/**
+ * the suggested action if the pet has it, otherwise a state that fits the emotion, otherwise none
+ */
+export function resolveAction(emotion: PetEmotion, action: string | null, actions: string[]): string | null {
+    if (action && actions.includes(action)) return action;
+    return EMOTION_ACTIONS[emotion].find((state) => actions.includes(state)) ?? null;
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "", b: "", f: "", '"': '"', "\\": "\\", "/": "/" };
+
+/**
+ * the part of the message that has arrived so far while the answer is still streaming,
+ * read from the "message" field of the unfinished JSON (or the text itself for a plain text answer)
+ */
+export function extractPartialMessage(partial: string): string {
+    const text = partial.trimStart();
+    // plain text answer, a code block is most likely JSON that has not started yet
+    if (!text.includes("{")) return text.startsWith("`") ? "" : text;
+
+    const field = /"message"\s*:\s*"/.exec(text);
+    if (!field) return "";
+
+    let message = "";
+    for (let i = field.index + field[0].length; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') break;
+        if (char !== "\\") {
+            message += char;
+            continue;
+        }
+
+        const escaped = text[i + 1];
+        // the escape sequence is cut in the middle, wait for the next chunk
+        if (escaped === undefined) break;
+        if (escaped === "u") {
+            const code = text.slice(i + 2, i + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(code)) break;
+            message += String.fromCharCode(parseInt(code, 16));
+            i += 5;
+        } else {
+            message += JSON_ESCAPES[escaped] ?? escaped;
+            i += 1;
+        }
+    }
+    return message;
+}
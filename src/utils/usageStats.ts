@@ -0,0 +1,88 @@
+import { IDailyUsage, UsageExportFormat, UsagePeriod } from "../types/IUsageStats";
+import { ReminderType } from "../types/IReminder";
+
+// a bit more than a year, enough for the monthly view and an export of the past year
+export const MAX_USAGE_DAYS = 400;
+const HOURS_PER_DAY = 24;
+
+/**
+ * local date as YYYY-MM-DD, so a late night session counts for the day the user sees on the clock
+ */
+export function getDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function createDailyUsage(date: string): IDailyUsage {
+    return { date, activeMinutes: 0, breakCount: 0, longestFocusStreak: 0, remindersDone: {} };
+}
+
+/**
+ * records with one day changed (added if missing), oldest first and limited to MAX_USAGE_DAYS
+ */
+export function updateDailyUsage(records: IDailyUsage[], date: string, change: (day: IDailyUsage) => IDailyUsage): IDailyUsage[] {
+    const day = records.find((record) => record.date === date) ?? createDailyUsage(date);
+    return [...records.filter((record) => record.date !== date), change({ ...day })]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .slice(-MAX_USAGE_DAYS);
+}
+
+/**
+ * every day of the period up to today, days without a record are empty.
+ * Weeks start on Monday and months on the 1st, like a calendar
+ */
+export function getPeriodDays(records: IDailyUsage[], period: UsagePeriod, today: Date): IDailyUsage[] {
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    if (period === UsagePeriod.Week) start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    if (period === UsagePeriod.Month) start.setDate(1);
+
+    const days: IDailyUsage[] = [];
+    const todayKey = getDateKey(today);
+    for (const date = start; ; date.setDate(date.getDate() + 1)) {
+        const key = getDateKey(date);
+        days.push(records.find((record) => record.date === key) ?? createDailyUsage(key));
+        if (key === todayKey) break;
+    }
+    return days;
+}
+
+/**
+ * active minutes in each of the 24 hours of a day, hours without a record are 0
+ */
+export function getHourlyActiveMinutes(day: Pick<IDailyUsage, "activeMinutesByHour">): number[] {
+    return Array.from({ length: HOURS_PER_DAY }, (_, hour) => day.activeMinutesByHour?.[hour] ?? 0);
+}
+
+export function countRemindersDone(day: Pick<IDailyUsage, "remindersDone">, type: ReminderType): number {
+    return day.remindersDone?.[type] ?? 0;
+}
+
+/**
+ * totals of a period, the longest streak is the longest of any day
+ */
+export function summarizeUsage(days: IDailyUsage[]): Omit<IDailyUsage, "date"> {
+    return days.reduce((total, day) => ({
+        activeMinutes: total.activeMinutes + day.activeMinutes,
+        breakCount: total.breakCount + day.breakCount,
+        longestFocusStreak: Math.max(total.longestFocusStreak, day.longestFocusStreak),
+        remindersDone: Object.fromEntries(
+            Object.values(ReminderType).map((type) => [type, countRemindersDone(total, type) + countRemindersDone(day, type)])
+        ),
+    }), { activeMinutes: 0, breakCount: 0, longestFocusStreak: 0, remindersDone: {} });
+}
+
+export function exportUsage(records: IDailyUsage[], format: UsageExportFormat): string {
+    if (format === UsageExportFormat.Json) return JSON.stringify(records, null, 2);
+
+    const types = Object.values(ReminderType);
+    const header = ["date", "activeMinutes", "breakCount", "longestFocusStreak", ...types.map((type) => `${type}RemindersDone`)].join(",");
+    const rows = records.map((record) => [
+        record.date,
+        record.activeMinutes,
+        record.breakCount,
+        record.longestFocusStreak,
+        ...types.map((type) => countRemindersDone(record, type)),
+    ].join(","));
+    return [header, ...rows].join("\n");
+}
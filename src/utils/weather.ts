@@ -0,0 +1,185 @@
+import { WEATHER_CONDITION_DESCRIPTIONS, WEATHER_CONDITION_SEVERITY } from "../config/weather";
+import {
+    ICurrentWeather,
+    IDailyForecast,
+    IHourlyForecast,
+    IWeatherCoordinates,
+    WeatherCondition,
+    WeatherLocation,
+    WeatherType,
+    WeatherUnits,
+} from "../types/IWeather";
+import { getDateKey } from "./usageStats";
+
+/**
+ * condition of an OpenWeatherMap weather id (https://openweathermap.org/weather-conditions)
+ */
+export function getOpenWeatherMapCondition(conditionId: number): WeatherCondition {
+    if (conditionId >= 200 && conditionId < 300) return WeatherCondition.Thunderstorm;
+    if (conditionId >= 300 && conditionId < 400) return WeatherCondition.Drizzle;
+    if (conditionId === 511) return WeatherCondition.FreezingRain;
+    if (conditionId === 500 || conditionId === 501 || conditionId === 520) return WeatherCondition.Rain;
+    if (conditionId >= 500 && conditionId < 600) return WeatherCondition.HeavyRain;
+    // sleet
+    if (conditionId >= 611 && conditionId <= 616) return WeatherCondition.FreezingRain;
+    if (conditionId >= 600 && conditionId < 700) return WeatherCondition.Snow;
+    if (conditionId >= 700 && conditionId < 800) return WeatherCondition.Fog;
+    if (conditionId === 800) return WeatherCondition.Clear;
+    if (conditionId === 801 || conditionId === 802) return WeatherCondition.PartlyCloudy;
+    if (conditionId === 803 || conditionId === 804) return WeatherCondition.Cloudy;
+    return WeatherCondition.Unknown;
+}
+
+/**
+ * condition of a WMO weather code, used by Open-Meteo (https://open-meteo.com/en/docs, "WMO Weather interpretation codes")
+ */
+export function getWmoCondition(code: number): WeatherCondition {
+    switch (code) {
+        case 0:
+            return WeatherCondition.Clear;
+        case 1:
+        case 2:
+            return WeatherCondition.PartlyCloudy;
+        case 3:
+            return WeatherCondition.Cloudy;
+        case 45:
+        case 48:
+            return WeatherCondition.Fog;
+        case 51:
+        case 53:
+        case 55:
+            return WeatherCondition.Drizzle;
+        case 56:
+        case 57:
+        case 66:
+        case 67:
+            return WeatherCondition.FreezingRain;
+        case 61:
+        case 63:
+        case 80:
+        case 81:
+            return WeatherCondition.Rain;
+        case 65:
+        case 82:
+            return WeatherCondition.HeavyRain;
+        case 71:
+        case 73:
+        case 75:
+        case 77:
+        case 85:
+        case 86:
+            return WeatherCondition.Snow;
+        case 95:
+        case 96:
+        case 99:
+            return WeatherCondition.Thunderstorm;
+        default:
+            return WeatherCondition.Unknown;
+    }
+}
+
+export function getWeatherType(condition: WeatherCondition): WeatherType {
+    switch (condition) {
+        case WeatherCondition.Clear:
+            return WeatherType.Clear;
+        case WeatherCondition.PartlyCloudy:
+        case WeatherCondition.Cloudy:
+            return WeatherType.Clouds;
+        case WeatherCondition.Fog:
+            return WeatherType.Mist;
+        case WeatherCondition.Drizzle:
+        case WeatherCondition.Rain:
+        case WeatherCondition.HeavyRain:
+        case WeatherCondition.FreezingRain:
+            return WeatherType.Rain;
+        case WeatherCondition.Snow:
+            return WeatherType.Snow;
+        case WeatherCondition.Thunderstorm:
+            return WeatherType.Storm;
+        default:
+            return WeatherType.Unknown;
+    }
+}
+
+export function isRainy(condition: WeatherCondition): boolean {
+    return getWeatherType(condition) === WeatherType.Rain || condition === WeatherCondition.Thunderstorm;
+}
+
+/**
+ * "lat, lon" typed by the user, null when it is empty or not valid coordinates
+ */
+export function parseCoordinates(text: string): IWeatherCoordinates | null {
+    const parts = text.split(",").map((part) => part.trim());
+    if (parts.length !== 2 || parts.some((part) => part === "")) return null;
+
+    const [latitude, longitude] = parts.map(Number);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+    return { latitude, longitude };
+}
+
+/**
+ * the coordinates when the user set valid ones, otherwise the city
+ */
+export function getWeatherLocation(city: string, coordinates: string): WeatherLocation {
+    return parseCoordinates(coordinates) ?? { city: city.trim() };
+}
+
+/**
+ * same key for the same place, so the cache does not ask twice for "Hanoi" and " hanoi"
+ */
+export function getWeatherLocationKey(location: WeatherLocation): string {
+    if ("city" in location) return `city:${location.city.trim().toLowerCase()}`;
+    // about 1 km, closer places share the same weather
+    return `coordinates:${location.latitude.toFixed(2)},${location.longitude.toFixed(2)}`;
+}
+
+export function formatWeatherLocation(location: WeatherLocation): string {
+    return "city" in location ? location.city : `${location.latitude}, ${location.longitude}`;
+}
+
+export function celsiusToUnits(celsius: number, units: WeatherUnits): number {
+    return units === WeatherUnits.Imperial ? celsius * 9 / 5 + 32 : celsius;
+}
+
+export function metersPerSecondToUnits(speed: number, units: WeatherUnits): number {
+    return units === WeatherUnits.Imperial ? speed * 2.23694 : speed;
+}
+
+export function formatTemperature(temperature: number, units: WeatherUnits): string {
+    return `${Math.round(temperature)}°${units === WeatherUnits.Imperial ? "F" : "C"}`;
+}
+
+/**
+ * short description for the pets' prompt, e.g. "nhiều mây, 31°C"
+ */
+export function describeWeather(weather: ICurrentWeather): string {
+    return `${WEATHER_CONDITION_DESCRIPTIONS[weather.condition]}, ${formatTemperature(weather.temperature, weather.units)}`;
+}
+
+export function getWorstCondition(conditions: WeatherCondition[]): WeatherCondition {
+    return conditions.reduce(
+        (worst, condition) => WEATHER_CONDITION_SEVERITY.indexOf(condition) > WEATHER_CONDITION_SEVERITY.indexOf(worst) ? condition : worst,
+        WeatherCondition.Unknown,
+    );
+}
+
+/**
+ * daily forecast from a forecast by hours or blocks of hours, for providers without one (OpenWeatherMap free plan).
+ * Days follow the local time of this computer
+ */
+export function getDailyForecastFromHourly(hours: IHourlyForecast[]): IDailyForecast[] {
+    const days: Map<string, IHourlyForecast[]> = new Map();
+    for (const hour of hours) {
+        const date = getDateKey(new Date(hour.time));
+        days.set(date, [...(days.get(date) ?? []), hour]);
+    }
+
+    return Array.from(days.entries()).map(([date, dayHours]) => ({
+        date,
+        condition: getWorstCondition(dayHours.map(({ condition }) => condition)),
+        minTemperature: Math.min(...dayHours.map(({ temperature }) => temperature)),
+        maxTemperature: Math.max(...dayHours.map(({ temperature }) => temperature)),
+        precipitationChance: Math.max(...dayHours.map(({ precipitationChance }) => precipitationChance)),
+    }));
+}